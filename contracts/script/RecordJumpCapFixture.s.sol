@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {Script, console} from "forge-std/Script.sol";
+import {SpeculateCore} from "../src/SpeculateCore.sol";
+import {MockUSDC} from "../src/MockUSDC.sol";
+
+struct FixtureMarket {
+    uint256 qYes;
+    uint256 qNo;
+    uint256 bE18;
+    uint256 usdcVault;
+    uint16 feeTreasuryBps;
+    uint16 feeVaultBps;
+    uint16 feeLpBps;
+    uint256 maxUsdcPerTrade;
+    uint256 priceBandThreshold;
+    uint256 maxJumpE18;
+}
+
+/**
+ * @title JumpCapHarness
+ * @notice SpeculateCore with a setter for LMSR state, so fixture cases can start anywhere on the curve
+ */
+contract JumpCapHarness is SpeculateCore {
+    constructor(address usdc_, address treasury_) SpeculateCore(usdc_, treasury_) {}
+
+    function setState(uint256 id, FixtureMarket memory s) external {
+        Market storage m = markets[id];
+        m.qYes = s.qYes;
+        m.qNo = s.qNo;
+        m.bE18 = s.bE18;
+        m.usdcVault = s.usdcVault;
+        m.feeTreasuryBps = s.feeTreasuryBps;
+        m.feeVaultBps = s.feeVaultBps;
+        m.feeLpBps = s.feeLpBps;
+        m.maxUsdcPerTrade = s.maxUsdcPerTrade;
+        m.priceBandThreshold = s.priceBandThreshold;
+        m.maxJumpE18 = s.maxJumpE18;
+    }
+
+    function positionBalance(uint256 id, bool isYes, address user) external view returns (uint256) {
+        return (isYes ? markets[id].yes : markets[id].no).balanceOf(user);
+    }
+}
+
+/**
+ * @title RecordJumpCapFixture
+ * @notice Records the frontend's jump-cap parity fixture from the real contract.
+ *         For each market state and side: maxUsdcBeforeJump, then a buy of 98% of it,
+ *         with spotPriceYesE18 before and after. Runs locally, nothing is broadcast.
+ *
+ *         forge script script/RecordJumpCapFixture.s.sol --disable-code-size-limit
+ */
+contract RecordJumpCapFixture is Script {
+    string constant OUT = "../frontend/__tests__/lib/fixtures/speculateCoreJumpCap.json";
+    string constant SOURCE =
+        "contracts/script/RecordJumpCapFixture.s.sol: SpeculateCore (solc 0.8.24 via-IR) with market state set directly, maxUsdcBeforeJump, then buyYes/buyNo of 98% of it, with spotPriceYesE18 before and after";
+
+    function run() external {
+        MockUSDC usdc = new MockUSDC();
+        JumpCapHarness core = new JumpCapHarness(address(usdc), address(0xdEaD));
+        usdc.mint(address(this), 1e15);
+        usdc.approve(address(core), type(uint256).max);
+        uint256 id = core.createMarket(
+            "Fixture?", "Y", "Y", "N", "N", 1_000e6, 4_000_000_000, address(0), bytes32(0), 0, SpeculateCore.Comparison.Above
+        );
+
+        FixtureMarket[] memory states = _states();
+        string memory cases;
+        for (uint256 i = 0; i < states.length; i++) {
+            for (uint256 side = 0; side < 2; side++) {
+                string memory entry = _record(core, id, states[i], side == 0);
+                cases = bytes(cases).length == 0 ? entry : string.concat(cases, ",\n", entry);
+            }
+        }
+
+        string memory json = string.concat(
+            "{\n",
+            '  "source": "', SOURCE, '",\n',
+            '  "maxInstantJumpE18": "', vm.toString(core.maxInstantJumpE18()), '",\n',
+            '  "cases": [\n', cases, "\n  ]\n}\n"
+        );
+        vm.writeFile(OUT, json);
+        console.log("Wrote", states.length * 2, "cases to", OUT);
+    }
+
+    function _states() private pure returns (FixtureMarket[] memory states) {
+        states = new FixtureMarket[](7);
+        for (uint256 i = 0; i < states.length; i++) {
+            states[i] = _baseState();
+        }
+        // skewed towards YES, with and without NO shares outstanding
+        states[1].qYes = 300e18;
+        states[2].qYes = 400e18;
+        states[2].qNo = 100e18;
+        // deep NO book with a vault fee
+        states[3].qYes = 50e18;
+        states[3].qNo = 2_000e18;
+        states[3].usdcVault = 5_000e6;
+        states[3].feeVaultBps = 50;
+        // large market with its own tighter jump cap
+        states[4].bE18 = 10_000e18;
+        states[4].qYes = 6_000e18;
+        states[4].usdcVault = 8_000e6;
+        states[4].maxJumpE18 = 5e16;
+        // thin market where the per-trade cap binds first
+        states[5].bE18 = 100e18;
+        states[5].qNo = 80e18;
+        states[5].maxUsdcPerTrade = 250e6;
+        // uneven fee split
+        states[6].bE18 = 5_000e18;
+        states[6].qYes = 1_200e18;
+        states[6].qNo = 1_500e18;
+        states[6].usdcVault = 3_000e6;
+        states[6].feeTreasuryBps = 50;
+        states[6].feeLpBps = 150;
+    }
+
+    function _baseState() private pure returns (FixtureMarket memory) {
+        return FixtureMarket({
+            qYes: 0,
+            qNo: 0,
+            bE18: 1_000e18,
+            usdcVault: 1_000e6,
+            feeTreasuryBps: 100,
+            feeVaultBps: 0,
+            feeLpBps: 100,
+            maxUsdcPerTrade: 0,
+            priceBandThreshold: 10_000e6,
+            maxJumpE18: 0
+        });
+    }
+
+    function _record(JumpCapHarness core, uint256 id, FixtureMarket memory s, bool isYes)
+        private
+        returns (string memory)
+    {
+        core.setState(id, s);
+        uint256 maxUsdc = core.maxUsdcBeforeJump(id, isYes);
+        uint256 priceBefore = core.spotPriceYesE18(id);
+        uint256 chunkUsdc = (maxUsdc * 9_800) / 10_000;
+
+        uint256 held = core.positionBalance(id, isYes, address(this));
+        if (isYes) {
+            core.buyYes(id, chunkUsdc, 0);
+        } else {
+            core.buyNo(id, chunkUsdc, 0);
+        }
+        uint256 tokensOut = core.positionBalance(id, isYes, address(this)) - held;
+
+        return string.concat(
+            "    {\n",
+            _market(s),
+            '      "isYes": ', vm.toString(isYes), ",\n",
+            _field("      ", "maxUsdcBeforeJump", maxUsdc, false),
+            _field("      ", "chunkUsdc", chunkUsdc, false),
+            _field("      ", "tokensOut", tokensOut, false),
+            _field("      ", "priceBeforeE18", priceBefore, false),
+            _quoted("      ", "priceAfterE18", vm.toString(core.spotPriceYesE18(id)), true),
+            "    }"
+        );
+    }
+
+    function _market(FixtureMarket memory s) private pure returns (string memory) {
+        string memory indent = "        ";
+        return string.concat(
+            '      "market": {\n',
+            string.concat(
+                _field(indent, "qYes", s.qYes, false),
+                _field(indent, "qNo", s.qNo, false),
+                _field(indent, "bE18", s.bE18, false),
+                _field(indent, "usdcVault", s.usdcVault, false)
+            ),
+            string.concat(
+                _number(indent, "feeTreasuryBps", s.feeTreasuryBps),
+                _number(indent, "feeVaultBps", s.feeVaultBps),
+                _number(indent, "feeLpBps", s.feeLpBps)
+            ),
+            string.concat(
+                _field(indent, "maxUsdcPerTrade", s.maxUsdcPerTrade, false),
+                _field(indent, "priceBandThreshold", s.priceBandThreshold, false),
+                _field(indent, "maxJumpE18", s.maxJumpE18, true)
+            ),
+            "      },\n"
+        );
+    }
+
+    // uint256 values are written as strings so JSON readers keep full precision
+    function _field(string memory indent, string memory key, uint256 value, bool last)
+        private
+        pure
+        returns (string memory)
+    {
+        return _quoted(indent, key, vm.toString(value), last);
+    }
+
+    function _quoted(string memory indent, string memory key, string memory value, bool last)
+        private
+        pure
+        returns (string memory)
+    {
+        return string.concat(indent, '"', key, '": "', value, last ? '"\n' : '",\n');
+    }
+
+    function _number(string memory indent, string memory key, uint256 value) private pure returns (string memory) {
+        return string.concat(indent, '"', key, '": ', vm.toString(value), ",\n");
+    }
+}
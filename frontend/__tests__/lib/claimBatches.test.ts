@@ -0,0 +1,71 @@
+import {
+  claimBatchKey,
+  claimBatchSummary,
+  claimItemKey,
+  createClaimBatch,
+  reconcileClaimBalances,
+  redeemableUsdc,
+  retryFailedClaims,
+  withClaimItem,
+  type ClaimKind,
+} from '@/lib/claimBatches'
+
+const ACCOUNT = '0x00000000000000000000000000000000000000aa' as const
+const TOKEN = '0x00000000000000000000000000000000000000bb' as const
+const E18 = 10n ** 18n
+const USDC = 10n ** 6n
+
+const candidate = (marketId: number, usdc: bigint, kind: ClaimKind = 'redeem') => ({
+  kind,
+  marketId,
+  question: `Market ${marketId}?`,
+  isYes: marketId % 2 === 0,
+  token: kind === 'redeem' ? TOKEN : undefined,
+  expectedUsdc: usdc * USDC,
+})
+
+describe('claim batch bookkeeping', () => {
+  it('redeems winning shares at $1 each', () => {
+    expect(redeemableUsdc(40n * E18)).toBe(40n * USDC)
+    expect(redeemableUsdc(10n ** 11n)).toBe(0n) // dust below a micro-dollar
+  })
+
+  it('starts every claim pending, keyed by kind and market', () => {
+    const batch = createClaimBatch(ACCOUNT, [candidate(1, 40n), candidate(1, 3n, 'lpFees'), candidate(2, 7n, 'lpResidual')])
+
+    expect(batch.status).toBe('running')
+    expect(batch.items.map(item => item.key)).toEqual(['redeem-1', 'lpFees-1', 'lpResidual-2'])
+    expect(batch.items.map(item => item.status)).toEqual(['pending', 'pending', 'pending'])
+    expect(claimItemKey('lpFees', 9)).toBe('lpFees-9')
+  })
+
+  it('skips claims with nothing left and refreshes the rest', () => {
+    const batch = createClaimBatch(ACCOUNT, [candidate(1, 40n), candidate(2, 15n, 'lpFees'), candidate(3, 5n)])
+    const confirmed = withClaimItem(batch, 'redeem-3', { status: 'confirmed', usdcOut: 5n * USDC })
+
+    const reconciled = reconcileClaimBalances(
+      confirmed,
+      new Map([['redeem-1', 0n], ['lpFees-2', 20n * USDC], ['redeem-3', 0n]]),
+    )
+
+    expect(reconciled.items.map(item => item.status)).toEqual(['skipped', 'pending', 'confirmed'])
+    expect(reconciled.items[1].expectedUsdc).toBe(20n * USDC)
+  })
+
+  it('summarises payouts and re-queues failures for a retry', () => {
+    let batch = createClaimBatch(ACCOUNT, [candidate(1, 40n), candidate(2, 15n), candidate(3, 5n, 'lpFees'), candidate(4, 1n)])
+    batch = withClaimItem(batch, 'redeem-1', { status: 'confirmed', usdcOut: 40n * USDC })
+    batch = withClaimItem(batch, 'redeem-2', { status: 'failed', error: 'Transaction reverted' })
+    batch = withClaimItem(batch, 'lpFees-3', { status: 'skipped' })
+
+    expect(claimBatchSummary(batch)).toEqual({ paidUsdc: 40n * USDC, claimed: 1, failed: 1, skipped: 1, remaining: 1 })
+
+    const retried = retryFailedClaims({ ...batch, status: 'completed' })
+    expect(retried.status).toBe('running')
+    expect(retried.items[1]).toMatchObject({ status: 'pending', error: undefined })
+  })
+
+  it('keys persisted batches by lower-cased account', () => {
+    expect(claimBatchKey('0xABCdef')).toBe('0xabcdef')
+  })
+})
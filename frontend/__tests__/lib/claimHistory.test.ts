@@ -0,0 +1,68 @@
+import { mergeClaimPage, reconcilePendingClaims, type ClaimHistoryEntry } from '@/lib/claimHistory'
+
+const market = (id: number) => ({ id: String(id), question: `Market ${id}?` })
+
+const redemption = (id: string, timestamp: number, marketId = 1) => ({
+  id,
+  amount: '5000000',
+  timestamp: String(timestamp),
+  txHash: `0x${id}`,
+  market: market(marketId),
+})
+
+const lpEvent = (id: string, timestamp: number, action = 'claimFees') => ({
+  ...redemption(id, timestamp, 2),
+  action,
+})
+
+const entry = (patch: Partial<ClaimHistoryEntry>): ClaimHistoryEntry => ({
+  id: 'pending-0xaa-redeem-1',
+  kind: 'redeem',
+  marketId: 1,
+  question: 'Market 1?',
+  amountUsdc: '5000000',
+  timestamp: 1_000,
+  txHash: '0xaa',
+  pending: true,
+  ...patch,
+})
+
+describe('claim history', () => {
+  it('merges redemptions and LP claims newest first', () => {
+    const page = mergeClaimPage(
+      [redemption('r1', 300), redemption('r2', 100)],
+      [lpEvent('l1', 200, 'claimResidual')],
+      { redemptions: 0, lpEvents: 0 },
+    )
+
+    expect(page.entries.map(e => [e.id, e.kind])).toEqual([
+      ['r1', 'redeem'],
+      ['l1', 'lpResidual'],
+      ['r2', 'redeem'],
+    ])
+    expect(page.next).toBeNull()
+  })
+
+  it('advances each cursor only by the rows it showed', () => {
+    const page = mergeClaimPage(
+      [redemption('r1', 400), redemption('r2', 100)],
+      [lpEvent('l1', 300), lpEvent('l2', 200)],
+      { redemptions: 4, lpEvents: 2 },
+      2,
+    )
+
+    expect(page.entries.map(e => e.id)).toEqual(['r1', 'l1'])
+    expect(page.next).toEqual({ redemptions: 5, lpEvents: 3 })
+  })
+
+  it('drops pending claims once their transaction is indexed', () => {
+    const indexed = [entry({ id: 'tx-log', pending: undefined, txHash: '0xaa' })]
+    const pending = [entry({}), entry({ id: 'pending-0xbb-lpFees-2', kind: 'lpFees', marketId: 2, txHash: '0xbb' })]
+
+    expect(reconcilePendingClaims(indexed, pending, 2_000).map(e => e.id)).toEqual(['pending-0xbb-lpFees-2'])
+  })
+
+  it('expires pending claims the indexer never picked up', () => {
+    expect(reconcilePendingClaims([], [entry({})], 1_000 + 24 * 60 * 60)).toEqual([])
+  })
+})
@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { commentId, type MarketComment } from '@/lib/comments'
+import { createFileCommentStore, createMemoryCommentStore, DuplicateCommentError, StaleVoteError } from '@/lib/commentStore'
+
+const AUTHOR = '0x00000000000000000000000000000000000000aa' as const
+
+const comment = (createdAt: number, marketId = '1'): MarketComment => ({
+  id: commentId(createdAt, `0x${createdAt.toString(16).padStart(12, '0')}`),
+  marketId,
+  author: AUTHOR,
+  body: `comment ${createdAt}`,
+  upvoters: [],
+  createdAt,
+  signature: `0x${createdAt.toString(16).padStart(12, '0')}`,
+})
+
+describe('comment store', () => {
+  it('lists every comment on a market', async () => {
+    const store = createMemoryCommentStore()
+    for (const createdAt of [1000, 3000, 2000]) await store.insert(comment(createdAt))
+    await store.insert(comment(5000, '2'))
+
+    expect((await store.list('1')).map(c => c.createdAt).sort()).toEqual([1000, 2000, 3000])
+    expect(await store.list('3')).toEqual([])
+  })
+
+  it('counts one upvote per voter', async () => {
+    const store = createMemoryCommentStore()
+    await store.insert(comment(1000))
+    const { id } = comment(1000)
+
+    await store.vote('1', id, '0x1', true, 1)
+    await store.vote('1', id, '0x1', true, 2)
+    expect((await store.vote('1', id, '0x2', true, 1))?.upvoters).toEqual(['0x1', '0x2'])
+    expect((await store.vote('1', id, '0x1', false, 3))?.upvoters).toEqual(['0x2'])
+    expect(await store.vote('1', 'missing', '0x1', true, 4)).toBeNull()
+  })
+
+  it('rejects a vote signed no later than the voter\'s last one', async () => {
+    const store = createMemoryCommentStore()
+    await store.insert(comment(1000))
+    const { id } = comment(1000)
+
+    await store.vote('1', id, '0x1', true, 1)
+    await store.vote('1', id, '0x1', false, 2)
+    await expect(store.vote('1', id, '0x1', true, 1)).rejects.toBeInstanceOf(StaleVoteError)
+    await expect(store.vote('1', id, '0x1', true, 2)).rejects.toBeInstanceOf(StaleVoteError)
+    expect((await store.get('1', id))?.upvoters).toEqual([])
+    expect(await store.get('1', id)).not.toHaveProperty('voteIssuedAt')
+  })
+
+  it('keeps a deleted comment as a tombstone so its signed post cannot be replayed', async () => {
+    const store = createMemoryCommentStore()
+    await store.insert(comment(1000))
+    await store.update({ ...comment(1000), body: '', deleted: true })
+
+    await expect(store.insert(comment(1000))).rejects.toBeInstanceOf(DuplicateCommentError)
+    expect(await store.get('1', comment(1000).id)).toMatchObject({ body: '', deleted: true })
+  })
+
+  it('leaves deleted comments untouched by votes', async () => {
+    const store = createMemoryCommentStore()
+    await store.insert(comment(1000))
+    await store.update({ ...comment(1000), deleted: true })
+
+    expect(await store.vote('1', comment(1000).id, '0x1', true, 1)).toBeNull()
+    expect((await store.get('1', comment(1000).id))?.upvoters).toEqual([])
+  })
+
+  it('refuses the same comment twice and removes by id', async () => {
+    const store = createMemoryCommentStore()
+    await store.insert(comment(1000))
+
+    await expect(store.insert(comment(1000))).rejects.toBeInstanceOf(DuplicateCommentError)
+    expect(await store.remove('1', comment(1000).id)).toBe(true)
+    expect(await store.remove('1', comment(1000).id)).toBe(false)
+    expect(await store.get('1', comment(1000).id)).toBeNull()
+  })
+
+  it('persists to a JSON file across store instances', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'comments-'))
+    const filePath = path.join(dir, 'nested', 'comments.json')
+    try {
+      await createFileCommentStore(filePath).insert(comment(1000))
+
+      const reopened = createFileCommentStore(filePath)
+      expect(await reopened.list('1')).toEqual([comment(1000)])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,126 @@
+import {
+  COMMENT_MAX_LENGTH,
+  COMMENT_SIGNATURE_TTL_MS,
+  commentId,
+  commentMessage,
+  pageCommentThreads,
+  parseDeleteComment,
+  parseNewComment,
+  parsePageSize,
+  parseVoteComment,
+  type MarketComment,
+} from '@/lib/comments'
+
+const AUTHOR = '0x00000000000000000000000000000000000000AA'
+const NOW = 1_750_000_000_000
+
+const post = (patch: Record<string, unknown> = {}) => ({
+  author: AUTHOR,
+  body: '  Rates stay put  ',
+  side: 'yes',
+  issuedAt: NOW,
+  signature: '0xabcdef0123456789',
+  ...patch,
+})
+
+describe('market comments', () => {
+  it('signs the market, parent, time and trimmed body', () => {
+    const message = commentMessage({ marketId: '7', body: ' gm \r\n', parentId: 'abc', issuedAt: NOW })
+
+    expect(message).toContain('Market: 7')
+    expect(message).toContain('Reply to: abc')
+    expect(message).toContain(`Issued at: ${NOW}`)
+    expect(message.endsWith('\n\ngm')).toBe(true)
+  })
+
+  it('normalises a valid post and lower-cases the author', () => {
+    expect(parseNewComment(post(), NOW + 1000)).toEqual({
+      author: AUTHOR.toLowerCase(),
+      body: 'Rates stay put',
+      side: 'yes',
+      parentId: undefined,
+      issuedAt: NOW,
+      signature: '0xabcdef0123456789',
+    })
+  })
+
+  it('rejects empty, oversized, mis-sided and stale posts', () => {
+    expect(() => parseNewComment(post({ body: '   ' }), NOW)).toThrow('Comment body is required')
+    expect(() => parseNewComment(post({ body: 'x'.repeat(COMMENT_MAX_LENGTH + 1) }), NOW)).toThrow('limited')
+    expect(() => parseNewComment(post({ side: 'maybe' }), NOW)).toThrow('side must be yes or no')
+    expect(() => parseNewComment(post({ author: '0x123' }), NOW)).toThrow('Invalid author address')
+    expect(() => parseNewComment(post(), NOW + COMMENT_SIGNATURE_TTL_MS + 1)).toThrow('Signature expired')
+    expect(() => parseDeleteComment(post(), NOW)).toThrow('commentId is required')
+    expect(() => parseVoteComment({ ...post(), voter: AUTHOR, up: 'yes' }, NOW)).toThrow('up must be true or false')
+  })
+
+  it('orders ids by creation time and ties a replayed signature to one id', () => {
+    const earlier = commentId(NOW, '0xffff000000000000')
+    const later = commentId(NOW + 1, '0x0000000000000000')
+
+    expect(earlier < later).toBe(true)
+    expect(commentId(NOW, '0xFFFF000000000000')).toBe(earlier)
+  })
+
+  it('caps the page size', () => {
+    expect(parsePageSize(null)).toBe(20)
+    expect(parsePageSize('500')).toBe(100)
+    expect(() => parsePageSize('0')).toThrow()
+  })
+
+  describe('threads', () => {
+    const HOLDER = '0x00000000000000000000000000000000000000bb'
+
+    const comment = (createdAt: number, patch: Partial<MarketComment> = {}): MarketComment => ({
+      id: commentId(createdAt, '0x000000000000'),
+      marketId: '7',
+      author: AUTHOR.toLowerCase() as `0x${string}`,
+      body: `at ${createdAt}`,
+      upvoters: [],
+      createdAt,
+      signature: '0x000000000000',
+      ...patch,
+    })
+
+    const a = comment(1000, { upvoters: ['0x1', '0x2'] })
+    const b = comment(2000, { author: HOLDER })
+    const c = comment(3000, { upvoters: ['0x1'] })
+    const replyToA = comment(4000, { parentId: a.id, rootId: a.id })
+    const nestedReply = comment(5000, { parentId: replyToA.id, rootId: a.id, author: HOLDER })
+    const all = [a, b, c, replyToA, nestedReply]
+
+    it('pages top-level comments newest first with their whole thread', () => {
+      const first = pageCommentThreads(all, { sort: 'new', limit: 2 })
+      expect(first.comments.map(root => root.createdAt)).toEqual([3000, 2000])
+      expect(first.replies).toEqual([])
+
+      const second = pageCommentThreads(all, { sort: 'new', limit: 2, cursor: first.nextCursor! })
+      expect(second.comments.map(root => root.createdAt)).toEqual([1000])
+      expect(second.replies.map(reply => reply.createdAt)).toEqual([4000, 5000])
+      expect(second.nextCursor).toBeNull()
+    })
+
+    it('sorts by upvotes and pages top by offset', () => {
+      const first = pageCommentThreads(all, { sort: 'top', limit: 2 })
+      expect(first.comments.map(root => root.createdAt)).toEqual([1000, 3000])
+      expect(first.nextCursor).toBe('2')
+      expect(pageCommentThreads(all, { sort: 'top', limit: 2, cursor: '2' }).comments.map(root => root.createdAt)).toEqual([2000])
+    })
+
+    it('keeps only threads started by holders', () => {
+      const page = pageCommentThreads(all, { sort: 'holders', limit: 10, holders: new Set([HOLDER]) })
+      expect(page.comments.map(root => root.author)).toEqual([HOLDER])
+    })
+
+    it('hides a deleted comment once nobody replied to it', () => {
+      const deletedA = { ...a, deleted: true, body: '' }
+      expect(pageCommentThreads([deletedA, replyToA], { sort: 'new', limit: 10 }).comments).toEqual([deletedA])
+      expect(pageCommentThreads([deletedA], { sort: 'new', limit: 10 }).comments).toEqual([])
+
+      const deletedReply = { ...replyToA, deleted: true, body: '' }
+      expect(pageCommentThreads([a, deletedReply], { sort: 'new', limit: 10 }).replies).toEqual([])
+      expect(pageCommentThreads([deletedA, deletedReply], { sort: 'new', limit: 10 }).comments).toEqual([])
+      expect(pageCommentThreads([a, deletedReply, nestedReply], { sort: 'new', limit: 10 }).replies).toEqual([deletedReply, nestedReply])
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import {
+  buildHistoryRows,
+  historyToCsv,
+  parseRangeBound,
+  type ExportMarket,
+  type UserHistory,
+} from '@/lib/historyExport'
+
+const E18 = 10n ** 18n
+const USDC = 10n ** 6n
+
+const market: ExportMarket = {
+  id: '7',
+  question: 'Will it rain, "really"?',
+  isResolved: true,
+  yesWins: true,
+  resolutionTimestamp: '500',
+}
+
+const trade = (
+  id: string,
+  timestamp: number,
+  action: 'buy' | 'sell',
+  side: 'yes' | 'no',
+  tokens: bigint,
+  usdc: bigint,
+  logIndex = 0,
+) => ({
+  id,
+  txHash: `0x${id}`,
+  blockNumber: timestamp.toString(),
+  logIndex: logIndex.toString(),
+  timestamp: timestamp.toString(),
+  action,
+  side,
+  tokenDelta: ((action === 'buy' ? tokens : -tokens) * E18).toString(),
+  usdcDelta: ((action === 'buy' ? -usdc : usdc) * USDC).toString(),
+  feeTreasury: '10000',
+  feeVault: '0',
+  feeLp: '10000',
+  market,
+})
+
+const history: UserHistory = {
+  trades: [
+    trade('a1', 100, 'buy', 'yes', 100n, 40n),
+    trade('a2', 200, 'buy', 'yes', 100n, 60n),
+    trade('a3', 300, 'sell', 'yes', 100n, 70n),
+    trade('a4', 310, 'buy', 'no', 20n, 8n),
+  ],
+  redemptions: [
+    { id: 'r1', txHash: '0xr1', blockNumber: '600', logIndex: '0', timestamp: '600', amount: (100n * USDC).toString(), market },
+  ],
+  liquidityEvents: [
+    { id: 'l1', txHash: '0xl1', timestamp: '50', action: 'add', amount: (25n * USDC).toString(), market },
+    { id: 'l2', txHash: '0xl2', timestamp: '0', action: 'finalizeResidual', amount: '1', market },
+  ],
+}
+
+describe('buildHistoryRows', () => {
+  it('attaches realized PnL to every disposal under the chosen method', () => {
+    const rows = buildHistoryRows(history, 'fifo')
+
+    expect(rows.map(row => row.type)).toEqual(['lp_add', 'buy', 'buy', 'sell', 'buy', 'settle', 'redeem'])
+    expect(rows.map(row => row.realizedPnl)).toEqual(['', '', '', '30', '', '-8', '40'])
+
+    const sell = rows[3]
+    expect(sell.usdc).toBe('70')
+    expect(sell.fees).toBe('0.02')
+    expect(sell.price).toBe('0.7')
+    expect(sell.txHash).toBe('0xa3')
+    expect(rows[1].usdc).toBe('-40')
+    expect(rows[0].usdc).toBe('-25')
+    expect(rows[6].shares).toBe('100')
+  })
+
+  it('keeps earlier history for cost basis when filtering by date', () => {
+    const rows = buildHistoryRows(history, 'average', { from: 250, to: 400 })
+
+    expect(rows.map(row => row.type)).toEqual(['sell', 'buy'])
+    expect(rows[0].realizedPnl).toBe('20')
+  })
+
+  it('replays trades in one block in log order even when their ids sort the other way', () => {
+    const rows = buildHistoryRows(
+      {
+        trades: [trade('b1', 100, 'sell', 'yes', 100n, 70n, 2), trade('b2', 100, 'buy', 'yes', 100n, 40n, 1)],
+        redemptions: [],
+        liquidityEvents: [],
+      },
+      'fifo',
+    )
+
+    expect(rows.find(row => row.type === 'sell')?.realizedPnl).toBe('30')
+    expect(rows.some(row => row.type === 'settle')).toBe(false)
+  })
+})
+
+describe('historyToCsv', () => {
+  it('quotes fields and neutralises formula-like text', () => {
+    const [row] = buildHistoryRows(history, 'average', { from: 100, to: 100 })
+    const csv = historyToCsv([
+      row,
+      { ...row, question: '=HYPERLINK("x")' },
+      { ...row, question: "-1+cmd|'/C calc'!A0" },
+    ])
+    const lines = csv.trim().split('\n')
+
+    expect(lines[0]).toBe('date,timestamp,marketId,question,type,side,shares,usdc,fees,price,realizedPnl,txHash')
+    expect(lines[1]).toContain('"Will it rain, ""really""?"')
+    expect(lines[1]).toContain(',-40,')
+    expect(lines[2]).toContain(`"'=HYPERLINK(""x"")"`)
+    expect(lines[3]).toContain(`,'-1+cmd|'/C calc'!A0,`)
+    expect(lines[3]).toContain(',-40,')
+  })
+})
+
+describe('parseRangeBound', () => {
+  it('reads unix seconds and dates, extending a bare end date to the end of the day', () => {
+    expect(parseRangeBound('1700000000')).toBe(1_700_000_000)
+    expect(parseRangeBound('2025-01-01')).toBe(1_735_689_600)
+    expect(parseRangeBound('2025-01-01', true)).toBe(1_735_775_999)
+    expect(parseRangeBound(null)).toBeUndefined()
+    expect(() => parseRangeBound('soon')).toThrow('Invalid date')
+  })
+})
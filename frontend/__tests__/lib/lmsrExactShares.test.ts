@@ -0,0 +1,53 @@
+import { SLIPPAGE_BPS, simulateBuyChunk, usdcForSharesOut } from '@/lib/lmsrMath'
+
+const E18 = 10n ** 18n
+const B = 1_000n * E18
+
+describe('usdcForSharesOut', () => {
+  it('returns null for empty orders and impossible fee schedules', () => {
+    expect(usdcForSharesOut(0n, 0n, 0n, B, 100, 0, 100, true)).toBeNull()
+    expect(usdcForSharesOut(E18, 0n, 0n, 0n, 100, 0, 100, true)).toBeNull()
+    expect(usdcForSharesOut(E18, 0n, 0n, B, 5_000, 2_500, 2_500, true)).toBeNull()
+  })
+
+  it('finds the smallest gross amount that mints the requested shares', () => {
+    const cases: Array<[bigint, bigint, bigint, boolean]> = [
+      [500n * E18, 0n, 0n, true],
+      [500n * E18, 0n, 0n, false],
+      [1n * E18, 800n * E18, 200n * E18, true],
+      [12_345n * E18 / 100n, 200n * E18, 900n * E18, true],
+      [3_000n * E18, 1_000n * E18, 1_000n * E18, false],
+    ]
+
+    for (const [shares, qYes, qNo, isYes] of cases) {
+      const quote = usdcForSharesOut(shares, qYes, qNo, B, 100, 25, 100, isYes)
+      expect(quote).not.toBeNull()
+
+      const exact = simulateBuyChunk(quote!.usdcIn, qYes, qNo, B, 100, 25, 100, isYes)!
+      expect(exact.tokensOut).toBeGreaterThanOrEqual(shares)
+      expect(quote!.tokensOut).toBe(exact.tokensOut)
+
+      const oneLess = simulateBuyChunk(quote!.usdcIn - 1n, qYes, qNo, B, 100, 25, 100, isYes)
+      expect(oneLess === null || oneLess.tokensOut < shares).toBe(true)
+    }
+  })
+
+  it('includes all three fee legs in the gross amount', () => {
+    const shares = 250n * E18
+    const noFee = usdcForSharesOut(shares, 0n, 0n, B, 0, 0, 0, true)!
+    const withFee = usdcForSharesOut(shares, 0n, 0n, B, 100, 50, 100, true)!
+
+    expect(withFee.net).toBeGreaterThanOrEqual(noFee.usdcIn - 1n)
+    expect(withFee.fees.total).toBe(withFee.usdcIn - withFee.net)
+    expect(withFee.fees.treasury).toBe((withFee.usdcIn * 100n) / 10_000n)
+    expect(withFee.fees.vault).toBe((withFee.usdcIn * 50n) / 10_000n)
+  })
+
+  it('guards the requested share count with the slippage buffer', () => {
+    const shares = 500n * E18
+    const quote = usdcForSharesOut(shares, 0n, 0n, B, 100, 0, 100, true)!
+
+    expect(quote.minOut).toBe(shares - (shares * SLIPPAGE_BPS) / 10_000n)
+    expect(quote.newQYes).toBe(quote.tokensOut)
+  })
+})
@@ -0,0 +1,309 @@
+import {
+  costFunction,
+  findSharesOut,
+  maxUsdcBeforeJump,
+  simulateBuyChunk,
+  spotPriceYesE18,
+  type JumpCapMarket,
+} from '@/lib/lmsrMath'
+import contractFixture from './fixtures/speculateCoreJumpCap.json'
+
+// Line-by-line port of SpeculateCore's fixed-point helpers with uint256 semantics:
+// checked arithmetic reverts on overflow/underflow, `unchecked` blocks wrap at 2^256.
+const UINT256_MAX = (1n << 256n) - 1n
+const SCALE = 10n ** 18n
+const LN2 = 693147180559945309n
+const LOG2_E = 1442695040888963407n
+
+const checked = (v: bigint) => {
+  if (v < 0n || v > UINT256_MAX) throw new Error('panic: arithmetic overflow')
+  return v
+}
+const TWO_OVER_LN2 = checked(checked(2n * SCALE) * SCALE) / LN2
+
+const sol = {
+  mul: (x: bigint, y: bigint) => BigInt.asUintN(256, x * y) / SCALE,
+  div: (x: bigint, y: bigint) => {
+    if (y === 0n) throw new Error('div0')
+    return BigInt.asUintN(256, x * SCALE) / y
+  },
+  exp2(x: bigint) {
+    if (x > 192n * SCALE) throw new Error('exp2')
+    const intPart = x / SCALE
+    const frac = x % SCALE
+    let res = SCALE
+    let term = SCALE
+    const y = sol.mul(frac, LN2)
+    for (let i = 1n; i <= 20n; i++) {
+      term = sol.mul(term, y) / i
+      res = checked(res + term)
+    }
+    if (intPart >= 256n) throw new Error('exp2: shift overflow')
+    return checked(BigInt.asUintN(256, 1n << intPart) * res)
+  },
+  log2(x: bigint) {
+    if (x === 0n) throw new Error('log2')
+    let res = 0n
+    for (const shift of [128n, 64n, 32n, 16n, 8n, 4n, 2n]) {
+      if (x >= BigInt.asUintN(256, SCALE << shift)) {
+        x >>= shift
+        res = checked(res + shift * SCALE)
+      }
+    }
+    if (x >= SCALE << 1n) { res = checked(res + SCALE); x >>= 1n }
+    const z = sol.div(checked(x - SCALE), checked(x + SCALE))
+    const z2 = sol.mul(z, z)
+    let w = SCALE
+    w = checked(w + sol.mul(z2, SCALE) / 3n)
+    const z4 = sol.mul(z2, z2)
+    w = checked(w + sol.mul(z4, SCALE) / 5n)
+    const z6 = sol.mul(z4, z2)
+    w = checked(w + sol.mul(z6, SCALE) / 7n)
+    const z8 = sol.mul(z6, z2)
+    w = checked(w + sol.mul(z8, SCALE) / 9n)
+    return checked(res + sol.mul(sol.mul(z, w), TWO_OVER_LN2))
+  },
+  ln(x: bigint) {
+    if (x === 0n) throw new Error('ln0')
+    return sol.mul(sol.log2(x), LN2)
+  },
+  C(qY: bigint, qN: bigint, b: bigint) {
+    if (b === 0n) throw new Error('b0')
+    const maxQ = qY > qN ? qY : qN
+    const minQ = qY < qN ? qY : qN
+    const pos = sol.div(checked(maxQ - minQ), b)
+    const scaled = sol.mul(pos, LOG2_E)
+    if (scaled > 192n * SCALE) return maxQ
+    const expPos = sol.exp2(scaled)
+    const inner = checked(SCALE + sol.div(SCALE, expPos))
+    return checked(maxQ + sol.mul(b, sol.ln(inner)))
+  },
+  spotYesFromQ(qY: bigint, qN: bigint, b: bigint) {
+    if (b === 0n) throw new Error('b0')
+    if (qY === qN) return 5n * 10n ** 17n
+    const yGreater = qY > qN
+    const absDelta = sol.div(yGreater ? qY - qN : qN - qY, b)
+    const scaled = sol.mul(absDelta, LOG2_E)
+    if (scaled > 192n * SCALE) return yGreater ? SCALE : 0n
+    const e = sol.exp2(scaled)
+    return yGreater ? sol.div(e, checked(SCALE + e)) : sol.div(SCALE, checked(SCALE + e))
+  },
+  findSharesOut(qS: bigint, qO: bigint, netE18: bigint, b: bigint) {
+    const base = sol.C(qS, qO, b)
+    let lo = 0n
+    let hi = b
+    while (checked(sol.C(checked(qS + hi), qO, b) - base) < netE18) {
+      hi = BigInt.asUintN(256, hi << 1n)
+      if (hi > checked(b * 1_000_000n)) {
+        hi = b * 1_000_000n
+        break
+      }
+    }
+    for (let i = 0; i < 40; i++) {
+      const mid = checked(lo + hi) / 2n
+      if (checked(sol.C(checked(qS + mid), qO, b) - base) <= netE18) {
+        lo = mid
+      } else {
+        hi = mid
+      }
+    }
+    return checked(lo + hi) / 2n
+  },
+  maxUsdcBeforeJump(m: JumpCapMarket, isYes: boolean) {
+    const perTrade = m.maxUsdcPerTrade > 0n ? m.maxUsdcPerTrade : 100_000n * 10n ** 6n
+    if (m.usdcVault >= m.priceBandThreshold) return perTrade
+    const cap = m.maxJumpE18 > 0n ? m.maxJumpE18 : m.maxInstantJumpE18
+    const p0 = sol.spotYesFromQ(m.qYes, m.qNo, m.bE18)
+    let lo = 0n
+    let hi = perTrade
+    for (let i = 0; i < 40; i++) {
+      const mid = checked(lo + hi) / 2n
+      const net = checked(
+        checked(checked(mid - (mid * BigInt(m.feeTreasuryBps)) / 10_000n) - (mid * BigInt(m.feeVaultBps)) / 10_000n)
+          - (mid * BigInt(m.feeLpBps)) / 10_000n,
+      )
+      if (net === 0n) { hi = mid; continue }
+      const tokensOut = sol.findSharesOut(
+        isYes ? m.qYes : m.qNo,
+        isYes ? m.qNo : m.qYes,
+        checked(net * 10n ** 12n),
+        m.bE18,
+      )
+      if (tokensOut === 0n) { hi = mid; continue }
+      const newP = sol.spotYesFromQ(
+        isYes ? checked(m.qYes + tokensOut) : m.qYes,
+        isYes ? m.qNo : checked(m.qNo + tokensOut),
+        m.bE18,
+      )
+      const diff = p0 > newP ? p0 - newP : newP - p0
+      if (diff <= cap) { lo = mid } else { hi = mid }
+    }
+    return lo
+  },
+}
+
+const E18 = 10n ** 18n
+
+const QUANTITIES = [
+  0n,
+  1n,
+  99n, // below DUST_THRESHOLD
+  10n ** 6n,
+  E18,
+  123_456_789n * 10n ** 15n,
+  10n ** 24n,
+  10n ** 27n,
+  10n ** 33n,
+]
+
+const LIQUIDITY = [1n, 10n ** 9n, E18, 1_000n * E18, 10n ** 24n, 10n ** 30n, 10n ** 36n]
+
+describe('LMSR engine parity with SpeculateCore', () => {
+  it('matches _C across extreme q/b values', () => {
+    for (const b of LIQUIDITY) {
+      for (const qYes of QUANTITIES) {
+        for (const qNo of QUANTITIES) {
+          expect([qYes, qNo, b, costFunction(qYes, qNo, b)]).toEqual([qYes, qNo, b, sol.C(qYes, qNo, b)])
+        }
+      }
+    }
+  })
+
+  it('matches _spotYesFromQ across extreme q/b values', () => {
+    for (const b of LIQUIDITY) {
+      for (const qYes of QUANTITIES) {
+        for (const qNo of QUANTITIES) {
+          expect([qYes, qNo, b, spotPriceYesE18(qYes, qNo, b)]).toEqual([qYes, qNo, b, sol.spotYesFromQ(qYes, qNo, b)])
+        }
+      }
+    }
+  })
+
+  it('matches around the 192-bit exp2 cutoff', () => {
+    const b = 1_000n * E18
+    // |dq| / b * log2(e) crosses 192 at |dq| ≈ 133.08 * b
+    for (let step = -20n; step <= 20n; step++) {
+      const dq = 133_084_258_667_509_499_440n * 1_000n + step * 10n ** 15n
+      expect(costFunction(dq, 0n, b)).toBe(sol.C(dq, 0n, b))
+      expect(costFunction(0n, dq, b)).toBe(sol.C(0n, dq, b))
+      expect(spotPriceYesE18(dq, 0n, b)).toBe(sol.spotYesFromQ(dq, 0n, b))
+      expect(spotPriceYesE18(0n, dq, b)).toBe(sol.spotYesFromQ(0n, dq, b))
+    }
+  })
+
+  it('reproduces the wrapped price where e * 1e18 overflows uint256', () => {
+    const b = E18
+    for (const ratio of [90n, 95n, 100n, 120n, 133n]) {
+      const qYes = ratio * b
+      expect(spotPriceYesE18(qYes, 0n, b)).toBe(sol.spotYesFromQ(qYes, 0n, b))
+    }
+  })
+
+  it('matches findSharesOut for small and large buys', () => {
+    const USDC_TO_E18 = 10n ** 12n
+    // Buys under ~$1 on a deep, flat book revert on-chain: the approximated C dips
+    // below its base value for q deltas far smaller than b, so vectors start at $1.
+    for (const b of [E18, 1_000n * E18, 10n ** 24n]) {
+      for (const [qS, qO] of [[0n, 0n], [500n * E18, 100n * E18], [100n * E18, 5_000n * E18]]) {
+        for (const usdc of [1_000_000n, 2_500_000_000n, 100_000_000_000n]) {
+          const netE18 = usdc * USDC_TO_E18
+          expect(findSharesOut(qS, qO, netE18, b)).toBe(sol.findSharesOut(qS, qO, netE18, b))
+        }
+      }
+    }
+  })
+
+  it('matches along a dense sweep of imbalances', () => {
+    const b = 10_000n * E18
+    for (let i = 0n; i < 200n; i++) {
+      const qYes = 5_000n * E18 + i * 7_919n * 10n ** 18n
+      const qNo = 5_000n * E18 + ((i * 104_729n) % 1_000_000n) * 10n ** 16n
+      expect(costFunction(qYes, qNo, b)).toBe(sol.C(qYes, qNo, b))
+      expect(spotPriceYesE18(qYes, qNo, b)).toBe(sol.spotYesFromQ(qYes, qNo, b))
+    }
+  })
+})
+
+describe('maxUsdcBeforeJump parity with SpeculateCore', () => {
+  const market = (overrides: Partial<JumpCapMarket>): JumpCapMarket => ({
+    qYes: 0n,
+    qNo: 0n,
+    bE18: 1_000n * E18,
+    usdcVault: 1_000n * 10n ** 6n,
+    feeTreasuryBps: 100,
+    feeVaultBps: 0,
+    feeLpBps: 100,
+    maxUsdcPerTrade: 0n,
+    priceBandThreshold: 10_000n * 10n ** 6n,
+    maxJumpE18: 0n,
+    maxInstantJumpE18: 15n * 10n ** 16n,
+    ...overrides,
+  })
+
+  it('returns the per-trade cap once the vault is past the price band', () => {
+    expect(maxUsdcBeforeJump(market({ usdcVault: 10_000n * 10n ** 6n }), true)).toBe(100_000n * 10n ** 6n)
+    expect(maxUsdcBeforeJump(market({ usdcVault: 20_000n * 10n ** 6n, maxUsdcPerTrade: 5_000n * 10n ** 6n }), false))
+      .toBe(5_000n * 10n ** 6n)
+  })
+
+  it('matches the on-chain bisection inside the price band', () => {
+    const states: Partial<JumpCapMarket>[] = [
+      {},
+      { qYes: 400n * E18, qNo: 100n * E18 },
+      { qYes: 50n * E18, qNo: 2_000n * E18, feeVaultBps: 50 },
+      { bE18: 10_000n * E18, qYes: 9_000n * E18, maxJumpE18: 5n * 10n ** 16n },
+      { bE18: 100n * E18, qNo: 80n * E18, maxUsdcPerTrade: 250n * 10n ** 6n },
+      { priceBandThreshold: 0n, usdcVault: 0n, feeTreasuryBps: 0, feeLpBps: 0 },
+    ]
+    for (const overrides of states) {
+      const m = market(overrides)
+      for (const isYes of [true, false]) {
+        expect([overrides, isYes, maxUsdcBeforeJump(m, isYes)]).toEqual([overrides, isYes, sol.maxUsdcBeforeJump(m, isYes)])
+      }
+    }
+  })
+
+  it('keeps a buy of the returned size within the jump cap', () => {
+    const m = market({ qYes: 300n * E18 })
+    const capUsdc = maxUsdcBeforeJump(m, true)
+    const p0 = sol.spotYesFromQ(m.qYes, m.qNo, m.bE18)
+    // _buy prices the USDC left after the fee legs, not the gross amount
+    const chunk = simulateBuyChunk((capUsdc * 9_800n) / 10_000n, m.qYes, m.qNo, m.bE18, m.feeTreasuryBps, m.feeVaultBps, m.feeLpBps, true)
+    expect(capUsdc).toBeGreaterThan(0n)
+    expect(chunk).not.toBeNull()
+    expect(sol.spotYesFromQ(chunk!.newQYes, chunk!.newQNo, m.bE18) - p0).toBeLessThanOrEqual(m.maxInstantJumpE18)
+  })
+})
+
+// Regenerate with contracts/script/RecordJumpCapFixture.s.sol
+describe('jump cap against recorded SpeculateCore results', () => {
+  const cases = contractFixture.cases.map(c => ({
+    ...c,
+    market: {
+      ...c.market,
+      qYes: BigInt(c.market.qYes),
+      qNo: BigInt(c.market.qNo),
+      bE18: BigInt(c.market.bE18),
+      usdcVault: BigInt(c.market.usdcVault),
+      maxUsdcPerTrade: BigInt(c.market.maxUsdcPerTrade),
+      priceBandThreshold: BigInt(c.market.priceBandThreshold),
+      maxJumpE18: BigInt(c.market.maxJumpE18),
+      maxInstantJumpE18: BigInt(contractFixture.maxInstantJumpE18),
+    } satisfies JumpCapMarket,
+  }))
+
+  it('matches the contract\'s maxUsdcBeforeJump', () => {
+    for (const { market: m, isYes, maxUsdcBeforeJump: expected } of cases) {
+      expect([m, isYes, maxUsdcBeforeJump(m, isYes)]).toEqual([m, isYes, BigInt(expected)])
+    }
+  })
+
+  it('fills a 98% chunk with the same tokens and prices as buyYes/buyNo', () => {
+    for (const { market: m, isYes, chunkUsdc, tokensOut, priceBeforeE18, priceAfterE18 } of cases) {
+      const chunk = simulateBuyChunk(BigInt(chunkUsdc), m.qYes, m.qNo, m.bE18, m.feeTreasuryBps, m.feeVaultBps, m.feeLpBps, isYes)
+      expect(chunk?.tokensOut).toBe(BigInt(tokensOut))
+      expect(spotPriceYesE18(m.qYes, m.qNo, m.bE18)).toBe(BigInt(priceBeforeE18))
+      expect(spotPriceYesE18(chunk!.newQYes, chunk!.newQNo, m.bE18)).toBe(BigInt(priceAfterE18))
+    }
+  })
+})
@@ -0,0 +1,89 @@
+import {
+  SLIPPAGE_BPS,
+  USDC_TO_E18,
+  costFunction,
+  simulateBuyChunk,
+  simulateSellChunk,
+} from '@/lib/lmsrMath'
+
+const E18 = 10n ** 18n
+const B = 1_000n * E18 // liquidity parameter of 1000 shares
+
+describe('simulateSellChunk', () => {
+  it('returns null for empty or oversized sells', () => {
+    expect(simulateSellChunk(0n, 100n * E18, 0n, B, 0, 0, 0, true)).toBeNull()
+    expect(simulateSellChunk(10n * E18, 100n * E18, 0n, 0n, 0, 0, 0, true)).toBeNull()
+    expect(simulateSellChunk(101n * E18, 100n * E18, 0n, B, 0, 0, 0, true)).toBeNull()
+  })
+
+  it('pays out the cost difference truncated to USDC decimals', () => {
+    const qYes = 500n * E18
+    const qNo = 200n * E18
+    const tokensIn = 50n * E18
+
+    const result = simulateSellChunk(tokensIn, qYes, qNo, B, 0, 0, 0, true)
+    const refundE18 = costFunction(qYes, qNo, B) - costFunction(qYes - tokensIn, qNo, B)
+
+    expect(result).not.toBeNull()
+    expect(result!.usdcOut).toBe(refundE18 / USDC_TO_E18)
+    expect(result!.grossUsdcOut).toBe(result!.usdcOut)
+    expect(result!.feeTotal).toBe(0n)
+    expect(result!.newQYes).toBe(qYes - tokensIn)
+    expect(result!.newQNo).toBe(qNo)
+  })
+
+  it('pays less than $1 per share and more for the favoured side', () => {
+    const qYes = 500n * E18
+    const qNo = 200n * E18
+    const tokensIn = 10n * E18
+
+    const yes = simulateSellChunk(tokensIn, qYes, qNo, B, 0, 0, 0, true)!
+    const no = simulateSellChunk(tokensIn, qYes, qNo, B, 0, 0, 0, false)!
+
+    expect(yes.usdcOut).toBeLessThan(10_000_000n)
+    expect(yes.usdcOut).toBeGreaterThan(no.usdcOut)
+    expect(no.newQNo).toBe(qNo - tokensIn)
+  })
+
+  it('is symmetric between sides for mirrored inventories', () => {
+    const yes = simulateSellChunk(25n * E18, 300n * E18, 100n * E18, B, 0, 0, 0, true)!
+    const no = simulateSellChunk(25n * E18, 100n * E18, 300n * E18, B, 0, 0, 0, false)!
+
+    expect(yes.usdcOut).toBe(no.usdcOut)
+  })
+
+  it('rounds each fee leg down separately', () => {
+    const qYes = 400n * E18
+    const qNo = 400n * E18
+    const noFee = simulateSellChunk(30n * E18, qYes, qNo, B, 0, 0, 0, true)!
+    const withFee = simulateSellChunk(30n * E18, qYes, qNo, B, 100, 33, 50, true)!
+
+    const gross = noFee.usdcOut
+    const expectedFee = (gross * 100n) / 10_000n + (gross * 33n) / 10_000n + (gross * 50n) / 10_000n
+
+    expect(withFee.grossUsdcOut).toBe(gross)
+    expect(withFee.feeTotal).toBe(expectedFee)
+    expect(withFee.usdcOut).toBe(gross - expectedFee)
+  })
+
+  it('applies the slippage buffer to the net payout', () => {
+    const result = simulateSellChunk(40n * E18, 200n * E18, 100n * E18, B, 0, 0, 0, true)!
+    const guard = (result.usdcOut * SLIPPAGE_BPS) / 10_000n
+
+    expect(result.minOut).toBe(result.usdcOut - guard)
+  })
+
+  it('never returns more than a fee-free buy paid for the same shares', () => {
+    const qYes = 150n * E18
+    const qNo = 150n * E18
+    const usdcIn = 250_000_000n // $250
+
+    const buy = simulateBuyChunk(usdcIn, qYes, qNo, B, 0, 0, 0, true)!
+    const sell = simulateSellChunk(buy.tokensOut, buy.newQYes, buy.newQNo, B, 0, 0, 0, true)!
+
+    expect(sell.usdcOut).toBeLessThanOrEqual(usdcIn)
+    expect(usdcIn - sell.usdcOut).toBeLessThan(10n) // only rounding dust
+    expect(sell.newQYes).toBe(qYes)
+    expect(sell.newQNo).toBe(qNo)
+  })
+})
@@ -0,0 +1,61 @@
+import {
+  MAX_USDC_PER_TRADE_E6,
+  SAFETY_MARGIN_BPS,
+  nextChunkUsdc,
+  simulateBuyChunk,
+  spotPriceYesE18,
+  usdcToReachPrice,
+} from '@/lib/lmsrMath'
+
+const E18 = 10n ** 18n
+const B = 1_000n * E18
+const CENT = 10n ** 16n
+
+describe('usdcToReachPrice', () => {
+  it('returns null when the side is already at or past the target', () => {
+    expect(usdcToReachPrice(50n * CENT, 0n, 0n, B, 100, 0, 100, true)).toBeNull()
+    expect(usdcToReachPrice(40n * CENT, 0n, 0n, B, 100, 0, 100, false)).toBeNull()
+    expect(usdcToReachPrice(E18, 0n, 0n, B, 100, 0, 100, true)).toBeNull()
+  })
+
+  it('lifts YES to the target and no further than one share step', () => {
+    const quote = usdcToReachPrice(62n * CENT, 0n, 0n, B, 100, 0, 100, true)!
+    expect(quote.startPriceE18).toBe(E18 / 2n)
+
+    const after = simulateBuyChunk(quote.usdcIn, 0n, 0n, B, 100, 0, 100, true)!
+    expect(spotPriceYesE18(after.newQYes, after.newQNo, B)).toBeGreaterThanOrEqual(62n * CENT)
+    expect(spotPriceYesE18(quote.sharesOut - 1n, 0n, B)).toBeLessThan(62n * CENT)
+  })
+
+  it('prices the NO side against 1 - spot YES', () => {
+    const qYes = 300n * E18
+    const quote = usdcToReachPrice(60n * CENT, qYes, 0n, B, 100, 0, 100, false)!
+
+    const after = simulateBuyChunk(quote.usdcIn, qYes, 0n, B, 100, 0, 100, false)!
+    const noPrice = E18 - spotPriceYesE18(after.newQYes, after.newQNo, B)
+    expect(noPrice).toBeGreaterThanOrEqual(60n * CENT)
+    expect(after.newQYes).toBe(qYes)
+  })
+})
+
+describe('nextChunkUsdc', () => {
+  it('sends the whole remainder when it fits under both caps', () => {
+    expect(nextChunkUsdc(50_000_000n, 1_000_000_000n, 0n)).toBe(50_000_000n)
+    expect(nextChunkUsdc(0n, 1_000_000_000n, 0n)).toBe(0n)
+  })
+
+  it('keeps a safety margin under maxUsdcBeforeJump', () => {
+    const cap = 1_000_000_000n
+    expect(nextChunkUsdc(5_000_000_000n, cap, 0n)).toBe((cap * SAFETY_MARGIN_BPS) / 10_000n)
+  })
+
+  it('respects the per-trade cap and its global fallback', () => {
+    expect(nextChunkUsdc(5_000_000_000n, null, 2_000_000_000n)).toBe(2_000_000_000n)
+    expect(nextChunkUsdc(MAX_USDC_PER_TRADE_E6 * 2n, null, 0n)).toBe(MAX_USDC_PER_TRADE_E6)
+    expect(nextChunkUsdc(5_000_000_000n, 4_000_000_000n, 1_000_000_000n)).toBe(1_000_000_000n)
+  })
+
+  it('sends nothing when there is no room under the jump cap', () => {
+    expect(nextChunkUsdc(5_000_000_000n, 0n, 2_000_000_000n)).toBe(0n)
+  })
+})
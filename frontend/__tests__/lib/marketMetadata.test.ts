@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  matchesCategory,
+  METADATA_SIGNATURE_TTL_MS,
+  parseMarketMetadataFields,
+  parseNewMarketMetadata,
+  parseTags,
+  type MarketMetadata,
+} from '@/lib/marketMetadata'
+import {
+  createFileMarketMetadataStore,
+  createMemoryMarketMetadataStore,
+  DuplicateMetadataError,
+} from '@/lib/marketMetadataStore'
+
+const CREATOR = '0x00000000000000000000000000000000000000aa' as const
+
+const metadata = (marketId: string, overrides: Partial<MarketMetadata> = {}): MarketMetadata => ({
+  marketId,
+  creator: CREATOR,
+  description: 'Resolves on the close',
+  category: 'Sports',
+  tags: ['nba'],
+  createdAt: 1000,
+  signature: '0x1234',
+  ...overrides,
+})
+
+describe('market metadata fields', () => {
+  it('normalizes tags, descriptions and urls', () => {
+    expect(parseTags(' Lakers, NBA Finals ,lakers,,')).toEqual(['lakers', 'nba-finals'])
+
+    expect(
+      parseMarketMetadataFields({
+        description: '  line one\r\nline two ',
+        category: 'Sports',
+        tags: ['NBA', 'nba'],
+        resolutionSource: ' https://nba.com ',
+        imageUrl: '',
+      }),
+    ).toEqual({
+      description: 'line one\nline two',
+      category: 'Sports',
+      tags: ['nba'],
+      resolutionSource: 'https://nba.com/',
+      imageUrl: undefined,
+    })
+  })
+
+  it('rejects unknown categories, too many tags and non-http urls', () => {
+    expect(() => parseMarketMetadataFields({ category: 'Weather' })).toThrow('category must be one of')
+    expect(() => parseMarketMetadataFields({ category: 'Tech', tags: ['a', 'b', 'c', 'd', 'e', 'f'] })).toThrow('At most 5 tags')
+    expect(() => parseMarketMetadataFields({ category: 'Tech', imageUrl: 'javascript:alert(1)' })).toThrow('http(s)')
+    expect(() => parseMarketMetadataFields({ category: 'Tech', description: 'x'.repeat(2001) })).toThrow('2000 characters')
+  })
+
+  it('rejects expired signatures', () => {
+    const request = { creator: CREATOR, signature: '0x1234', category: 'Tech', issuedAt: 1000 }
+    expect(parseNewMarketMetadata(request, 1000).creator).toBe(CREATOR)
+    expect(() => parseNewMarketMetadata(request, 1000 + METADATA_SIGNATURE_TTL_MS + 1)).toThrow('expired')
+  })
+})
+
+describe('matchesCategory', () => {
+  it('matches on category or tags when metadata exists', () => {
+    const sports = metadata('1', { tags: ['bitcoin'] })
+    expect(matchesCategory('Sports', 'Will BTC hit 100k?', sports)).toBe(true)
+    expect(matchesCategory('Bitcoin', 'Lakers win?', sports)).toBe(true)
+    expect(matchesCategory('Crypto', 'Will BTC hit 100k?', sports)).toBe(false)
+  })
+
+  it('falls back to the question for markets without metadata', () => {
+    expect(matchesCategory('All', 'Anything', null)).toBe(true)
+    expect(matchesCategory('Crypto', 'Will DOGE flip BNB?')).toBe(true)
+    expect(matchesCategory('Politics', 'Will BTC hit 100k?')).toBe(false)
+  })
+})
+
+describe('market metadata store', () => {
+  it('writes metadata once per market', async () => {
+    const store = createMemoryMarketMetadataStore()
+    await store.insert(metadata('1'))
+    await expect(store.insert(metadata('1', { description: 'changed' }))).rejects.toBeInstanceOf(DuplicateMetadataError)
+
+    expect((await store.get('1'))?.description).toBe('Resolves on the close')
+    expect(await store.get('2')).toBeNull()
+  })
+
+  it('persists to and reloads from a JSON file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'market-metadata-'))
+    const filePath = path.join(dir, 'metadata.json')
+    try {
+      const store = createFileMarketMetadataStore(filePath)
+      await store.insert(metadata('1'))
+      await store.insert(metadata('2', { category: 'Tech' }))
+
+      const reloaded = createFileMarketMetadataStore(filePath)
+      expect(Object.keys(await reloaded.getMany()).sort()).toEqual(['1', '2'])
+      expect(Object.keys(await reloaded.getMany(['2', '3']))).toEqual(['2'])
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
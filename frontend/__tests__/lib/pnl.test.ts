@@ -0,0 +1,150 @@
+import {
+  computeMarketPnl,
+  pnlTradeFromRecord,
+  pnlTradeFromSnapshot,
+  type PnlTrade,
+} from '@/lib/pnl'
+
+const E18 = 10n ** 18n
+const USDC = 10n ** 6n
+const HALF = E18 / 2n
+
+const buy = (timestamp: number, side: 'yes' | 'no', tokens: bigint, usdc: bigint, fees = 0n): PnlTrade => ({
+  timestamp,
+  action: 'buy',
+  side,
+  tokens: tokens * E18,
+  usdc: usdc * USDC,
+  fees: fees * USDC,
+})
+
+const sell = (timestamp: number, side: 'yes' | 'no', tokens: bigint, usdc: bigint): PnlTrade => ({
+  timestamp,
+  action: 'sell',
+  side,
+  tokens: tokens * E18,
+  usdc: usdc * USDC,
+  fees: 0n,
+})
+
+describe('computeMarketPnl', () => {
+  const trades = [buy(1, 'yes', 100n, 40n), buy(2, 'yes', 100n, 60n), sell(3, 'yes', 100n, 70n)]
+
+  it('releases pooled cost pro rata under average cost', () => {
+    const pnl = computeMarketPnl({ trades, method: 'average', markPriceYesE18: HALF })
+
+    expect(pnl.yes.realizedPnlUsdc).toBe(20n * USDC) // 70 - 100 * 0.50
+    expect(pnl.yes.costBasisUsdc).toBe(50n * USDC)
+    expect(pnl.yes.avgPriceE6).toBe(500_000n)
+    expect(pnl.yes.unrealizedPnlUsdc).toBe(0n)
+  })
+
+  it('closes the oldest lot first under FIFO', () => {
+    const pnl = computeMarketPnl({ trades, method: 'fifo', markPriceYesE18: HALF })
+
+    expect(pnl.yes.realizedPnlUsdc).toBe(30n * USDC) // 70 - 40
+    expect(pnl.yes.costBasisUsdc).toBe(60n * USDC)
+    expect(pnl.yes.unrealizedPnlUsdc).toBe(-10n * USDC)
+  })
+
+  it('replays trades in one block by log index, not input order', () => {
+    const pnl = computeMarketPnl({
+      trades: [
+        { ...sell(5, 'yes', 100n, 70n), blockNumber: 10, logIndex: 3 },
+        { ...buy(5, 'yes', 100n, 40n), blockNumber: 10, logIndex: 1 },
+      ],
+      method: 'fifo',
+      markPriceYesE18: HALF,
+    })
+
+    expect(pnl.yes.realizedPnlUsdc).toBe(30n * USDC)
+    expect(pnl.yes.tokens).toBe(0n)
+  })
+
+  it('splits a partially closed FIFO lot', () => {
+    const pnl = computeMarketPnl({
+      trades: [buy(1, 'no', 100n, 40n), buy(2, 'no', 100n, 60n), sell(3, 'no', 150n, 90n)],
+      method: 'fifo',
+      markPriceYesE18: HALF,
+    })
+
+    expect(pnl.no.realizedPnlUsdc).toBe(20n * USDC) // 90 - (40 + 30)
+    expect(pnl.no.tokens).toBe(50n * E18)
+    expect(pnl.no.costBasisUsdc).toBe(30n * USDC)
+  })
+
+  it('keeps fees in the cost basis and reports them', () => {
+    const pnl = computeMarketPnl({
+      trades: [buy(1, 'yes', 98n, 100n, 2n)],
+      method: 'average',
+      markPriceYesE18: HALF,
+    })
+
+    expect(pnl.feesPaidUsdc).toBe(2n * USDC)
+    expect(pnl.yes.costBasisUsdc).toBe(100n * USDC)
+    expect(pnl.unrealizedPnlUsdc).toBe(-51n * USDC)
+  })
+
+  it('settles the losing side at zero and redeems the winner at $1', () => {
+    const pnl = computeMarketPnl({
+      trades: [buy(1, 'yes', 100n, 45n), buy(2, 'no', 50n, 30n)],
+      redemptions: [{ timestamp: 10, usdcOut: 100n * USDC }],
+      method: 'fifo',
+      markPriceYesE18: HALF,
+      resolution: { yesWins: true },
+    })
+
+    expect(pnl.yes.realizedPnlUsdc).toBe(55n * USDC)
+    expect(pnl.yes.tokens).toBe(0n)
+    expect(pnl.no.realizedPnlUsdc).toBe(-30n * USDC)
+    expect(pnl.no.tokens).toBe(0n)
+    expect(pnl.realizedPnlUsdc).toBe(25n * USDC)
+    expect(pnl.unrealizedPnlUsdc).toBe(0n)
+  })
+
+  it('marks an unredeemed winning position at $1', () => {
+    const pnl = computeMarketPnl({
+      trades: [buy(1, 'no', 100n, 45n)],
+      method: 'average',
+      markPriceYesE18: HALF,
+      resolution: { yesWins: false },
+    })
+
+    expect(pnl.no.markValueUsdc).toBe(100n * USDC)
+    expect(pnl.no.unrealizedPnlUsdc).toBe(55n * USDC)
+  })
+})
+
+describe('trade adapters', () => {
+  it('reads TradeRecord deltas as positive amounts', () => {
+    expect(pnlTradeFromRecord({
+      txHash: '0x1',
+      timestamp: 5,
+      user: '0xabc',
+      action: 'sell',
+      side: 'no',
+      tokenDelta: (-3n * E18).toString(),
+      usdcDelta: (2n * USDC).toString(),
+      price: '0.4',
+    })).toEqual({ timestamp: 5, action: 'sell', side: 'no', tokens: 3n * E18, usdc: 2n * USDC, fees: 0n })
+  })
+
+  it('sums SnapshotTrade fee legs and skips incomplete rows', () => {
+    const trade = {
+      txHash: '0x1',
+      timestamp: '7',
+      user: { id: '0xabc' },
+      action: 'buy',
+      side: 'yes',
+      tokenDelta: (10n * E18).toString(),
+      usdcDelta: (-5n * USDC).toString(),
+      feeTreasury: '50000',
+      feeVault: '0',
+      feeLp: '50000',
+      priceE6: '500000',
+    }
+
+    expect(pnlTradeFromSnapshot(trade)?.fees).toBe(100_000n)
+    expect(pnlTradeFromSnapshot({ ...trade, side: null })).toBeNull()
+  })
+})
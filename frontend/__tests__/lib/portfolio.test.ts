@@ -0,0 +1,153 @@
+import {
+  buildPortfolioRows,
+  marketPnlFor,
+  portfolioTotals,
+  sortPortfolioRows,
+  type PnlHistory,
+  type PortfolioMarket,
+} from '@/lib/portfolio'
+import { computeMarketPnl } from '@/lib/pnl'
+
+const E18 = 10n ** 18n
+const USDC = 10n ** 6n
+
+const market = (id: string, overrides: Partial<PortfolioMarket> = {}): PortfolioMarket => ({
+  id,
+  question: `Market ${id}?`,
+  qYes: '0',
+  qNo: '0',
+  bE18: (1_000n * E18).toString(),
+  isResolved: false,
+  yesWins: null,
+  ...overrides,
+})
+
+const balance = (m: PortfolioMarket, side: string, tokens: bigint, cost: bigint, realized = 0n) => ({
+  side,
+  tokenBalance: tokens.toString(),
+  costBasisUsdc: cost.toString(),
+  realizedPnlUsdc: realized.toString(),
+  market: m,
+})
+
+describe('buildPortfolioRows', () => {
+  it('marks open positions at spot and nets both sides into one row', () => {
+    const m = market('1')
+    const [row] = buildPortfolioRows(
+      [balance(m, 'yes', 100n * E18, 40n * USDC), balance(m, 'no', 10n * E18, 6n * USDC, 2n * USDC)],
+      [],
+    )
+
+    // flat book: both sides at $0.50
+    expect(row.valueUsdc).toBe(55n * USDC)
+    expect(row.costBasisUsdc).toBe(46n * USDC)
+    expect(row.unrealizedPnlUsdc).toBe(9n * USDC)
+    expect(row.realizedPnlUsdc).toBe(2n * USDC)
+    expect(row.isOpen).toBe(true)
+  })
+
+  it('marks resolved markets at their payout', () => {
+    const m = market('2', { isResolved: true, yesWins: false })
+    const [row] = buildPortfolioRows(
+      [balance(m, 'yes', 50n * E18, 0n, -20n * USDC), balance(m, 'no', 30n * E18, 12n * USDC)],
+      [],
+    )
+
+    expect(row.valueUsdc).toBe(30n * USDC)
+    expect(row.unrealizedPnlUsdc).toBe(18n * USDC)
+  })
+
+  it('adds LP-only markets and keeps closed positions for realized PnL', () => {
+    const rows = buildPortfolioRows(
+      [balance(market('3'), 'yes', 0n, 0n, 5n * USDC)],
+      [{ marketId: 4, market: market('4'), lpShares: 100n * USDC, pendingFees: 3n * USDC, pendingResidual: 0n }],
+    )
+
+    const closed = rows.find(row => row.marketId === 3)!
+    const lp = rows.find(row => row.marketId === 4)!
+    expect(closed.isOpen).toBe(false)
+    expect(lp.isOpen).toBe(true)
+    expect(lp.pendingLpFees).toBe(3n * USDC)
+
+    const totals = portfolioTotals(rows)
+    expect(totals.realizedPnlUsdc).toBe(5n * USDC)
+    expect(totals.lpShares).toBe(100n * USDC)
+  })
+})
+
+describe('buildPortfolioRows with trade-history PnL', () => {
+  it('takes cost basis and realized PnL from the engine', () => {
+    const m = market('5', { isResolved: true, yesWins: true })
+    const pnl = computeMarketPnl({
+      trades: [{ timestamp: 1, action: 'buy', side: 'no', tokens: 20n * E18, usdc: 8n * USDC, fees: 0n }],
+      method: 'fifo',
+      markPriceYesE18: E18 / 2n,
+      resolution: { yesWins: true },
+    })
+
+    // the subgraph writes the losing side off on resolution, matching the engine
+    const [row] = buildPortfolioRows([balance(m, 'no', 20n * E18, 0n, -8n * USDC)], [], new Map([[5, pnl]]))
+    expect(row.valueUsdc).toBe(0n)
+    expect(row.costBasisUsdc).toBe(0n)
+    expect(row.realizedPnlUsdc).toBe(-8n * USDC)
+    expect(row.unrealizedPnlUsdc).toBe(0n)
+  })
+
+  it('keeps the subgraph basis when tokens were transferred in', () => {
+    const m = market('6')
+    const pnl = computeMarketPnl({
+      trades: [{ timestamp: 1, action: 'buy', side: 'yes', tokens: 10n * E18, usdc: 4n * USDC, fees: 0n }],
+      method: 'fifo',
+      markPriceYesE18: E18 / 2n,
+    })
+
+    // 30 more YES arrived by transfer, carrying the sender's basis in the subgraph
+    const [row] = buildPortfolioRows([balance(m, 'yes', 40n * E18, 16n * USDC)], [], new Map([[6, pnl]]))
+    expect(row.costBasisUsdc).toBe(16n * USDC)
+    expect(row.unrealizedPnlUsdc).toBe(4n * USDC)
+  })
+})
+
+describe('marketPnlFor', () => {
+  const bought: PnlHistory = {
+    trades: [{ timestamp: 1, action: 'buy', side: 'yes', tokens: 10n * E18, usdc: 4n * USDC, fees: 0n }],
+    redemptions: [],
+  }
+
+  it('uses the replay when it accounts for every token held', () => {
+    const m = market('7')
+    const pnl = marketPnlFor(m, [balance(m, 'yes', 10n * E18, 5n * USDC)], bought, 'fifo')
+
+    expect(pnl.yes.costBasisUsdc).toBe(4n * USDC)
+    expect(pnl.unrealizedPnlUsdc).toBe(1n * USDC)
+  })
+
+  it('agrees with the portfolio row when tokens were transferred in', () => {
+    const m = market('8')
+    const balances = [balance(m, 'yes', 40n * E18, 16n * USDC)]
+    const pnl = marketPnlFor(m, balances, bought, 'fifo')
+    const [row] = buildPortfolioRows(balances, [], new Map([[8, pnl]]))
+
+    expect(pnl.yes.tokens).toBe(40n * E18)
+    expect(pnl.costBasisUsdc).toBe(row.costBasisUsdc)
+    expect(pnl.unrealizedPnlUsdc).toBe(row.unrealizedPnlUsdc)
+    expect(pnl.realizedPnlUsdc).toBe(row.realizedPnlUsdc)
+  })
+})
+
+describe('sortPortfolioRows', () => {
+  it('sorts by a numeric column in either direction', () => {
+    const rows = buildPortfolioRows(
+      [
+        balance(market('1'), 'yes', 10n * E18, 5n * USDC),
+        balance(market('2'), 'yes', 30n * E18, 5n * USDC),
+        balance(market('3'), 'yes', 20n * E18, 5n * USDC),
+      ],
+      [],
+    )
+
+    expect(sortPortfolioRows(rows, 'valueUsdc', 'desc').map(row => row.marketId)).toEqual([2, 3, 1])
+    expect(sortPortfolioRows(rows, 'unrealizedPnlUsdc', 'asc').map(row => row.marketId)).toEqual([1, 3, 2])
+    expect(sortPortfolioRows(rows, 'market', 'desc').map(row => row.marketId)).toEqual([3, 2, 1])
+  })
+})
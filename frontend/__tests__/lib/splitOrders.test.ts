@@ -0,0 +1,60 @@
+import { SAFETY_MARGIN_BPS } from '@/lib/lmsrMath'
+import {
+  blendedAvgPriceE6,
+  createSplitOrder,
+  planSplitChunks,
+  splitOrderKey,
+} from '@/lib/splitOrders'
+
+const ACCOUNT = '0x00000000000000000000000000000000000000aa' as const
+
+describe('planSplitChunks', () => {
+  it('fills the total with jump-safe chunks and a remainder', () => {
+    const cap = 1_000_000_000n // $1,000 before the jump cap bites
+    const safe = (cap * SAFETY_MARGIN_BPS) / 10_000n
+
+    const plan = planSplitChunks(2_500_000_000n, cap, 0n)
+
+    expect(plan.slice(0, -1).every(chunk => chunk === safe)).toBe(true)
+    expect(plan[plan.length - 1]).toBeLessThanOrEqual(safe)
+    expect(plan.reduce((sum, chunk) => sum + chunk, 0n)).toBe(2_500_000_000n)
+  })
+
+  it('uses the per-trade cap when it is tighter than the jump cap', () => {
+    expect(planSplitChunks(1_000_000_000n, null, 400_000_000n)).toEqual([
+      400_000_000n,
+      400_000_000n,
+      200_000_000n,
+    ])
+  })
+
+  it('returns an empty plan for nothing to buy or no room under the jump cap', () => {
+    expect(planSplitChunks(0n, 1_000_000_000n, 0n)).toEqual([])
+    expect(planSplitChunks(1_000_000_000n, 0n, 0n)).toEqual([])
+  })
+})
+
+describe('split order bookkeeping', () => {
+  it('starts with every planned chunk pending', () => {
+    const order = createSplitOrder(3, ACCOUNT, 'yes', 900_000_000n, [500_000_000n, 400_000_000n])
+
+    expect(order.status).toBe('running')
+    expect(order.chunks.map(chunk => chunk.status)).toEqual(['pending', 'pending'])
+    expect(order.chunks.map(chunk => chunk.index)).toEqual([0, 1])
+  })
+
+  it('blends the average price across confirmed chunks', () => {
+    const order = {
+      ...createSplitOrder(3, ACCOUNT, 'no', 900_000_000n, []),
+      filledUsdc: 300_000_000n, // $300
+      filledTokens: 600n * 10n ** 18n, // 600 shares
+    }
+
+    expect(blendedAvgPriceE6(order)).toBe(500_000n) // $0.50
+    expect(blendedAvgPriceE6({ ...order, filledTokens: 0n })).toBe(0n)
+  })
+
+  it('keys persisted orders by market and lower-cased account', () => {
+    expect(splitOrderKey(7, '0xABCdef')).toBe('7-0xabcdef')
+  })
+})
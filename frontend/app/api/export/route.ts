@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import {
+  buildHistoryRows,
+  fetchUserHistory,
+  historyToCsv,
+  parseRangeBound,
+  type HistoryFormat,
+} from '@/lib/historyExport';
+import type { CostBasisMethod } from '@/lib/pnl';
+
+// Trade, redemption and LP history for one wallet, for tax reporting.
+// GET /api/export?user=0x..&from=2025-01-01&to=2025-12-31&format=csv&method=fifo
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const user = searchParams.get('user') ?? '';
+  const format = (searchParams.get('format') ?? 'csv') as HistoryFormat;
+  const method = (searchParams.get('method') ?? 'average') as CostBasisMethod;
+
+  if (!isAddress(user)) {
+    return NextResponse.json({ error: 'Invalid user address' }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: 'format must be csv or json' }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (method !== 'average' && method !== 'fifo') {
+    return NextResponse.json({ error: 'method must be average or fifo' }, { status: 400, headers: CORS_HEADERS });
+  }
+
+  let from: number | undefined;
+  let to: number | undefined;
+  try {
+    from = parseRangeBound(searchParams.get('from'));
+    to = parseRangeBound(searchParams.get('to'), true);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400, headers: CORS_HEADERS });
+  }
+  if (from !== undefined && to !== undefined && from > to) {
+    return NextResponse.json({ error: 'from must not be after to' }, { status: 400, headers: CORS_HEADERS });
+  }
+
+  try {
+    const history = await fetchUserHistory(user, to);
+    const rows = buildHistoryRows(history, method, { from, to });
+    const filename = `speculate-history-${user.toLowerCase()}.${format}`;
+    const body = format === 'csv' ? historyToCsv(rows) : JSON.stringify({ user: user.toLowerCase(), from, to, method, rows }, null, 2);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        ...CORS_HEADERS,
+      },
+    });
+  } catch (error) {
+    console.error('[Export] Error:', error);
+    return NextResponse.json({ error: 'Failed to load history from subgraph' }, { status: 502, headers: CORS_HEADERS });
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { headers: CORS_HEADERS });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMessage } from 'viem';
+import { isMarketId, parseVoteComment, voteCommentMessage } from '@/lib/comments';
+import { getCommentStore, StaleVoteError } from '@/lib/commentStore';
+import { clientIp, createRateLimiter } from '@/lib/rateLimit';
+
+// Upvote a comment, or take the upvote back.
+// POST /api/markets/7/comments/<commentId>/votes   { voter, up, issuedAt, signature }
+// Signed with personal_sign over voteCommentMessage; one vote per address, and each
+// signature must be newer than the voter's last accepted one on that comment.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const voteLimiterByIp = createRateLimiter({ limit: 60, windowMs: 60_000 });
+const voteLimiterByVoter = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+type RouteContext = { params: Promise<{ id: string; commentId: string }> };
+
+function error(message: string, status: number, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error: message }, { status, headers: { ...CORS_HEADERS, ...headers } });
+}
+
+function rateLimited(retryAfterMs: number) {
+  return error('Too many requests, slow down', 429, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id: marketId, commentId } = await params;
+  if (!isMarketId(marketId)) return error('Invalid market id', 400);
+
+  const byIp = voteLimiterByIp.check(clientIp(request));
+  if (!byIp.allowed) return rateLimited(byIp.retryAfterMs);
+
+  let input;
+  try {
+    input = parseVoteComment(await request.json().catch(() => null));
+  } catch (err) {
+    return error((err as Error).message, 400);
+  }
+
+  const valid = await verifyMessage({
+    address: input.voter,
+    message: voteCommentMessage(marketId, commentId, input.up, input.issuedAt),
+    signature: input.signature,
+  }).catch(() => false);
+  if (!valid) return error('Signature does not match voter', 401);
+
+  const byVoter = voteLimiterByVoter.check(input.voter);
+  if (!byVoter.allowed) return rateLimited(byVoter.retryAfterMs);
+
+  try {
+    const comment = await getCommentStore().vote(marketId, commentId, input.voter, input.up, input.issuedAt);
+    if (!comment) return error('Comment not found', 404);
+    return NextResponse.json({ comment }, { headers: CORS_HEADERS });
+  } catch (err) {
+    if (err instanceof StaleVoteError) return error('A newer vote was already recorded, please sign again', 409);
+    console.error('[Comments] Failed to record vote:', err);
+    return error('Failed to record vote', 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { headers: CORS_HEADERS });
+}
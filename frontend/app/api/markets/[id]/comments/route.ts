@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMessage } from 'viem';
+import {
+  commentId,
+  commentMessage,
+  deleteCommentMessage,
+  fetchCommentPositions,
+  isHolder,
+  isMarketId,
+  pageCommentThreads,
+  parseCommentSort,
+  parseDeleteComment,
+  parseNewComment,
+  parsePageSize,
+  type CommentPosition,
+  type CommentSort,
+  type CommentsPage,
+  type MarketComment,
+} from '@/lib/comments';
+import { DuplicateCommentError, getCommentStore } from '@/lib/commentStore';
+import { clientIp, createRateLimiter } from '@/lib/rateLimit';
+
+// Comments for one market, shared by everyone viewing it.
+// GET    /api/markets/7/comments?sort=top|new|holders&limit=20&cursor=<nextCursor>
+// POST   /api/markets/7/comments   { author, body, parentId?, issuedAt, signature }
+// DELETE /api/markets/7/comments   { commentId, author, issuedAt, signature }
+// POST and DELETE are signed with personal_sign over commentMessage / deleteCommentMessage.
+// Pages carry each author's current YES/NO balance so clients can show who holds what.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const readLimiter = createRateLimiter({ limit: 120, windowMs: 60_000 });
+const writeLimiterByIp = createRateLimiter({ limit: 20, windowMs: 60_000 });
+const writeLimiterByAuthor = createRateLimiter({ limit: 5, windowMs: 60_000 });
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function error(message: string, status: number, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error: message }, { status, headers: { ...CORS_HEADERS, ...headers } });
+}
+
+function rateLimited(retryAfterMs: number) {
+  return error('Too many requests, slow down', 429, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+}
+
+async function readJson(request: NextRequest) {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id: marketId } = await params;
+  if (!isMarketId(marketId)) return error('Invalid market id', 400);
+
+  const limited = readLimiter.check(clientIp(request));
+  if (!limited.allowed) return rateLimited(limited.retryAfterMs);
+
+  const { searchParams } = new URL(request.url);
+  let limit: number;
+  let sort: CommentSort;
+  try {
+    limit = parsePageSize(searchParams.get('limit'));
+    sort = parseCommentSort(searchParams.get('sort'));
+  } catch (err) {
+    return error((err as Error).message, 400);
+  }
+
+  let comments: MarketComment[];
+  try {
+    comments = await getCommentStore().list(marketId);
+  } catch (err) {
+    console.error('[Comments] Failed to list comments:', err);
+    return error('Failed to load comments', 500);
+  }
+
+  let positions: Record<string, CommentPosition> = {};
+  try {
+    positions = await fetchCommentPositions(marketId, comments.map(comment => comment.author));
+  } catch (err) {
+    // Holder badges are optional, the holders-only view is not
+    if (sort === 'holders') {
+      console.error('[Comments] Failed to load author positions:', err);
+      return error('Failed to load positions from subgraph', 502);
+    }
+    console.warn('[Comments] Showing comments without author positions:', err);
+  }
+
+  const holders = new Set(Object.keys(positions).filter(author => isHolder(positions[author])));
+  const threads = pageCommentThreads(comments, {
+    sort,
+    limit,
+    cursor: searchParams.get('cursor') || undefined,
+    holders,
+  });
+  const shownAuthors = new Set<string>([...threads.comments, ...threads.replies].map(comment => comment.author));
+  const page: CommentsPage = {
+    ...threads,
+    positions: Object.fromEntries(Object.entries(positions).filter(([author]) => shownAuthors.has(author))),
+  };
+  return NextResponse.json(page, {
+    headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate', ...CORS_HEADERS },
+  });
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id: marketId } = await params;
+  if (!isMarketId(marketId)) return error('Invalid market id', 400);
+
+  const byIp = writeLimiterByIp.check(clientIp(request));
+  if (!byIp.allowed) return rateLimited(byIp.retryAfterMs);
+
+  let input;
+  try {
+    input = parseNewComment(await readJson(request));
+  } catch (err) {
+    return error((err as Error).message, 400);
+  }
+
+  const valid = await verifyMessage({
+    address: input.author,
+    message: commentMessage({ marketId, ...input }),
+    signature: input.signature,
+  }).catch(() => false);
+  if (!valid) return error('Signature does not match author', 401);
+
+  const byAuthor = writeLimiterByAuthor.check(input.author);
+  if (!byAuthor.allowed) return rateLimited(byAuthor.retryAfterMs);
+
+  try {
+    const store = getCommentStore();
+    let rootId: string | undefined;
+    if (input.parentId) {
+      const parent = await store.get(marketId, input.parentId);
+      if (!parent) return error('The comment you replied to no longer exists', 404);
+      rootId = parent.rootId ?? parent.id;
+    }
+
+    const comment: MarketComment = {
+      id: commentId(input.issuedAt, input.signature),
+      marketId,
+      author: input.author,
+      body: input.body,
+      side: input.side,
+      parentId: input.parentId,
+      rootId,
+      upvoters: [],
+      createdAt: input.issuedAt,
+      signature: input.signature,
+    };
+    await store.insert(comment);
+    return NextResponse.json({ comment }, { status: 201, headers: CORS_HEADERS });
+  } catch (err) {
+    if (err instanceof DuplicateCommentError) return error('Comment already posted', 409);
+    console.error('[Comments] Failed to save comment:', err);
+    return error('Failed to save comment', 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id: marketId } = await params;
+  if (!isMarketId(marketId)) return error('Invalid market id', 400);
+
+  const byIp = writeLimiterByIp.check(clientIp(request));
+  if (!byIp.allowed) return rateLimited(byIp.retryAfterMs);
+
+  let input;
+  try {
+    input = parseDeleteComment(await readJson(request));
+  } catch (err) {
+    return error((err as Error).message, 400);
+  }
+
+  const valid = await verifyMessage({
+    address: input.author,
+    message: deleteCommentMessage(marketId, input.commentId, input.issuedAt),
+    signature: input.signature,
+  }).catch(() => false);
+  if (!valid) return error('Signature does not match author', 401);
+
+  try {
+    const store = getCommentStore();
+    const existing = await store.get(marketId, input.commentId);
+    if (!existing || existing.deleted) return error('Comment not found', 404);
+    if (existing.author !== input.author) return error('Only the author can delete this comment', 403);
+
+    // Keep a tombstone rather than removing it, so the signed post can't be replayed back
+    // in; pageCommentThreads only shows it while others' replies hang off it
+    await store.update({ ...existing, body: '', side: undefined, deleted: true });
+    return NextResponse.json({ deleted: input.commentId }, { headers: CORS_HEADERS });
+  } catch (err) {
+    console.error('[Comments] Failed to delete comment:', err);
+    return error('Failed to delete comment', 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { headers: CORS_HEADERS });
+}
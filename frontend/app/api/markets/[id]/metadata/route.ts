@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, http, verifyMessage } from 'viem';
+import { appChain, rpcUrl } from '@/lib/chain';
+import { addresses } from '@/lib/contracts';
+import { coreAbi, type CoreMarketTuple } from '@/lib/abis';
+import { metadataMessage, parseNewMarketMetadata, type MarketMetadata } from '@/lib/marketMetadata';
+import { DuplicateMetadataError, getMarketMetadataStore } from '@/lib/marketMetadataStore';
+import { clientIp, createRateLimiter } from '@/lib/rateLimit';
+
+// Description, category, tags, resolution source and image for one market.
+// GET  /api/markets/7/metadata
+// POST /api/markets/7/metadata   { creator, description, category, tags, resolutionSource?, imageUrl?, issuedAt, signature }
+// POST is signed with personal_sign over metadataMessage by the wallet that created the market.
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Same chain and RPC as the app, so the creator check reads the network users trade on
+const publicClient = createPublicClient({
+  chain: appChain,
+  transport: http(rpcUrl),
+});
+
+const writeLimiter = createRateLimiter({ limit: 10, windowMs: 60_000 });
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function error(message: string, status: number, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error: message }, { status, headers: { ...CORS_HEADERS, ...headers } });
+}
+
+// The creator seeds the market and is recorded as its LP
+async function readMarketCreator(marketId: string) {
+  const market = (await publicClient.readContract({
+    address: addresses.core,
+    abi: coreAbi,
+    functionName: 'markets',
+    args: [BigInt(marketId)],
+  })) as CoreMarketTuple;
+  const lp = market[11];
+  return lp !== ZERO_ADDRESS ? lp.toLowerCase() : null;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id: marketId } = await params;
+  if (!/^\d+$/.test(marketId)) return error('Invalid market id', 400);
+
+  try {
+    const metadata = await getMarketMetadataStore().get(marketId);
+    if (!metadata) return error('No metadata for this market', 404);
+    return NextResponse.json({ metadata }, { headers: CORS_HEADERS });
+  } catch (err) {
+    console.error('[Market metadata] Failed to load metadata:', err);
+    return error('Failed to load metadata', 500);
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id: marketId } = await params;
+  if (!/^\d+$/.test(marketId)) return error('Invalid market id', 400);
+
+  const limited = writeLimiter.check(clientIp(request));
+  if (!limited.allowed) {
+    return error('Too many requests, slow down', 429, { 'Retry-After': String(Math.ceil(limited.retryAfterMs / 1000)) });
+  }
+
+  let input;
+  try {
+    input = parseNewMarketMetadata(await request.json().catch(() => null));
+  } catch (err) {
+    return error((err as Error).message, 400);
+  }
+
+  const valid = await verifyMessage({
+    address: input.creator,
+    message: metadataMessage(marketId, input, input.issuedAt),
+    signature: input.signature,
+  }).catch(() => false);
+  if (!valid) return error('Signature does not match creator', 401);
+
+  let creator: string | null;
+  try {
+    creator = await readMarketCreator(marketId);
+  } catch (err) {
+    console.error('[Market metadata] Failed to read market creator:', err);
+    return error('Failed to read market from chain', 502);
+  }
+  if (!creator) return error('Market not found', 404);
+  if (creator !== input.creator) return error('Only the market creator can publish its details', 403);
+
+  const metadata: MarketMetadata = {
+    marketId,
+    creator: input.creator,
+    description: input.description,
+    category: input.category,
+    tags: input.tags,
+    resolutionSource: input.resolutionSource,
+    imageUrl: input.imageUrl,
+    createdAt: input.issuedAt,
+    signature: input.signature,
+  };
+
+  try {
+    await getMarketMetadataStore().insert(metadata);
+    return NextResponse.json({ metadata }, { status: 201, headers: CORS_HEADERS });
+  } catch (err) {
+    if (err instanceof DuplicateMetadataError) return error('This market already has details', 409);
+    console.error('[Market metadata] Failed to save metadata:', err);
+    return error('Failed to save metadata', 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { headers: CORS_HEADERS });
+}
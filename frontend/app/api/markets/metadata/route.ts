@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMarketMetadataStore } from '@/lib/marketMetadataStore';
+
+// Metadata for many markets at once, for the markets list.
+// GET /api/markets/metadata?ids=1,2,3   (omit ids for every market that has metadata)
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+const MAX_IDS = 500;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const idsParam = searchParams.get('ids');
+  const ids = idsParam ? idsParam.split(',').map(id => id.trim()).filter(Boolean) : undefined;
+
+  if (ids && (ids.length > MAX_IDS || ids.some(id => !/^\d+$/.test(id)))) {
+    return NextResponse.json(
+      { error: `ids must be up to ${MAX_IDS} comma-separated market ids` },
+      { status: 400, headers: CORS_HEADERS },
+    );
+  }
+
+  try {
+    const metadata = await getMarketMetadataStore().getMany(ids);
+    return NextResponse.json(
+      { metadata },
+      { headers: { 'Cache-Control': 'public, max-age=30', ...CORS_HEADERS } },
+    );
+  } catch (err) {
+    console.error('[Market metadata] Failed to load metadata:', err);
+    return NextResponse.json({ error: 'Failed to load metadata' }, { status: 500, headers: CORS_HEADERS });
+  }
+}
+
+export async function OPTIONS() {
+  return new Response(null, { headers: CORS_HEADERS });
+}
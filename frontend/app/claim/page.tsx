@@ -10,7 +10,11 @@ import { getMarketCount, getMarket, getSpotPriceYesE6, getMarketResolution } fro
 import { addresses } from '@/lib/contracts';
 import { coreAbi, positionTokenAbi } from '@/lib/abis';
 import { formatUnits, decodeEventLog } from 'viem';
-import { fetchSubgraph } from '@/lib/subgraphClient';
+import { useClaimHistory } from '@/lib/hooks/useClaimHistory';
+import { useClaimAll } from '@/lib/hooks/useClaimAll';
+import { useLpClaims, type LpClaim } from '@/lib/hooks/useLpClaims';
+import { redeemableUsdc, type ClaimBatchItem, type ClaimCandidate, type ClaimKind } from '@/lib/claimBatches';
+import { ClaimAllPanel } from '@/components/claim/ClaimAllPanel';
 
 interface ClaimableReward {
   marketId: number;
@@ -24,38 +28,31 @@ interface ClaimableReward {
   yesPrice: number;
   noPrice: number;
   claimedAt?: string;
+  token?: `0x${string}`; // winning position token
+  balanceWei?: bigint;
 }
 
-interface ClaimRecord {
-  marketId: number;
-  user: string;
-  amount: number;
-  claimedAt: string;
-}
-
-const CLAIMED_STORAGE_KEY = 'claimedRewards';
-const getScopedStorageKey = () => `${CLAIMED_STORAGE_KEY}:${addresses.core.toLowerCase()}`;
-
-const parseDate = (value?: string) => {
-  if (!value) return 0;
-  const ts = Date.parse(value);
-  return Number.isNaN(ts) ? 0 : ts;
+const claimKindLabels: Record<ClaimKind, string> = {
+  redeem: 'Winnings',
+  lpFees: 'LP fees',
+  lpResidual: 'LP residual',
 };
 
 export default function ClaimPage() {
   const { address, isConnected } = useAccount();
   const [activeTab, setActiveTab] = useState<'available' | 'history'>('available');
   const [availableToClaim, setAvailableToClaim] = useState(0);
-  const [totalClaimed, setTotalClaimed] = useState(0);
   const [claimableRewards, setClaimableRewards] = useState<ClaimableReward[]>([]);
-  const [claimHistory, setClaimHistory] = useState<ClaimableReward[]>([]);
   const [claimedIds, setClaimedIds] = useState<Set<number>>(new Set());
   const [loading, setLoading] = useState(true);
   const [claimingId, setClaimingId] = useState<number | null>(null);
-const processedRedemptionsRef = useRef<Set<string>>(new Set());
+  const [claimingLpKey, setClaimingLpKey] = useState<string | null>(null);
   const claimableRewardsRef = useRef<ClaimableReward[]>([]);
   const claimableRewardsStateRef = useRef<ClaimableReward[]>([]);
   const addressRef = useRef<string | undefined>(address);
+  const claimHistory = useClaimHistory(address);
+  const { addPendingClaims } = claimHistory;
+  const addPendingClaimsRef = useRef(addPendingClaims);
 
   const { writeContractAsync, isPending } = useWriteContract();
 
@@ -69,90 +66,6 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
     }
 
     try {
-      let storedHistory: ClaimableReward[] = [];
-      const scopedKey = getScopedStorageKey();
-
-      if (typeof window !== 'undefined') {
-        // Backward compatibility: remove unscoped cache when switching contracts
-        try {
-          window.localStorage.removeItem(CLAIMED_STORAGE_KEY);
-        } catch (error) {
-          console.warn('Failed to clear legacy claimed rewards cache', error);
-        }
-
-        try {
-          const stored = window.localStorage.getItem(scopedKey);
-          if (stored) {
-            storedHistory = JSON.parse(stored);
-            setClaimHistory(storedHistory);
-            setClaimedIds(new Set(storedHistory.map((r) => r.marketId)));
-          } else {
-            setClaimHistory([]);
-            setClaimedIds(new Set());
-          }
-        } catch (error) {
-          console.error('Failed to load claimed rewards from storage', error);
-          setClaimHistory([]);
-          setClaimedIds(new Set());
-        }
-      } else {
-        setClaimHistory([]);
-        setClaimedIds(new Set());
-      }
-
-      const claimedMap = new Map<number, ClaimableReward>();
-      storedHistory.forEach((entry) => claimedMap.set(entry.marketId, entry));
-
-      const claimedByMarket = new Map<number, { amount: number; claimedAt: string }>();
-      storedHistory.forEach(entry => {
-        const claimedAt = entry.claimedAt ?? entry.resolvedDate;
-        claimedByMarket.set(entry.marketId, {
-          amount: entry.amount,
-          claimedAt,
-        });
-      });
-
-      try {
-        const data = await fetchSubgraph<{
-          redemptions: Array<{
-            amount: string;
-            timestamp: string;
-            market: { id: string };
-          }>;
-        }>(
-          `
-            query UserRedemptions($user: String!) {
-              redemptions(
-                where: { user: $user }
-                orderBy: timestamp
-                orderDirection: desc
-                first: 200
-              ) {
-                amount
-                timestamp
-                market {
-                  id
-                }
-              }
-            }
-          `,
-          { user: address.toLowerCase() },
-        );
-
-        for (const redemption of data.redemptions ?? []) {
-          const marketId = Number(redemption.market?.id ?? '0');
-          if (!Number.isFinite(marketId) || marketId <= 0) continue;
-          const amountNumber = Number(formatUnits(BigInt(redemption.amount), 6));
-          const claimedAtIso = new Date(Number(redemption.timestamp) * 1000).toISOString();
-          claimedByMarket.set(marketId, {
-            amount: amountNumber,
-            claimedAt: claimedAtIso,
-          });
-        }
-      } catch (error) {
-        console.warn('[ClaimPage] Failed to load claims from subgraph', error);
-      }
-
       const count = await getMarketCount();
       const totalMarkets = Number(count);
       const marketIds = Array.from({ length: totalMarkets }, (_, index) => index + 1);
@@ -160,7 +73,6 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
       type ProcessedMarket = {
         marketId: number;
         claimable: ClaimableReward | null;
-        claimed: ClaimableReward | null;
       };
 
       const processedMarkets = await Promise.all(
@@ -173,7 +85,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
             ]);
 
             if (!market?.exists || !resolution?.isResolved) {
-              return { marketId, claimable: null, claimed: null };
+              return { marketId, claimable: null };
         }
         
             const yesAddress = market.yes as `0x${string}` | undefined;
@@ -247,30 +159,15 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
             yesPrice,
             noPrice,
                     claimedAt: undefined,
+                    token: side === 'YES' ? yesAddress : noAddress,
+                    balanceWei: (side === 'YES' ? yesBalanceRaw : noBalanceRaw) as bigint,
         }
                 : null;
 
-            const claimedInfo = claimedByMarket.get(marketId) ?? null;
-            const claimed = claimedInfo
-              ? {
-                  marketId,
-            question: market.question as string,
-            resolvedDate,
-            amount: claimedInfo.amount,
-                  side: (yesWon ? 'YES' : 'NO') as 'YES' | 'NO',
-            winning: true,
-            yesBalance: '0',
-            noBalance: '0',
-                  yesPrice,
-            noPrice: 1 - yesPrice,
-            claimedAt: claimedInfo.claimedAt,
-                }
-              : null;
-
-            return { marketId, claimable, claimed };
+            return { marketId, claimable };
           } catch (error) {
             console.error('[ClaimPage] Failed to process market', { marketId, error });
-            return { marketId, claimable: null, claimed: null };
+            return { marketId, claimable: null };
           }
         }),
       );
@@ -278,31 +175,16 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
       const rewards: ClaimableReward[] = [];
       let totalAvailable = 0;
 
-      processedMarkets.forEach(({ claimable, claimed, marketId }) => {
+      processedMarkets.forEach(({ claimable }) => {
         if (claimable) {
           rewards.push(claimable);
           totalAvailable += claimable.amount;
         }
-        if (claimed) {
-          claimedMap.set(marketId, claimed);
-        } 
       });
 
       setClaimableRewards(rewards);
       claimableRewardsRef.current = rewards; // Keep ref in sync
       setAvailableToClaim(totalAvailable);
-      const historyList = Array.from(claimedMap.values()).sort(
-        (a, b) => parseDate(b.claimedAt ?? b.resolvedDate) - parseDate(a.claimedAt ?? a.resolvedDate),
-      );
-      setClaimHistory(historyList);
-      setClaimedIds(new Set(historyList.map((entry) => entry.marketId)));
-      if (typeof window !== 'undefined') {
-        try {
-          window.localStorage.setItem(scopedKey, JSON.stringify(historyList));
-        } catch (error) {
-          console.error('Failed to persist claimed rewards', error);
-        }
-      }
     } catch (error) {
       console.error('Error loading claimable rewards:', error);
     } finally {
@@ -314,29 +196,23 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
   useEffect(() => {
     addressRef.current = address;
   }, [address]);
+
+  useEffect(() => {
+    addPendingClaimsRef.current = addPendingClaims;
+  }, [addPendingClaims]);
   
   useEffect(() => {
     claimableRewardsRef.current = claimableRewards;
     claimableRewardsStateRef.current = claimableRewards;
   }, [claimableRewards]);
 
-  useEffect(() => {
-    const total = claimHistory.reduce((acc, reward) => acc + reward.amount, 0);
-    console.log('[ClaimPage] Recalculating total claimed:', {
-      claimHistoryLength: claimHistory.length,
-      amounts: claimHistory.map(r => r.amount),
-      newTotal: total
-    });
-    setTotalClaimed(total);
-  }, [claimHistory]);
-
   // Listen for instant claim updates (similar to trading card's instant trade updates)
   useEffect(() => {
     if (typeof window === 'undefined') return;
 
     const handleInstantClaimUpdate = (event: any) => {
       const detail = event.detail;
-      const { marketId, user, amount, claimedAt, txHash, source } = detail;
+      const { marketId, user, amount, amountUsdc, claimedAt, txHash, source } = detail;
 
       // Use ref to get latest address (avoid stale closure)
       const currentAddress = addressRef.current;
@@ -383,46 +259,17 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
         return next;
       });
 
-      // Add to claim history - update immediately for both sources
-      if (claimedAt) {
-        const historyEntry: ClaimableReward = {
+      // Show the claim in history until the subgraph has indexed it
+      if (claimedAt && txHash) {
+        addPendingClaimsRef.current([{
+          id: `pending-${String(txHash).toLowerCase()}-redeem-${marketIdNum}`,
+          kind: 'redeem',
           marketId: marketIdNum,
           question: capturedReward?.question ?? '',
-          resolvedDate: capturedReward?.resolvedDate ?? new Date().toISOString().split('T')[0],
-          amount,
-          side: capturedReward?.side ?? 'YES',
-          winning: true,
-          yesBalance: '0',
-          noBalance: '0',
-          yesPrice: capturedReward?.yesPrice ?? 0,
-          noPrice: capturedReward?.noPrice ?? 0,
-          claimedAt,
-        };
-        
-        setClaimHistory(prev => {
-          // Remove existing entry if present (in case of duplicate)
-          const filtered = prev.filter(entry => entry.marketId !== marketIdNum);
-          const newHistory = [historyEntry, ...filtered].sort(
-            (a, b) => parseDate(b.claimedAt ?? b.resolvedDate) - parseDate(a.claimedAt ?? a.resolvedDate),
-          );
-          console.log('[ClaimPage] Updated claim history:', {
-            source,
-            added: historyEntry,
-            totalItems: newHistory.length,
-            totalAmount: newHistory.reduce((acc, r) => acc + r.amount, 0)
-          });
-          
-          // Update localStorage immediately
-          if (typeof window !== 'undefined') {
-            try {
-              window.localStorage.setItem(getScopedStorageKey(), JSON.stringify(newHistory));
-            } catch (error) {
-              console.error('[ClaimPage] Failed to persist claimed rewards', error);
-            }
-          }
-          
-          return newHistory;
-        });
+          amountUsdc: (amountUsdc ?? BigInt(Math.round(amount * 1e6))).toString(),
+          timestamp: Math.floor(Date.parse(claimedAt) / 1000),
+          txHash: String(txHash).toLowerCase(),
+        }]);
       }
     };
 
@@ -432,190 +279,6 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
     };
   }, []); // Empty deps - use refs instead to avoid stale closures
 
-  const handleWebhookRedemption = useCallback(
-    (rawEvent: unknown): 'handled' | 'ignored' | 'refresh' => {
-      if (!address) {
-        return 'ignored';
-      }
-
-      if (!rawEvent || typeof rawEvent !== 'object') {
-        return 'ignored';
-      }
-
-      const event = (rawEvent as { payload?: unknown })?.payload ?? rawEvent;
-      if (!event || typeof event !== 'object') {
-        return 'ignored';
-      }
-
-      const entityRaw =
-        (event as any).entity ?? (event as any).type ?? (event as any).model ?? (event as any).table ?? null;
-      const entity =
-        typeof entityRaw === 'string'
-          ? entityRaw.toLowerCase()
-          : Array.isArray(entityRaw)
-            ? entityRaw.join('').toLowerCase()
-            : null;
-
-      const redemptionEntityAliases = new Set(['redemption', 'redemptions', 'claim', 'claims']);
-
-      if (!entity || !redemptionEntityAliases.has(entity)) {
-        return 'ignored';
-      }
-
-      const dataCandidate =
-        (event as any).data ??
-        (event as any).new ??
-        (event as any).record ??
-        ((event as any).oldNew?.new ?? null) ??
-        ((event as any).event === 'INSERT' ? (event as any).row : null) ??
-        (event as any).redemption ??
-        null;
-
-      if (!dataCandidate || typeof dataCandidate !== 'object') {
-        return 'ignored';
-      }
-
-      const data =
-        typeof (dataCandidate as any).new === 'object' && (dataCandidate as any).new !== null
-          ? (dataCandidate as any).new
-          : dataCandidate;
-
-      const normalize = (value: any): string | null => {
-        if (value === null || value === undefined) return null;
-        if (typeof value === 'string') return value;
-        if (typeof value === 'number' || typeof value === 'bigint') return value.toString();
-        if (typeof value === 'object') {
-          if ('id' in value && typeof (value as { id?: unknown }).id === 'string') {
-            return (value as { id: string }).id;
-          }
-          return null;
-        }
-        return null;
-      };
-
-      const userRaw =
-        normalize((data as any).user) ??
-        normalize((data as any).account) ??
-        normalize((data as any).trader) ??
-        normalize((data as any).userId);
-      const userLower = userRaw?.toLowerCase() ?? null;
-      if (!userLower || userLower !== address.toLowerCase()) {
-        return 'ignored';
-      }
-
-      const marketIdRaw =
-        normalize((data as any).market?.id) ?? normalize((data as any).market) ?? normalize((data as any).market_id);
-      const marketId = Number(marketIdRaw);
-      if (!Number.isFinite(marketId) || marketId <= 0) {
-        return 'ignored';
-      }
-
-      const uniqueKey =
-        normalize((event as any).id) ??
-        normalize((data as any).id) ??
-        `${marketId}-${normalize((data as any).timestamp) ?? Date.now().toString()}`;
-      if (!uniqueKey) {
-        void loadClaimableRewards();
-        return 'refresh';
-      }
-
-      if (processedRedemptionsRef.current.has(uniqueKey)) {
-        return 'ignored';
-      }
-      processedRedemptionsRef.current.add(uniqueKey);
-      if (processedRedemptionsRef.current.size > 500) {
-        const iterator = processedRedemptionsRef.current.values();
-        const first = iterator.next();
-        if (!first.done) {
-          processedRedemptionsRef.current.delete(first.value);
-        }
-      }
-
-      const amountRaw =
-        normalize((data as any).amount) ??
-        normalize((data as any).usdcOut) ??
-        normalize((data as any).usdc_out) ??
-        normalize((data as any).value);
-
-      let amountNumber = 0;
-      if (amountRaw) {
-        try {
-          amountNumber = Number(formatUnits(BigInt(amountRaw), 6));
-        } catch (error) {
-          const parsed = Number(amountRaw);
-          if (Number.isFinite(parsed)) {
-            amountNumber = parsed;
-          }
-        }
-      }
-
-      const timestampRaw =
-        normalize((data as any).timestamp) ??
-        normalize((data as any).blockTimestamp) ??
-        normalize((data as any).block_timestamp) ??
-        normalize((data as any).created_at);
-      const claimedAtIso = timestampRaw
-        ? new Date(Number(timestampRaw) * 1000).toISOString()
-        : new Date().toISOString();
-
-      const existingClaimable = claimableRewards.find(entry => entry.marketId === marketId);
-      const existingHistory = claimHistory.find(entry => entry.marketId === marketId);
-
-      const base = existingClaimable ?? existingHistory ?? null;
-      const effectiveAmount = amountNumber > 0 ? amountNumber : base?.amount ?? 0;
-
-      const nextEntry: ClaimableReward = {
-        marketId,
-        question: base?.question ?? '',
-        resolvedDate: base?.resolvedDate ?? claimedAtIso,
-        amount: effectiveAmount,
-        side: base?.side ?? 'YES',
-        winning: base?.winning ?? true,
-        yesBalance: '0',
-        noBalance: '0',
-        yesPrice: base?.yesPrice ?? 0,
-        noPrice: base?.noPrice ?? 0,
-        claimedAt: claimedAtIso,
-      };
-
-      setClaimHistory(prev => {
-        const existing = new Map(prev.map(entry => [entry.marketId, entry]));
-        existing.set(marketId, nextEntry);
-        const next = Array.from(existing.values()).sort(
-          (a, b) => parseDate(b.claimedAt ?? b.resolvedDate) - parseDate(a.claimedAt ?? a.resolvedDate),
-        );
-        if (typeof window !== 'undefined') {
-          try {
-            window.localStorage.setItem(getScopedStorageKey(), JSON.stringify(next));
-          } catch (error) {
-            console.error('[ClaimPage] Failed to persist claimed rewards after webhook', error);
-          }
-        }
-        return next;
-      });
-
-      setClaimedIds(prev => {
-        const next = new Set(prev);
-        next.add(marketId);
-        return next;
-      });
-
-      if (existingClaimable) {
-        setClaimableRewards(prev => prev.filter(entry => entry.marketId !== marketId));
-        setAvailableToClaim(prev => {
-          const next = prev - existingClaimable.amount;
-          return next > 0 ? next : 0;
-        });
-      } else {
-        // no cached claimable info – race a full refresh for safety
-        void loadClaimableRewards();
-      }
-
-      return 'handled';
-    },
-    [address, claimableRewards, claimHistory, loadClaimableRewards],
-  );
-
   useEffect(() => {
     loadClaimableRewards();
   }, [loadClaimableRewards]);
@@ -730,6 +393,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                 marketId: BigInt(marketId),
                 user: userArg,
                 amount: amount,
+                amountUsdc: usdcOutRaw,
                 claimedAt: claimedAtIso,
                 txHash: log.transactionHash,
                 source: 'blockchain-event',
@@ -787,7 +451,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
         ? new Date(Number(block.timestamp) * 1000).toISOString()
         : new Date().toISOString();
 
-      const newlyClaimed: ClaimRecord[] = [];
+      const newlyClaimed: Array<{ marketId: number; user: string; amount: number; amountUsdc: bigint; claimedAt: string }> = [];
 
       for (const log of receipt.logs ?? []) {
         if (!log || log.address?.toLowerCase() !== addresses.core.toLowerCase()) continue;
@@ -813,6 +477,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
             marketId,
             user: address.toLowerCase(),
             amount,
+            amountUsdc: usdcOutRaw,
             claimedAt: claimedAtIso,
           });
         } catch (error) {
@@ -829,6 +494,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
               marketId: BigInt(record.marketId),
               user: record.user,
               amount: record.amount,
+              amountUsdc: record.amountUsdc,
               claimedAt: record.claimedAt,
               txHash: redeemHash,
               source: 'claim-transaction'
@@ -839,42 +505,6 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
           }
         });
 
-        // Update claim history immediately (event handler will also update, but this ensures immediate feedback)
-        setClaimHistory(prev => {
-          const existing = new Map(prev.map(entry => [entry.marketId, entry]));
-          newlyClaimed.forEach(record => {
-            existing.set(record.marketId, {
-              marketId: record.marketId,
-              question:
-                record.marketId === reward.marketId ? reward.question : existing.get(record.marketId)?.question ?? '',
-              resolvedDate: reward.resolvedDate,
-              amount: record.amount,
-              side: record.marketId === reward.marketId ? reward.side : (existing.get(record.marketId)?.side ?? 'YES'),
-              winning: true,
-              yesBalance: '0',
-              noBalance: '0',
-              yesPrice: record.marketId === reward.marketId ? reward.yesPrice : (existing.get(record.marketId)?.yesPrice ?? 0),
-              noPrice: record.marketId === reward.marketId ? reward.noPrice : (existing.get(record.marketId)?.noPrice ?? 0),
-              claimedAt: record.claimedAt,
-            });
-          });
-          const next = Array.from(existing.values()).sort(
-            (a, b) => parseDate(b.claimedAt ?? b.resolvedDate) - parseDate(a.claimedAt ?? a.resolvedDate),
-          );
-          if (typeof window !== 'undefined') {
-            try {
-              window.localStorage.setItem(getScopedStorageKey(), JSON.stringify(next));
-            } catch (error) {
-              console.error('Failed to update claimed rewards cache after claim', error);
-            }
-          }
-          console.log('[ClaimPage] handleClaim updated claim history:', {
-            totalItems: next.length,
-            totalAmount: next.reduce((acc, r) => acc + r.amount, 0),
-            newlyClaimed: newlyClaimed.length
-          });
-          return next;
-        });
         setClaimedIds(prev => {
           const next = new Set(prev);
           newlyClaimed.forEach(record => next.add(record.marketId));
@@ -912,6 +542,122 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
     }
   }, [address, loadClaimableRewards, writeContractAsync, publicClient]);
 
+  const lpClaims = useLpClaims(address);
+  const refetchLpClaims = lpClaims.refetch;
+  const lpTotal = Number(formatUnits(lpClaims.totalUsdc, 6));
+  const lpClaimCount = lpClaims.claims.reduce(
+    (count, claim) => count + (claim.pendingFees > 0n ? 1 : 0) + (claim.pendingResidual > 0n ? 1 : 0),
+    0,
+  );
+
+  const handleClaimLp = useCallback(async (claim: LpClaim, kind: 'lpFees' | 'lpResidual') => {
+    if (!address || !publicClient) {
+      alert('Please connect your wallet');
+      return;
+    }
+
+    setClaimingLpKey(`${kind}-${claim.marketId}`);
+    try {
+      const hash = await writeContractAsync({
+        address: addresses.core,
+        abi: coreAbi,
+        functionName: kind === 'lpFees' ? 'claimLpFees' : 'claimLpResidual',
+        args: [BigInt(claim.marketId)],
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt?.status !== 'success') {
+        throw new Error('Claim transaction failed or was reverted');
+      }
+      addPendingClaims([{
+        id: `pending-${hash}-${kind}-${claim.marketId}`,
+        kind,
+        marketId: claim.marketId,
+        question: claim.question,
+        amountUsdc: (kind === 'lpFees' ? claim.pendingFees : claim.pendingResidual).toString(),
+        timestamp: Math.floor(Date.now() / 1000),
+        txHash: hash.toLowerCase(),
+      }]);
+      await refetchLpClaims();
+    } catch (error: any) {
+      console.error('Error claiming LP rewards:', error);
+      alert(`Failed to claim LP rewards: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setClaimingLpKey(null);
+    }
+  }, [address, publicClient, writeContractAsync, refetchLpClaims, addPendingClaims]);
+
+  // Each confirmed redeem in a claim-all batch updates the page like a single claim
+  const handleBatchClaimed = useCallback((item: ClaimBatchItem) => {
+    if (item.kind !== 'redeem') {
+      if (item.txHash) {
+        addPendingClaims([{
+          id: `pending-${item.txHash}-${item.kind}-${item.marketId}`,
+          kind: item.kind,
+          marketId: item.marketId,
+          question: item.question,
+          amountUsdc: (item.usdcOut ?? item.expectedUsdc).toString(),
+          timestamp: Math.floor(Date.now() / 1000),
+          txHash: item.txHash.toLowerCase(),
+        }]);
+      }
+      void refetchLpClaims();
+      return;
+    }
+    if (typeof window === 'undefined' || !address) return;
+    window.dispatchEvent(new CustomEvent('instant-claim-update', {
+      detail: {
+        marketId: BigInt(item.marketId),
+        user: address.toLowerCase(),
+        amount: Number(formatUnits(item.usdcOut ?? item.expectedUsdc, 6)),
+        amountUsdc: item.usdcOut ?? item.expectedUsdc,
+        claimedAt: new Date().toISOString(),
+        txHash: item.txHash,
+        source: 'claim-all',
+      },
+    }));
+  }, [address, refetchLpClaims, addPendingClaims]);
+
+  const claimAll = useClaimAll({ account: address, onClaimed: handleBatchClaimed });
+
+  const handleClaimAll = useCallback(async () => {
+    const candidates: ClaimCandidate[] = claimableRewards
+      .filter(reward => reward.token && !claimedIds.has(reward.marketId))
+      .map(reward => ({
+        kind: 'redeem' as const,
+        marketId: reward.marketId,
+        question: reward.question,
+        isYes: reward.side === 'YES',
+        token: reward.token!,
+        expectedUsdc: redeemableUsdc(reward.balanceWei ?? 0n),
+      }));
+    for (const claim of lpClaims.claims) {
+      if (claim.pendingFees > 0n) {
+        candidates.push({ kind: 'lpFees', marketId: claim.marketId, question: claim.question, expectedUsdc: claim.pendingFees });
+      }
+      if (claim.pendingResidual > 0n) {
+        candidates.push({ kind: 'lpResidual', marketId: claim.marketId, question: claim.question, expectedUsdc: claim.pendingResidual });
+      }
+    }
+
+    try {
+      await claimAll.start(candidates);
+    } catch (error: any) {
+      console.error('Error claiming all rewards:', error);
+      alert(`Claim all stopped: ${error?.message || 'Unknown error'}`);
+    }
+  }, [claimAll, claimableRewards, claimedIds, lpClaims.claims]);
+
+  const runClaimAllAction = useCallback(async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error: any) {
+      console.error('Error in claim all:', error);
+      alert(`Claim all stopped: ${error?.message || 'Unknown error'}`);
+    }
+  }, []);
+
+  const totalClaimed = Number(formatUnits(claimHistory.totalClaimedUsdc, 6));
+
   const formatUsd = (value: number) => {
     return value.toLocaleString(undefined, { 
       minimumFractionDigits: 2, 
@@ -1007,10 +753,11 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
               animate={{ scale: 1, opacity: 1 }}
               className="text-3xl sm:text-4xl md:text-5xl font-black text-[#2DD4BF] mb-2 sm:mb-3"
             >
-              ${formatUsd(availableToClaim)}
+              ${formatUsd(availableToClaim + lpTotal)}
             </motion.div>
             <p className="text-xs sm:text-sm text-gray-500">
               {claimableRewards.length} {claimableRewards.length === 1 ? 'market' : 'markets'} ready for withdrawal
+              {lpClaims.claims.length > 0 && ` · $${formatUsd(lpTotal)} in LP rewards`}
             </p>
           </motion.div>
 
@@ -1102,7 +849,31 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
               exit={{ opacity: 0 }}
               className="space-y-6"
             >
-              {claimableRewards.length === 0 ? (
+              {claimAll.batch && (
+                <ClaimAllPanel
+                  batch={claimAll.batch}
+                  isRunning={claimAll.isRunning}
+                  onResume={() => runClaimAllAction(claimAll.resume)}
+                  onRetryFailed={() => runClaimAllAction(claimAll.retryFailed)}
+                  onCancel={() => runClaimAllAction(claimAll.cancel)}
+                  onDismiss={claimAll.dismiss}
+                />
+              )}
+              {!claimAll.batch && claimableRewards.length + lpClaimCount > 1 && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-white rounded-xl sm:rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-100">
+                  <p className="text-sm sm:text-base text-gray-600">
+                    Claim winnings and LP rewards in one go. You will sign one transaction per claim ({claimableRewards.length + lpClaimCount}).
+                  </p>
+                  <button
+                    onClick={handleClaimAll}
+                    disabled={isPending || claimingId !== null}
+                    className="px-6 py-3 bg-[#2DD4BF] hover:bg-[#14B8A6] text-white rounded-xl font-bold shadow-md disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                  >
+                    Claim all · ${formatUsd(availableToClaim + lpTotal)}
+                  </button>
+                </div>
+              )}
+              {claimableRewards.length === 0 && lpClaims.claims.length === 0 ? (
                 <motion.div 
                   initial={{ scale: 0.8, opacity: 0 }}
                   animate={{ scale: 1, opacity: 1 }}
@@ -1126,7 +897,8 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                   </Link>
                 </motion.div>
               ) : (
-                claimableRewards.map((reward, index) => (
+                <>
+                {claimableRewards.map((reward, index) => (
                   <motion.div
                     key={reward.marketId}
                     initial={{ x: -50, opacity: 0 }}
@@ -1166,6 +938,7 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                           onClick={() => handleClaim(reward)}
                           disabled={
                             isPending ||
+                            claimAll.isRunning ||
                             claimingId === reward.marketId ||
                             claimedIds.has(reward.marketId)
                           }
@@ -1189,18 +962,66 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                       </div>
                     </div>
                   </motion.div>
-                ))
+                ))}
+                {lpClaims.claims.map(claim => (
+                  <div
+                    key={`lp-${claim.marketId}`}
+                    className="bg-white rounded-xl sm:rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-100 hover:border-[#2DD4BF] transition-all"
+                  >
+                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 sm:gap-6">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-3 sm:mb-4">
+                          <span className="px-2 sm:px-3 py-1 bg-[#14B8A6] text-white text-[10px] sm:text-xs font-bold rounded-full uppercase tracking-wide">
+                            LP rewards
+                          </span>
+                          <span className="px-2 sm:px-3 py-1 bg-gray-50 text-gray-600 text-[10px] sm:text-xs font-semibold rounded-full border border-gray-200">
+                            ${formatUsd(Number(formatUnits(claim.lpShares, 6)))} provided
+                          </span>
+                        </div>
+                        <h3 className="text-base sm:text-lg md:text-xl font-bold text-gray-900 mb-2 sm:mb-3 line-clamp-2">{claim.question}</h3>
+                      </div>
+                      <div className="flex flex-col gap-2 flex-shrink-0 sm:min-w-[16rem]">
+                        {([
+                          ['lpFees', 'Trading fees', claim.pendingFees],
+                          ['lpResidual', 'Residual', claim.pendingResidual],
+                        ] as const).map(([kind, label, amount]) =>
+                          amount > 0n ? (
+                            <div key={kind} className="flex items-center justify-between gap-4">
+                              <div>
+                                <div className="text-xs text-gray-500">{label}</div>
+                                <div className="text-xl font-black text-gray-900">${formatUsd(Number(formatUnits(amount, 6)))}</div>
+                              </div>
+                              <button
+                                onClick={() => handleClaimLp(claim, kind)}
+                                disabled={isPending || claimAll.isRunning || claimingLpKey !== null}
+                                className="px-4 py-2 bg-[#2DD4BF] hover:bg-[#14B8A6] text-white rounded-lg font-bold shadow-md disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap text-xs sm:text-sm"
+                              >
+                                {claimingLpKey === `${kind}-${claim.marketId}` ? 'Claiming...' : 'Claim'}
+                              </button>
+                            </div>
+                          ) : null,
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                </>
               )}
             </motion.div>
           ) : (
             <motion.div
-              key={`history-${claimHistory.length}-${totalClaimed}`}
+              key="history"
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
               className="space-y-6"
             >
-              {claimHistory.length === 0 ? (
+              {claimHistory.isLoading ? (
+                <div className="text-center py-20">
+                  <div className="inline-block w-16 h-16 border-4 border-[#2DD4BF] border-t-transparent rounded-full animate-spin"></div>
+                  <p className="text-gray-600 mt-4">Loading claim history...</p>
+                </div>
+              ) : claimHistory.entries.length === 0 ? (
                 <motion.div 
                   initial={{ scale: 0.8, opacity: 0 }}
                   animate={{ scale: 1, opacity: 1 }}
@@ -1215,30 +1036,41 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                   <p className="text-gray-600">Your claimed rewards will appear here.</p>
                 </motion.div>
               ) : (
-                claimHistory.map((reward, index) => (
+                <>
+                {claimHistory.entries.map((entry, index) => (
                   <motion.div
-                    key={reward.marketId}
+                    key={entry.id}
                     initial={{ x: -50, opacity: 0 }}
                     animate={{ x: 0, opacity: 1 }}
-                    transition={{ delay: index * 0.1 }}
+                    transition={{ delay: Math.min(index, 10) * 0.05 }}
                     className="bg-[#F0FDF4] rounded-xl sm:rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-100"
                   >
                     <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 sm:gap-6">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-3 sm:mb-4">
                           <span className="px-2 sm:px-3 py-1 bg-gray-200 text-gray-700 text-[10px] sm:text-xs font-bold rounded-full uppercase tracking-wide">
-                            Claimed
+                            {claimKindLabels[entry.kind]}
                           </span>
+                          {entry.pending && (
+                            <span
+                              className="px-2 sm:px-3 py-1 bg-yellow-100 text-yellow-700 text-[10px] sm:text-xs font-bold rounded-full uppercase tracking-wide"
+                              title="Confirmed on-chain, waiting for the indexer"
+                            >
+                              Pending
+                            </span>
+                          )}
                         </div>
-                        <h3 className="text-base sm:text-lg md:text-xl font-bold text-gray-900 mb-2 sm:mb-3">{reward.question}</h3>
+                        <h3 className="text-base sm:text-lg md:text-xl font-bold text-gray-900 mb-2 sm:mb-3">
+                          {entry.question || `Market #${entry.marketId}`}
+                        </h3>
                         <p className="text-xs sm:text-sm text-gray-500 mb-3 sm:mb-4">
-                          Claimed: {reward.resolvedDate}
+                          Claimed: {new Date(entry.timestamp * 1000).toLocaleString()}
                         </p>
                       </div>
                       <div className="flex flex-col sm:flex-col items-end sm:items-end gap-3 sm:gap-4 flex-shrink-0">
                         <div className="text-right">
                           <div className="text-2xl sm:text-3xl md:text-4xl font-black text-gray-900">
-                            ${formatUsd(reward.amount)}
+                            ${formatUsd(Number(formatUnits(BigInt(entry.amountUsdc), 6)))}
                           </div>
                         </div>
                         <div className="px-4 sm:px-6 md:px-8 py-2 sm:py-3 md:py-4 bg-gray-200 text-gray-600 rounded-lg sm:rounded-xl font-bold whitespace-nowrap text-xs sm:text-sm md:text-base">
@@ -1247,7 +1079,17 @@ const processedRedemptionsRef = useRef<Set<string>>(new Set());
                       </div>
                     </div>
                   </motion.div>
-                ))
+                ))}
+                {claimHistory.hasNextPage && (
+                  <button
+                    onClick={() => void claimHistory.fetchNextPage()}
+                    disabled={claimHistory.isFetchingNextPage}
+                    className="w-full py-3 rounded-xl border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {claimHistory.isFetchingNextPage ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
+                </>
               )}
             </motion.div>
           )}
@@ -14,6 +14,7 @@ import Header from '@/components/Header';
 import TradingCard from '@/components/TradingCard';
 import { PriceChart } from '@/components/PriceChart';
 import { MarketHeader } from '@/components/market/MarketHeader';
+import { MarketDetailsForm } from '@/components/market/MarketDetailsForm';
 
 // Lib
 import { getMarket, getSpotPriceYesE6, getMarketResolution, getMarketState } from '@/lib/hooks';
@@ -28,6 +29,7 @@ import {
   getSecondsForRange,
 } from '@/lib/useMarketSnapshot';
 import { subscribeToSubgraph, fetchSubgraph } from '@/lib/subgraphClient';
+import { useResolution } from '@/lib/useResolution';
 import type { TransactionRow, Holder } from '@/lib/marketTransformers';
 import { toTransactionRow, toHolder } from '@/lib/marketTransformers';
 
@@ -35,6 +37,9 @@ import { toTransactionRow, toHolder } from '@/lib/marketTransformers';
 import { useMarketPriceHistory } from '@/lib/hooks/useMarketPriceHistory';
 import { useMarketTransactions } from '@/lib/hooks/useMarketTransactions';
 import { useMarketHolders } from '@/lib/hooks/useMarketHolders';
+import { useMarketPnl } from '@/lib/hooks/useMarketPnl';
+import { useMarketMetadata } from '@/lib/hooks/useMarketMetadata';
+import type { CostBasisMethod } from '@/lib/pnl';
 
 // Tabs
 import { PositionTab } from './tabs/PositionTab';
@@ -125,6 +130,7 @@ export default function MarketDetailPage() {
 
   // Use centralized market data hook
   const marketData = useMarketData(marketIdNum);
+  const { data: metadata } = useMarketMetadata(isMarketIdValid ? marketId : undefined);
 
   // UI state
   const [activeTab, setActiveTab] = useState<'Position' | 'Comments' | 'Transactions' | 'Resolution'>('Resolution');
@@ -133,6 +139,7 @@ export default function MarketDetailPage() {
   const [timeRange, setTimeRange] = useState<SnapshotTimeRange>('ALL');
   const [yesBalance, setYesBalance] = useState<string>('0');
   const [noBalance, setNoBalance] = useState<string>('0');
+  const [costMethod, setCostMethod] = useState<CostBasisMethod>('average');
   const [logoSrc, setLogoSrc] = useState<string>(() => getAssetLogo());
   const [showInstantUpdateBadge, setShowInstantUpdateBadge] = useState(false);
   const instantBadgeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -147,6 +154,11 @@ export default function MarketDetailPage() {
     SNAPSHOT_HOLDER_LIMIT,
   );
   const snapshotData = snapshotQuery.data ?? null;
+
+  const { data: settlement } = useResolution(
+    isMarketIdValid ? marketIdNum : null,
+    Boolean(resolution?.isResolved),
+  );
   const snapshotLoading = snapshotQuery.isLoading;
 
   // Use both historical data and real-time data
@@ -512,12 +524,14 @@ export default function MarketDetailPage() {
     };
   }, [blockNumber, isMarketIdValid, marketIdNum, sortedChartData, lastHistoricalTimestampRef, mergePricePoints, subConnected, marketData.currentPrices.yes]);
 
-  // Set logo when market loads
+  // Set logo when market loads, preferring the creator's image
   useEffect(() => {
-    if (market?.question) {
+    if (metadata?.imageUrl) {
+      setLogoSrc(metadata.imageUrl);
+    } else if (market?.question) {
       setLogoSrc(getAssetLogo(String(market.question)));
     }
-  }, [market?.question]);
+  }, [market?.question, metadata?.imageUrl]);
 
   // Subscription payload
   const subscriptionPayload = useMemo(() => {
@@ -717,6 +731,12 @@ export default function MarketDetailPage() {
   const marketIsExpired = marketExpiry > 0 && marketExpiry < Date.now() / 1000;
   const isChartRefreshing = snapshotLoading && sortedChartData.length > 0;
   const marketIsActive = marketStatus === 0 && !marketIsResolved && !marketIsExpired;
+  const { pnl: positionPnl } = useMarketPnl(
+    isMarketIdValid ? marketIdNum : null,
+    address,
+    costMethod,
+    BigInt(Math.round((Number.isFinite(marketData.currentPrices.yes) ? marketData.currentPrices.yes : 0.5) * 1e6)) * 10n ** 12n,
+  );
 
   // Loading state - wait for market metadata, resolution, and market data
   if (marketData.isLoading || !market || !resolution) {
@@ -836,10 +856,16 @@ export default function MarketDetailPage() {
           totalVolume={totalVolume}
           createdAtDate={createdAtDate}
           logoSrc={logoSrc}
+          metadata={metadata}
           marketIsActive={marketIsActive}
           onLogoError={() => setLogoSrc('/logos/default.png')}
         />
 
+        {/* null once the lookup has come back empty; the creator can publish what creation missed */}
+        {metadata === null && !!address && String(market.lp ?? '').toLowerCase() === address.toLowerCase() && (
+          <MarketDetailsForm marketId={marketId} />
+        )}
+
         {(marketIsResolved || marketIsExpired) && (
           <motion.div
             initial={{ opacity: 0, y: -10 }}
@@ -1066,6 +1092,9 @@ export default function MarketDetailPage() {
                       noBalance={noBalance}
                       priceYes={marketData.currentPrices.yes}
                       priceNo={marketData.currentPrices.no}
+                      pnl={positionPnl}
+                      costMethod={costMethod}
+                      onCostMethodChange={setCostMethod}
                     />
                   )}
                   {activeTab === 'Comments' && (
@@ -1082,7 +1111,7 @@ export default function MarketDetailPage() {
                     />
                   )}
                   {activeTab === 'Resolution' && (
-                    <ResolutionTab resolution={resolution} />
+                    <ResolutionTab resolution={resolution} settlement={settlement} />
                   )}
                 </motion.div>
               </AnimatePresence>
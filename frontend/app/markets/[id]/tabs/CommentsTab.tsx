@@ -1,14 +1,9 @@
 'use client';
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface Comment {
-  id: string;
-  user: string;
-  text: string;
-  timestamp: number;
-  side?: 'yes' | 'no';
-}
+import { formatUnits } from 'viem';
+import { COMMENT_MAX_LENGTH, type CommentPosition, type CommentSort, type MarketComment } from '@/lib/comments';
+import { useMarketComments } from '@/lib/hooks/useMarketComments';
 
 interface CommentsTabProps {
   marketId: string;
@@ -16,96 +11,305 @@ interface CommentsTabProps {
   address?: string;
 }
 
+const SORT_OPTIONS: Array<{ value: CommentSort; label: string }> = [
+  { value: 'top', label: 'Top' },
+  { value: 'new', label: 'Newest' },
+  { value: 'holders', label: 'Holders only' },
+];
+
+// Replies past this depth line up with their parent instead of indenting further
+const MAX_INDENT_DEPTH = 4;
+
+const isUserRejection = (error: any) =>
+  error?.name === 'UserRejectedRequestError' || /user (rejected|denied)/i.test(error?.message ?? '');
+
+const formatShares = (balance: string) =>
+  Number(formatUnits(BigInt(balance), 18)).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Which side the author is actually exposed to, from their token balances
+function heldSide(position?: CommentPosition): 'yes' | 'no' | null {
+  if (!position) return null;
+  const yes = BigInt(position.yes);
+  const no = BigInt(position.no);
+  if (yes === 0n && no === 0n) return null;
+  return yes >= no ? 'yes' : 'no';
+}
+
+function PositionBadges({ position }: { position?: CommentPosition }) {
+  if (!heldSide(position)) {
+    return <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-500">No position</span>;
+  }
+  return (
+    <>
+      {BigInt(position!.yes) > 0n && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-green-100 text-green-700" title="Current YES balance">
+          YES {formatShares(position!.yes)}
+        </span>
+      )}
+      {BigInt(position!.no) > 0n && (
+        <span className="px-2 py-0.5 rounded-full text-xs font-bold bg-red-100 text-red-700" title="Current NO balance">
+          NO {formatShares(position!.no)}
+        </span>
+      )}
+    </>
+  );
+}
+
+interface CommentThreadProps {
+  comment: MarketComment;
+  depth: number;
+  repliesByParent: Map<string, MarketComment[]>;
+  positions: Record<string, CommentPosition>;
+  account?: string;
+  busyId: string | null;
+  onReply: (parentId: string, body: string) => Promise<boolean>;
+  onVote: (comment: MarketComment) => void;
+  onDelete: (commentId: string) => void;
+}
+
+function CommentThread({
+  comment,
+  depth,
+  repliesByParent,
+  positions,
+  account,
+  busyId,
+  onReply,
+  onVote,
+  onDelete,
+}: CommentThreadProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [reply, setReply] = useState('');
+  const [isSubmittingReply, setIsSubmittingReply] = useState(false);
+
+  const position = positions[comment.author];
+  const side = heldSide(position);
+  const replies = repliesByParent.get(comment.id) ?? [];
+  const hasVoted = !!account && comment.upvoters.includes(account);
+  const isAuthor = !!account && comment.author === account;
+
+  const submitReply = async () => {
+    if (!reply.trim() || isSubmittingReply) return;
+    setIsSubmittingReply(true);
+    const posted = await onReply(comment.id, reply);
+    setIsSubmittingReply(false);
+    if (posted) {
+      setReply('');
+      setIsReplying(false);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        className={`p-4 rounded-xl border-2 ${
+          comment.deleted
+            ? 'bg-gray-50 border-gray-200'
+            : side === 'yes'
+            ? 'bg-green-50 border-green-200'
+            : side === 'no'
+            ? 'bg-red-50 border-red-200'
+            : 'bg-white border-gray-200'
+        }`}
+      >
+        {comment.deleted ? (
+          <p className="text-sm text-gray-400 italic">Comment deleted by its author</p>
+        ) : (
+          <>
+            <div className="flex items-start justify-between mb-2">
+              <div className="flex items-center gap-3">
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold text-white ${
+                  side === 'yes'
+                    ? 'bg-green-500'
+                    : side === 'no'
+                    ? 'bg-red-500'
+                    : 'bg-gray-400'
+                }`}>
+                  {comment.author.slice(0, 2).toUpperCase()}
+                </div>
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-bold text-gray-900">
+                      {comment.author.slice(0, 6)}...{comment.author.slice(-4)}
+                    </span>
+                    <PositionBadges position={position} />
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {new Date(comment.createdAt).toLocaleString()}
+                  </span>
+                </div>
+              </div>
+            </div>
+            <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{comment.body}</p>
+            <div className="flex items-center gap-4 mt-3 text-xs font-semibold">
+              <button
+                onClick={() => onVote(comment)}
+                disabled={!account || busyId !== null}
+                className={`flex items-center gap-1 transition-colors disabled:cursor-not-allowed ${
+                  hasVoted ? 'text-[#0D9488]' : 'text-gray-500 hover:text-[#0D9488]'
+                }`}
+                title={account ? (hasVoted ? 'Remove upvote' : 'Upvote') : 'Connect wallet to vote'}
+              >
+                ▲ {comment.upvoters.length}
+              </button>
+              {account && (
+                <button
+                  onClick={() => setIsReplying(open => !open)}
+                  className="text-gray-500 hover:text-gray-900 transition-colors"
+                >
+                  Reply
+                </button>
+              )}
+              {isAuthor && (
+                <button
+                  onClick={() => onDelete(comment.id)}
+                  disabled={busyId !== null}
+                  className="text-gray-400 hover:text-red-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {busyId === comment.id ? 'Deleting...' : 'Delete'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {isReplying && (
+        <div className="flex gap-3 mt-2 ml-6">
+          <input
+            type="text"
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                submitReply();
+              }
+            }}
+            maxLength={COMMENT_MAX_LENGTH}
+            placeholder="Write a reply..."
+            className="flex-1 rounded-lg border border-gray-300 px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#14B8A6] focus:border-transparent"
+            disabled={isSubmittingReply}
+          />
+          <button
+            onClick={submitReply}
+            disabled={!reply.trim() || isSubmittingReply}
+            className="px-4 py-2 bg-gradient-to-r from-[#14B8A6] to-[#0D9488] text-white text-sm font-bold rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmittingReply ? 'Posting...' : 'Reply'}
+          </button>
+        </div>
+      )}
+
+      {replies.length > 0 && (
+        <div className={`mt-3 space-y-3 ${depth < MAX_INDENT_DEPTH ? 'ml-6 pl-4 border-l-2 border-gray-200' : ''}`}>
+          {replies.map(child => (
+            <CommentThread
+              key={child.id}
+              comment={child}
+              depth={depth + 1}
+              repliesByParent={repliesByParent}
+              positions={positions}
+              account={account}
+              busyId={busyId}
+              onReply={onReply}
+              onVote={onVote}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function CommentsTab({ marketId, isConnected, address }: CommentsTabProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
-  const [commentSide, setCommentSide] = useState<'yes' | 'no' | null>(null);
   const [isSubmittingComment, setIsSubmittingComment] = useState(false);
+  const [sort, setSort] = useState<CommentSort>('top');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const account = address?.toLowerCase();
 
-  const commentsStorageKey = marketId
-    ? `comments_v1_${process.env.NEXT_PUBLIC_CHAIN_ID ?? 'unknown'}_${marketId}`
-    : null;
+  const {
+    comments,
+    replies,
+    positions,
+    postComment,
+    voteComment,
+    deleteComment,
+    isLoading,
+    error: loadError,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = useMarketComments(marketId, address as `0x${string}` | undefined, sort);
 
-  // Load comments from localStorage
-  const loadComments = useCallback(() => {
-    if (!commentsStorageKey) return;
-    try {
-      const stored = localStorage.getItem(commentsStorageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored);
-        setComments(parsed);
-      }
-    } catch (error) {
-      console.error('Error loading comments:', error);
+  const repliesByParent = useMemo(() => {
+    const byParent = new Map<string, MarketComment[]>();
+    for (const reply of replies) {
+      const siblings = byParent.get(reply.parentId!) ?? [];
+      siblings.push(reply);
+      byParent.set(reply.parentId!, siblings);
     }
-  }, [commentsStorageKey]);
+    return byParent;
+  }, [replies]);
 
-  // Save comments to localStorage
-  const saveComments = useCallback((newComments: Comment[]) => {
-    if (!commentsStorageKey) return;
+  // Comments are signed by the wallet, then stored server-side for everyone
+  const submit = useCallback(async (body: string, parentId?: string) => {
     try {
-      localStorage.setItem(commentsStorageKey, JSON.stringify(newComments));
-      setComments(newComments);
-    } catch (error) {
-      console.error('Error saving comments:', error);
+      await postComment(body, parentId);
+      return true;
+    } catch (error: any) {
+      if (!isUserRejection(error)) {
+        console.error('Error submitting comment:', error);
+        alert(`Failed to post comment: ${error?.message || 'Please try again.'}`);
+      }
+      return false;
     }
-  }, [commentsStorageKey]);
+  }, [postComment]);
 
-  // Handle comment submission
   const handleSubmitComment = useCallback(async () => {
-    if (!newComment.trim() || !commentSide || !address || isSubmittingComment) return;
+    if (!newComment.trim() || !address || isSubmittingComment) return;
     setIsSubmittingComment(true);
+    if (await submit(newComment)) setNewComment('');
+    setIsSubmittingComment(false);
+  }, [newComment, address, isSubmittingComment, submit]);
+
+  const handleVote = useCallback(async (comment: MarketComment) => {
+    if (!account || busyId) return;
+    setBusyId(`vote-${comment.id}`);
     try {
-      const newCommentObj = {
-        id: `${Date.now()}_${address.slice(0, 8)}`,
-        user: address,
-        text: newComment.trim(),
-        timestamp: Date.now(),
-        side: commentSide,
-      };
-      const updatedComments = [newCommentObj, ...comments];
-      saveComments(updatedComments);
-      setNewComment('');
-      setCommentSide(null);
-    } catch (error) {
-      console.error('Error submitting comment:', error);
-      alert('Failed to post comment. Please try again.');
+      await voteComment(comment.id, !comment.upvoters.includes(account));
+    } catch (error: any) {
+      if (!isUserRejection(error)) {
+        console.error('Error voting on comment:', error);
+        alert(`Failed to vote: ${error?.message || 'Please try again.'}`);
+      }
     } finally {
-      setIsSubmittingComment(false);
+      setBusyId(null);
     }
-  }, [newComment, commentSide, address, isSubmittingComment, comments, saveComments]);
+  }, [account, busyId, voteComment]);
 
-  useEffect(() => {
-    loadComments();
-  }, [loadComments]);
+  const handleDeleteComment = useCallback(async (commentId: string) => {
+    if (busyId) return;
+    setBusyId(commentId);
+    try {
+      await deleteComment(commentId);
+    } catch (error: any) {
+      if (!isUserRejection(error)) {
+        console.error('Error deleting comment:', error);
+        alert(`Failed to delete comment: ${error?.message || 'Please try again.'}`);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  }, [busyId, deleteComment]);
 
   return (
     <div className="space-y-6">
       {/* Comment Input */}
       {isConnected && address ? (
         <div className="bg-gradient-to-br from-gray-50 to-white rounded-xl p-6 border border-gray-200">
-          <div className="flex gap-2 mb-4">
-            <button
-              onClick={() => setCommentSide('yes')}
-              className={`flex-1 px-4 py-2 rounded-lg font-bold text-sm transition-all ${
-                commentSide === 'yes'
-                  ? 'bg-gradient-to-r from-green-400 to-green-500 text-white shadow-md'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              YES
-            </button>
-            <button
-              onClick={() => setCommentSide('no')}
-              className={`flex-1 px-4 py-2 rounded-lg font-bold text-sm transition-all ${
-                commentSide === 'no'
-                  ? 'bg-gradient-to-r from-red-400 to-red-500 text-white shadow-md'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              NO
-            </button>
-          </div>
           <div className="flex gap-3">
             <input
               type="text"
@@ -117,18 +321,22 @@ export function CommentsTab({ marketId, isConnected, address }: CommentsTabProps
                   handleSubmitComment();
                 }
               }}
-              placeholder={commentSide ? `Comment on ${commentSide.toUpperCase()}...` : "Select YES or NO to comment"}
+              maxLength={COMMENT_MAX_LENGTH}
+              placeholder="Share your view on this market..."
               className="flex-1 rounded-lg border border-gray-300 px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-[#14B8A6] focus:border-transparent"
-              disabled={!commentSide || isSubmittingComment}
+              disabled={isSubmittingComment}
             />
             <button
               onClick={handleSubmitComment}
-              disabled={!newComment.trim() || !commentSide || isSubmittingComment}
+              disabled={!newComment.trim() || isSubmittingComment}
               className="px-6 py-3 bg-gradient-to-r from-[#14B8A6] to-[#0D9488] text-white font-bold rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isSubmittingComment ? 'Posting...' : 'Post'}
             </button>
           </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Your wallet signs each comment. Your current YES/NO position is shown next to it.
+          </p>
         </div>
       ) : (
         <div className="bg-gray-50 rounded-xl p-6 border border-gray-200 text-center">
@@ -136,75 +344,77 @@ export function CommentsTab({ marketId, isConnected, address }: CommentsTabProps
         </div>
       )}
 
+      {/* Sort */}
+      <div className="flex gap-2">
+        {SORT_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setSort(option.value)}
+            className={`px-4 py-2 rounded-lg font-bold text-sm transition-all ${
+              sort === option.value
+                ? 'bg-gradient-to-r from-[#14B8A6] to-[#0D9488] text-white shadow-md'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
       {/* Comments List */}
       <div className="space-y-4">
-        {comments.length === 0 ? (
+        {isLoading ? (
+          <div className="text-center py-16 bg-gray-50 rounded-xl border border-gray-200">
+            <p className="text-gray-500 font-semibold">Loading comments...</p>
+          </div>
+        ) : loadError && comments.length === 0 ? (
+          <div className="text-center py-16 bg-gray-50 rounded-xl border border-gray-200">
+            <p className="text-gray-500 font-semibold">Couldn&apos;t load comments</p>
+            <p className="text-sm text-gray-400 mt-2">{loadError.message}</p>
+          </div>
+        ) : comments.length === 0 ? (
           <div className="text-center py-16 bg-gray-50 rounded-xl border border-gray-200">
             <div className="text-6xl mb-4">💬</div>
-            <p className="text-gray-500 font-semibold">No comments yet</p>
+            <p className="text-gray-500 font-semibold">
+              {sort === 'holders' ? 'No comments from holders yet' : 'No comments yet'}
+            </p>
             <p className="text-sm text-gray-400 mt-2">Be the first to share your thoughts!</p>
           </div>
         ) : (
           <AnimatePresence>
-            {comments
-              .sort((a, b) => b.timestamp - a.timestamp)
-              .map((comment, idx) => (
-                <motion.div
-                  key={comment.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, y: -20 }}
-                  transition={{ delay: idx * 0.05 }}
-                  className={`p-4 rounded-xl border-2 ${
-                    comment.side === 'yes'
-                      ? 'bg-green-50 border-green-200'
-                      : comment.side === 'no'
-                      ? 'bg-red-50 border-red-200'
-                      : 'bg-white border-gray-200'
-                  }`}
-                >
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex items-center gap-3">
-                      <div className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold text-white ${
-                        comment.side === 'yes'
-                          ? 'bg-green-500'
-                          : comment.side === 'no'
-                          ? 'bg-red-500'
-                          : 'bg-gray-400'
-                      }`}>
-                        {comment.user.slice(0, 2).toUpperCase()}
-                      </div>
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-bold text-gray-900">
-                            {comment.user.slice(0, 6)}...{comment.user.slice(-4)}
-                          </span>
-                          {comment.side && (
-                            <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${
-                              comment.side === 'yes'
-                                ? 'bg-green-100 text-green-700'
-                                : 'bg-red-100 text-red-700'
-                            }`}>
-                              {comment.side.toUpperCase()}
-                            </span>
-                          )}
-                        </div>
-                        <span className="text-xs text-gray-500">
-                          {new Date(comment.timestamp).toLocaleString()}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
-                  <p className="text-sm text-gray-700 mt-2 whitespace-pre-wrap">{comment.text}</p>
-                </motion.div>
-              ))}
+            {comments.map((comment, idx) => (
+              <motion.div
+                key={comment.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ delay: Math.min(idx, 10) * 0.05 }}
+              >
+                <CommentThread
+                  comment={comment}
+                  depth={0}
+                  repliesByParent={repliesByParent}
+                  positions={positions}
+                  account={account}
+                  busyId={busyId}
+                  onReply={submit}
+                  onVote={handleVote}
+                  onDelete={handleDeleteComment}
+                />
+              </motion.div>
+            ))}
           </AnimatePresence>
         )}
+        {hasNextPage && (
+          <button
+            onClick={() => void fetchNextPage()}
+            disabled={isFetchingNextPage}
+            className="w-full py-3 rounded-lg border border-gray-300 text-gray-700 text-sm font-semibold hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more comments'}
+          </button>
+        )}
       </div>
     </div>
   );
 }
-
-
-
-
@@ -1,5 +1,7 @@
 'use client';
 import { motion } from 'framer-motion';
+import { formatUnits } from 'viem';
+import type { CostBasisMethod, MarketPnl, PositionPnl } from '@/lib/pnl';
 
 interface PositionTabProps {
   isConnected: boolean;
@@ -7,6 +9,32 @@ interface PositionTabProps {
   noBalance: string;
   priceYes: number;
   priceNo: number;
+  pnl?: MarketPnl | null;
+  costMethod?: CostBasisMethod;
+  onCostMethodChange?: (method: CostBasisMethod) => void;
+}
+
+const usd = (value: bigint) => Number(formatUnits(value < 0n ? -value : value, 6)).toFixed(2);
+const signedUsd = (value: bigint) => `${value < 0n ? '-' : value > 0n ? '+' : ''}$${usd(value)}`;
+const pnlClass = (value: bigint) => (value > 0n ? 'text-green-700' : value < 0n ? 'text-red-700' : 'text-gray-700');
+
+function PnlRows({ position }: { position: PositionPnl }) {
+  return (
+    <>
+      <div className="flex justify-between">
+        <span className="font-semibold">Cost basis:</span>
+        <span className="font-bold">${usd(position.costBasisUsdc)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="font-semibold">Avg. entry:</span>
+        <span className="font-bold">${(Number(position.avgPriceE6) / 1e6).toFixed(4)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="font-semibold">Unrealized PnL:</span>
+        <span className={`font-bold ${pnlClass(position.unrealizedPnlUsdc)}`}>{signedUsd(position.unrealizedPnlUsdc)}</span>
+      </div>
+    </>
+  );
 }
 
 export function PositionTab({
@@ -15,6 +43,9 @@ export function PositionTab({
   noBalance,
   priceYes,
   priceNo,
+  pnl,
+  costMethod = 'average',
+  onCostMethodChange,
 }: PositionTabProps) {
   if (!isConnected) {
     return (
@@ -29,7 +60,7 @@ export function PositionTab({
     );
   }
 
-  if (parseFloat(yesBalance) === 0 && parseFloat(noBalance) === 0) {
+  if (parseFloat(yesBalance) === 0 && parseFloat(noBalance) === 0 && !pnl) {
     return (
       <div className="text-center py-16">
         <div className="text-6xl mb-4">📊</div>
@@ -58,11 +89,12 @@ export function PositionTab({
               </div>
             </div>
           </div>
-          <div className="mt-4 pt-4 border-t border-green-200 text-xs text-gray-600">
+          <div className="mt-4 pt-4 border-t border-green-200 text-xs text-gray-600 space-y-1">
             <div className="flex justify-between">
               <span className="font-semibold">Price per share:</span>
               <span className="font-bold">${priceYes.toFixed(4)}</span>
             </div>
+            {pnl && <PnlRows position={pnl.yes} />}
           </div>
         </motion.div>
       )}
@@ -85,14 +117,49 @@ export function PositionTab({
               </div>
             </div>
           </div>
-          <div className="mt-4 pt-4 border-t border-red-200 text-xs text-gray-600">
+          <div className="mt-4 pt-4 border-t border-red-200 text-xs text-gray-600 space-y-1">
             <div className="flex justify-between">
               <span className="font-semibold">Price per share:</span>
               <span className="font-bold">${priceNo.toFixed(4)}</span>
             </div>
+            {pnl && <PnlRows position={pnl.no} />}
           </div>
         </motion.div>
       )}
+      {pnl && (
+        <div className="p-4 bg-white rounded-2xl border border-gray-200 text-sm text-gray-600 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-gray-900">Profit &amp; loss</span>
+            {onCostMethodChange && (
+              <div className="inline-flex rounded-lg border border-gray-200 p-0.5 text-xs font-semibold">
+                {(['average', 'fifo'] as const).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => onCostMethodChange(method)}
+                    className={`px-2 py-1 rounded-md ${
+                      costMethod === method ? 'bg-[#14B8A6] text-white' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {method === 'average' ? 'Avg. cost' : 'FIFO'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex justify-between">
+            <span>Unrealized</span>
+            <span className={`font-bold ${pnlClass(pnl.unrealizedPnlUsdc)}`}>{signedUsd(pnl.unrealizedPnlUsdc)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Realized</span>
+            <span className={`font-bold ${pnlClass(pnl.realizedPnlUsdc)}`}>{signedUsd(pnl.realizedPnlUsdc)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Fees paid</span>
+            <span className="font-bold text-gray-900">${usd(pnl.feesPaidUsdc)}</span>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
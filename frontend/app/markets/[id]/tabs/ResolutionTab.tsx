@@ -1,11 +1,16 @@
 'use client';
 import { formatUnits, keccak256, stringToBytes } from 'viem';
+import type { MarketSettlement } from '@/lib/useResolution';
 
 interface ResolutionTabProps {
   resolution: any;
+  settlement?: MarketSettlement | null;
 }
 
-export function ResolutionTab({ resolution }: ResolutionTabProps) {
+const formatUsd8 = (value: bigint) =>
+  Number(formatUnits(value, 8)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function ResolutionTab({ resolution, settlement }: ResolutionTabProps) {
   if (!resolution || !resolution.expiryTimestamp || resolution.expiryTimestamp === 0n) {
     return (
       <div className="p-4 sm:p-6 bg-gray-50 rounded-xl">
@@ -28,6 +33,14 @@ export function ResolutionTab({ resolution }: ResolutionTabProps) {
           <p className="text-xs sm:text-sm text-gray-700">
             Winner: <span className="font-bold">{resolution.yesWins ? 'YES' : 'NO'}</span>
           </p>
+          {settlement?.settlementPrice != null && (
+            <p className="text-xs sm:text-sm text-gray-700 mt-1">
+              Settled at <span className="font-bold">${formatUsd8(settlement.settlementPrice)}</span>
+              {' vs target '}
+              <span className="font-bold">${formatUsd8(settlement.targetValue)}</span>
+              {` (${settlement.comparison})`}
+            </p>
+          )}
         </div>
       ) : (
         <div className="p-4 sm:p-6 bg-gradient-to-br from-[#14B8A6]/5 to-[#14B8A6]/10 rounded-xl border border-[#14B8A6]/20">
@@ -1,5 +1,6 @@
 'use client';
 import { motion } from 'framer-motion';
+import { formatUnits } from 'viem';
 import type { TransactionRow } from '@/lib/marketTransformers';
 
 interface TransactionsTabProps {
@@ -64,6 +65,11 @@ export function TransactionsTab({ transactions, loading }: TransactionsTabProps)
             <div className="text-xs text-gray-500">
               Price: ${tx.price}
             </div>
+            {tx.fee && tx.fee !== '0' && (
+              <div className="text-xs text-gray-500">
+                Fees: ${Number(formatUnits(BigInt(tx.fee), 6)).toFixed(2)}
+              </div>
+            )}
           </div>
           <a
             href={`https://testnet.bscscan.com/tx/${tx.txHash}`}
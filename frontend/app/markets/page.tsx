@@ -7,13 +7,14 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { SearchIcon, SlidersHorizontalIcon, XIcon } from 'lucide-react';
 import Header from '@/components/Header';
 import { Badge, Button, Card, CardContent, Input } from '@/components/ui';
-import { getMarketCount, getMarket, getPriceYes, getMarketResolution, getMarketState } from '@/lib/hooks';
 import { formatUnits } from 'viem';
 import { usePublicClient, useReadContract } from 'wagmi';
 import { addresses } from '@/lib/contracts';
 import { coreAbi, usdcAbi } from '@/lib/abis';
 import { useQuery } from '@tanstack/react-query';
 import { fetchSubgraph } from '@/lib/subgraphClient';
+import { MARKET_CATEGORIES, matchesCategory } from '@/lib/marketMetadata';
+import { useMarketsMetadata } from '@/lib/hooks/useMarketMetadata';
 
 // Helper function to format price in cents
 const formatPriceInCents = (price: number): string => {
@@ -140,11 +141,46 @@ function MarketCountdown({ expiryTimestamp }: { expiryTimestamp: bigint }) {
   );
 }
 
+interface SubgraphMarket {
+  id: string;
+  question: string;
+  expiryTimestamp: string;
+  oracleType: string;
+  isResolved: boolean;
+  yesWins: boolean | null;
+  qYes: string;
+  qNo: string;
+  usdcVault: string;
+  lastPriceE6: string;
+  priceChange24h: string;
+  lastTradeAt: string | null;
+}
+
+const MARKETS_QUERY = /* GraphQL */ `
+  query MarketsList {
+    markets(first: 1000, orderBy: createdAt, orderDirection: asc) {
+      id
+      question
+      expiryTimestamp
+      oracleType
+      isResolved
+      yesWins
+      qYes
+      qNo
+      usdcVault
+      lastPriceE6
+      priceChange24h
+      lastTradeAt
+    }
+  }
+`;
+
 interface MarketCard {
   id: number;
   question: string;
   yesPrice: number;
   noPrice: number;
+  priceChange24h: number;
   volume: number;
   yesPercent: number;
   noPercent: number;
@@ -169,6 +205,7 @@ export default function MarketsPage() {
   const [minLiquidity, setMinLiquidity] = useState('');
   const [oracleFilter, setOracleFilter] = useState<'all' | 'manual' | 'chainlink'>('all');
   const publicClient = usePublicClient();
+  const { data: metadataById = {} } = useMarketsMetadata();
 
   useEffect(() => {
     loadMarkets();
@@ -183,42 +220,31 @@ export default function MarketsPage() {
 
   const loadMarkets = async () => {
     try {
-      const count = await getMarketCount();
-      const countNum = Number(count);
-      setMarketCount(countNum);
-      
-      // Create array of market IDs
-      const marketIds = Array.from({ length: countNum }, (_, i) => i + 1);
-      
-      // Load all markets in parallel
-      const marketPromises = marketIds.map(async (i) => {
+      const data = await fetchSubgraph<{ markets: SubgraphMarket[] }>(MARKETS_QUERY, {});
+      const subgraphMarkets = data.markets ?? [];
+      setMarketCount(subgraphMarkets.length);
+
+      const marketCards = subgraphMarkets.map((market) => {
         try {
-          // Parallelize the calls for each market (market data, prices, and resolution)
-          const [market, priceYes, resolution, state] = await Promise.all([
-            getMarket(BigInt(i)),
-            getPriceYes(BigInt(i)),
-            getMarketResolution(BigInt(i)),
-            getMarketState(BigInt(i)),
-          ]);
-          
-          if (!market.exists) return null;
+          const id = Number(market.id);
 
           // Determine status based on resolution and expiry
           const now = Math.floor(Date.now() / 1000);
-          const expiryTimestamp = resolution.expiryTimestamp || 0n;
+          const expiryTimestamp = BigInt(market.expiryTimestamp);
           const isExpired = expiryTimestamp > 0n && Number(expiryTimestamp) < now;
 
           let status: 'LIVE TRADING' | 'EXPIRED' | 'RESOLVED' = 'LIVE TRADING';
-          if (resolution.isResolved) {
+          if (market.isResolved) {
             status = 'RESOLVED';
           } else if (isExpired) {
             // Market has expired but not yet resolved
             status = 'EXPIRED';
           }
 
-          const qYes = Number(formatUnits(state.qYes, 18));
-          const qNo = Number(formatUnits(state.qNo, 18));
-          const totalPairs = Number(formatUnits(state.vault, 6));
+          const vault = BigInt(market.usdcVault);
+          const qYes = Number(formatUnits(BigInt(market.qYes), 18));
+          const qNo = Number(formatUnits(BigInt(market.qNo), 18));
+          const totalPairs = Number(formatUnits(vault, 6));
           const totalShares = qYes + qNo;
 
           let yesPercent = 50;
@@ -228,34 +254,35 @@ export default function MarketsPage() {
             noPercent = Math.round((qNo / totalShares) * 100);
           }
 
-          const yesPriceNum = parseFloat(priceYes);
+          const yesPriceNum = Number(market.lastPriceE6) / 1e6;
           const yesPriceClean = Number.isFinite(yesPriceNum) ? yesPriceNum : 0;
           const noPriceClean = Number.isFinite(yesPriceNum) ? Math.max(0, 1 - yesPriceNum) : 0;
+          // priceChange24h is only recomputed on trades; with none in the last day the price hasn't moved
+          const tradedToday = market.lastTradeAt !== null && Number(market.lastTradeAt) > now - 86_400;
 
           return {
-            id: i,
-            question: typeof market.question === 'string' ? market.question : String(market.question ?? 'Untitled Market'),
+            id,
+            question: market.question || 'Untitled Market',
             yesPrice: yesPriceClean,
             noPrice: noPriceClean,
+            priceChange24h: tradedToday ? Number(market.priceChange24h) / 1e6 : 0,
             volume: totalPairs,
             yesPercent,
             noPercent,
             status,
-            totalPairsUSDC: state.vault,
-            expiryTimestamp: resolution.expiryTimestamp || 0n,
-            oracleType: resolution.oracleType || 0,
-            isResolved: resolution.isResolved || false,
-            yesWins: resolution.yesWins,
+            totalPairsUSDC: vault,
+            expiryTimestamp,
+            oracleType: market.oracleType === 'chainlinkFeed' ? 1 : 0,
+            isResolved: market.isResolved,
+            yesWins: market.yesWins ?? undefined,
           } as MarketCard;
         } catch (error) {
-          console.error(`Error loading market ${i}:`, error);
+          console.error(`Error loading market ${market.id}:`, error);
           return null;
         }
       });
       
-      // Wait for all markets to load and filter out nulls
-      const marketResults = await Promise.all(marketPromises);
-      const marketArray = marketResults.filter((market): market is MarketCard => market !== null);
+      const marketArray = marketCards.filter((market): market is MarketCard => market !== null);
       
       setMarkets(marketArray);
     } catch (error) {
@@ -266,8 +293,14 @@ export default function MarketsPage() {
   };
 
   const filteredMarkets = markets.filter(market => {
-    if (searchTerm && !market.question.toLowerCase().includes(searchTerm.toLowerCase())) {
-      return false;
+    const metadata = metadataById[String(market.id)];
+
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      const matchesSearch =
+        market.question.toLowerCase().includes(term) ||
+        (metadata?.tags ?? []).some(tag => tag.includes(term));
+      if (!matchesSearch) return false;
     }
 
     if (activeStatusTab) {
@@ -286,19 +319,7 @@ export default function MarketsPage() {
       }
     }
 
-    if (activeCategory !== 'All') {
-      const categoryLower = activeCategory.toLowerCase();
-      const questionLower = market.question.toLowerCase();
-
-      if (categoryLower === 'crypto') {
-        const cryptoKeywords = ['btc', 'bitcoin', 'eth', 'ethereum', 'crypto', 'sol', 'solana', 'xrp', 'doge', 'dogecoin', 'bnb', 'matic'];
-        if (!cryptoKeywords.some(keyword => questionLower.includes(keyword))) {
-          return false;
-        }
-      } else if (!questionLower.includes(categoryLower)) {
-        return false;
-      }
-    }
+    if (!matchesCategory(activeCategory, market.question, metadata)) return false;
 
     if (!showResolved && market.status === 'RESOLVED') return false;
     if (!showExpired && market.status === 'EXPIRED') return false;
@@ -387,7 +408,7 @@ export default function MarketsPage() {
     refetchInterval: 120_000,
   });
 
-  const categories = ['All', 'Crypto', 'Bitcoin', 'Ethereum', 'Politics', 'Sports', 'Tech', 'Finance'];
+  const categories = ['All', ...MARKET_CATEGORIES];
 
   const getMarketLogo = (question?: string | null): string => {
     const normalized = typeof question === 'string' ? question : question != null ? String(question) : '';
@@ -750,7 +771,7 @@ export default function MarketsPage() {
                             <div className="flex items-center gap-3 sm:gap-4 mb-2">
                               <div className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 bg-white rounded-full flex items-center justify-center flex-shrink-0 border-2 border-gray-200 shadow-sm overflow-hidden">
                                 <Image
-                                  src={getMarketLogo(market.question)}
+                                  src={metadataById[String(market.id)]?.imageUrl ?? getMarketLogo(market.question)}
                                   alt={market.question}
                                   width={64}
                                   height={64}
@@ -783,6 +804,14 @@ export default function MarketsPage() {
                               >
                                 {market.status}
                               </Badge>
+                              {metadataById[String(market.id)] && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-[10px] px-2 py-0.5 bg-purple-50 text-purple-700 border-purple-200"
+                                >
+                                  {metadataById[String(market.id)].category}
+                                </Badge>
+                              )}
                               {market.oracleType > 0 && (
                                 <Badge 
                                   variant="outline"
@@ -812,6 +841,11 @@ export default function MarketsPage() {
                               <div className="flex items-center justify-center gap-1 sm:gap-2 flex-wrap">
                                 <div className="text-sm sm:text-base font-bold text-green-700">Yes</div>
                                 <div className="text-[10px] sm:text-xs font-bold text-gray-600">{formatPriceInCents(market.yesPrice)}</div>
+                                {market.priceChange24h !== 0 && (
+                                  <div className={`text-[10px] sm:text-xs font-semibold ${market.priceChange24h > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {market.priceChange24h > 0 ? '+' : '-'}{formatPriceInCents(Math.abs(market.priceChange24h))}
+                                  </div>
+                                )}
                               </div>
                             </button>
                             <button className="bg-red-50 hover:bg-red-100 rounded-lg py-3 sm:py-4 px-3 sm:px-4 text-center transition-colors">
@@ -1,16 +1,303 @@
 'use client';
 
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAccount } from 'wagmi';
+import { formatUnits } from 'viem';
+import Header from '@/components/Header';
+import { usePortfolio } from '@/lib/hooks/usePortfolio';
+import type { CostBasisMethod } from '@/lib/pnl';
+import type { HistoryFormat } from '@/lib/historyExport';
+import { formatPrice } from '@/lib/tradingUtils';
+import {
+  portfolioTotals,
+  sortPortfolioRows,
+  type PortfolioRow,
+  type PortfolioSortKey,
+} from '@/lib/portfolio';
+
+const usd = (value: bigint) =>
+  Number(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const signedUsd = (value: bigint) => `${value < 0n ? '-' : value > 0n ? '+' : ''}$${usd(value < 0n ? -value : value)}`;
+
+const pnlClass = (value: bigint) => (value > 0n ? 'text-green-600' : value < 0n ? 'text-red-600' : 'text-gray-600');
+
+const shares = (value: bigint) => Number(formatUnits(value, 18)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const columns: Array<{ key: PortfolioSortKey; label: string }> = [
+  { key: 'market', label: 'Market' },
+  { key: 'valueUsdc', label: 'Value' },
+  { key: 'costBasisUsdc', label: 'Cost basis' },
+  { key: 'unrealizedPnlUsdc', label: 'Unrealized' },
+  { key: 'realizedPnlUsdc', label: 'Realized' },
+  { key: 'lpShares', label: 'LP' },
+];
+
+// Something is waiting on /claim: a winning balance or LP proceeds
+function hasClaimable(row: PortfolioRow) {
+  const winning = row.isResolved && (row.yesWins ? row.yesBalance > 0n : row.noBalance > 0n);
+  return winning || row.pendingLpFees > 0n || row.pendingLpResidual > 0n;
+}
+
 export default function PortfolioPage() {
+  const { address, isConnected } = useAccount();
+  const [costMethod, setCostMethod] = useState<CostBasisMethod>('average');
+  const { rows, isLoading, error } = usePortfolio(address, costMethod);
+  const [sortKey, setSortKey] = useState<PortfolioSortKey>('valueUsdc');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [showClosed, setShowClosed] = useState(false);
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exportFormat, setExportFormat] = useState<HistoryFormat>('csv');
+
+  const totals = useMemo(() => portfolioTotals(rows), [rows]);
+  const visibleRows = useMemo(
+    () => sortPortfolioRows(showClosed ? rows : rows.filter(row => row.isOpen), sortKey, sortDirection),
+    [rows, showClosed, sortKey, sortDirection],
+  );
+
+  const exportHref = useMemo(() => {
+    if (!address) return null;
+    const params = new URLSearchParams({ user: address, format: exportFormat, method: costMethod });
+    if (exportFrom) params.set('from', exportFrom);
+    if (exportTo) params.set('to', exportTo);
+    return `/api/export?${params.toString()}`;
+  }, [address, exportFormat, costMethod, exportFrom, exportTo]);
+
+  const toggleSort = (key: PortfolioSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'market' ? 'asc' : 'desc');
+    }
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen bg-[#F8F6FB]">
+        <Header />
+        <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-12 sm:py-20">
+          <div className="text-center bg-white rounded-2xl p-8 sm:p-12 shadow-xl border border-gray-100 max-w-2xl mx-auto">
+            <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-3 sm:mb-4">Connect Your Wallet</h2>
+            <p className="text-sm sm:text-base md:text-lg text-gray-600">Please connect your wallet to view your positions.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = [
+    { label: 'Position value', value: `$${usd(totals.valueUsdc)}`, className: 'text-gray-900' },
+    { label: 'Cost basis', value: `$${usd(totals.costBasisUsdc)}`, className: 'text-gray-900' },
+    { label: 'Unrealized PnL', value: signedUsd(totals.unrealizedPnlUsdc), className: pnlClass(totals.unrealizedPnlUsdc) },
+    { label: 'Realized PnL', value: signedUsd(totals.realizedPnlUsdc), className: pnlClass(totals.realizedPnlUsdc) },
+    { label: 'LP shares', value: `$${usd(totals.lpShares)}`, className: 'text-gray-900' },
+    {
+      label: 'Pending LP fees + residual',
+      value: `$${usd(totals.pendingLpFees + totals.pendingLpResidual)}`,
+      className: 'text-[#14B8A6]',
+    },
+  ];
+
   return (
-    <div className="min-h-screen bg-slate-100 py-8">
-      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
-        <h1 className="text-3xl font-bold text-gray-900 mb-8">Your Portfolio</h1>
-        <div className="grid gap-6">
-          <p className="text-gray-600">Your positions will appear here</p>
+    <div className="min-h-screen bg-[#F8F6FB]">
+      <Header />
+      <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6 sm:mb-8">
+          <div>
+            <h1 className="text-3xl sm:text-4xl md:text-5xl font-black text-gray-900 mb-2 tracking-tight">Your Portfolio</h1>
+            <p className="text-sm sm:text-base text-gray-600">
+              Open positions are marked at the current spot price; resolved markets at their payout.
+            </p>
+          </div>
+          <Link
+            href="/claim"
+            className="inline-flex items-center justify-center px-6 py-3 bg-[#2DD4BF] hover:bg-[#14B8A6] text-white font-bold rounded-lg shadow-md transition-all"
+          >
+            Go to Claim
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-3 gap-4 mb-6 sm:mb-8">
+          {summary.map(card => (
+            <div key={card.label} className="bg-white rounded-xl p-4 sm:p-6 shadow-lg border border-gray-100">
+              <h3 className="text-xs sm:text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">{card.label}</h3>
+              <div className={`text-xl sm:text-2xl md:text-3xl font-black ${card.className}`}>{card.value}</div>
+            </div>
+          ))}
         </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <div className="inline-flex rounded-lg border border-gray-200 bg-white p-1 text-sm font-semibold">
+            {(['average', 'fifo'] as const).map(method => (
+              <button
+                key={method}
+                onClick={() => setCostMethod(method)}
+                className={`px-3 py-1 rounded-md transition-all ${
+                  costMethod === method ? 'bg-[#14B8A6] text-white' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {method === 'average' ? 'Average cost' : 'FIFO'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showClosed}
+              onChange={event => setShowClosed(event.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show closed positions
+          </label>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-20">
+            <div className="inline-block w-12 h-12 border-4 border-[#14B8A6] border-t-transparent rounded-full animate-spin" />
+            <p className="mt-4 text-gray-600 font-semibold">Loading positions...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 text-red-700 rounded-xl p-6 text-sm">
+            Failed to load positions: {error instanceof Error ? error.message : 'Unknown error'}
+          </div>
+        ) : visibleRows.length === 0 ? (
+          <div className="bg-white rounded-2xl p-12 shadow-lg border border-gray-100 text-center">
+            <p className="text-2xl font-bold text-gray-900 mb-3">No positions yet</p>
+            <p className="text-gray-600 mb-6">Trade or provide liquidity in a market to see it here.</p>
+            <Link
+              href="/markets"
+              className="inline-flex items-center justify-center px-8 py-3 bg-gradient-to-r from-[#14B8A6] to-[#0D9488] text-white font-bold rounded-lg hover:shadow-lg transition-all"
+            >
+              Explore Markets
+            </Link>
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg border border-gray-100 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-xs uppercase tracking-wider text-gray-500">
+                <tr>
+                  {columns.map(column => (
+                    <th
+                      key={column.key}
+                      className={`px-4 py-3 font-semibold ${column.key === 'market' ? 'text-left' : 'text-right'}`}
+                    >
+                      <button onClick={() => toggleSort(column.key)} className="hover:text-gray-900">
+                        {column.label}
+                        {sortKey === column.key ? (sortDirection === 'asc' ? ' ▲' : ' ▼') : ''}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visibleRows.map(row => (
+                  <tr key={row.marketId} className="align-top">
+                    <td className="px-4 py-3 max-w-md">
+                      <Link href={`/markets/${row.marketId}`} className="font-semibold text-gray-900 hover:text-[#14B8A6] line-clamp-2">
+                        {row.question || `Market #${row.marketId}`}
+                      </Link>
+                      <div className="mt-1 flex flex-wrap gap-2 text-xs text-gray-500">
+                        {row.yesBalance > 0n && <span>YES {shares(row.yesBalance)}</span>}
+                        {row.noBalance > 0n && <span>NO {shares(row.noBalance)}</span>}
+                        <span>
+                          {row.isResolved
+                            ? `Resolved ${row.yesWins ? 'YES' : 'NO'}`
+                            : `YES ${formatPrice(Number(formatUnits(row.priceYesE18, 18)))}`}
+                        </span>
+                        {hasClaimable(row) && (
+                          <Link href="/claim" className="font-semibold text-[#14B8A6] hover:text-[#0D9488]">
+                            Claim →
+                          </Link>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold text-gray-900">${usd(row.valueUsdc)}</td>
+                    <td className="px-4 py-3 text-right text-gray-700">${usd(row.costBasisUsdc)}</td>
+                    <td className={`px-4 py-3 text-right font-semibold ${pnlClass(row.unrealizedPnlUsdc)}`}>
+                      {signedUsd(row.unrealizedPnlUsdc)}
+                    </td>
+                    <td className={`px-4 py-3 text-right font-semibold ${pnlClass(row.realizedPnlUsdc)}`}>
+                      {signedUsd(row.realizedPnlUsdc)}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700">
+                      {row.lpShares > 0n ? (
+                        <>
+                          <div>${usd(row.lpShares)}</div>
+                          <div className="text-xs text-gray-500">
+                            fees ${usd(row.pendingLpFees)} · residual ${usd(row.pendingLpResidual)}
+                          </div>
+                        </>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 font-semibold text-gray-900">
+                <tr>
+                  <td className="px-4 py-3">Total</td>
+                  <td className="px-4 py-3 text-right">${usd(totals.valueUsdc)}</td>
+                  <td className="px-4 py-3 text-right">${usd(totals.costBasisUsdc)}</td>
+                  <td className={`px-4 py-3 text-right ${pnlClass(totals.unrealizedPnlUsdc)}`}>{signedUsd(totals.unrealizedPnlUsdc)}</td>
+                  <td className={`px-4 py-3 text-right ${pnlClass(totals.realizedPnlUsdc)}`}>{signedUsd(totals.realizedPnlUsdc)}</td>
+                  <td className="px-4 py-3 text-right">${usd(totals.lpShares)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+        {exportHref && (
+          <div className="mt-6 sm:mt-8 bg-white rounded-xl p-4 sm:p-6 shadow-lg border border-gray-100">
+            <h2 className="text-lg font-bold text-gray-900 mb-1">Export history</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Buys, sells, redemptions and LP activity with realized PnL per disposal ({costMethod === 'average' ? 'average cost' : 'FIFO'}).
+            </p>
+            <div className="flex flex-wrap items-end gap-3 text-sm">
+              <label className="flex flex-col gap-1 text-gray-600">
+                From
+                <input
+                  type="date"
+                  value={exportFrom}
+                  onChange={event => setExportFrom(event.target.value)}
+                  className="rounded-lg border border-gray-200 px-3 py-2 text-gray-900"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-600">
+                To
+                <input
+                  type="date"
+                  value={exportTo}
+                  onChange={event => setExportTo(event.target.value)}
+                  className="rounded-lg border border-gray-200 px-3 py-2 text-gray-900"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-gray-600">
+                Format
+                <select
+                  value={exportFormat}
+                  onChange={event => setExportFormat(event.target.value as HistoryFormat)}
+                  className="rounded-lg border border-gray-200 px-3 py-2 text-gray-900"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                </select>
+              </label>
+              <a
+                href={exportHref}
+                download
+                className="inline-flex items-center justify-center px-6 py-2 bg-[#14B8A6] hover:bg-[#0D9488] text-white font-bold rounded-lg transition-all"
+              >
+                Download
+              </a>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
 }
-
-
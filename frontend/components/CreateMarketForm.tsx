@@ -12,18 +12,44 @@ import {
 import { parseUnits, keccak256, stringToBytes, decodeEventLog } from 'viem';
 import { addresses } from '@/lib/contracts';
 import { coreAbi, usdcAbi } from '@/lib/abis';
+import { MARKET_CATEGORIES, parseMarketMetadataFields, parseTags, type MarketCategory } from '@/lib/marketMetadata';
+import { usePublishMarketMetadata } from '@/lib/hooks/useMarketMetadata';
 
 interface CreateMarketFormProps {
   standalone?: boolean;
 }
 
+function marketIdFromReceipt(logs: readonly { data: `0x${string}`; topics: readonly `0x${string}`[] }[]) {
+  for (const log of logs) {
+    try {
+      const decoded = decodeEventLog({
+        abi: coreAbi,
+        data: log.data,
+        topics: log.topics as [`0x${string}`, ...`0x${string}`[]],
+      }) as { eventName: string; args: Record<string, unknown> };
+      if (decoded.eventName === 'MarketCreated' && decoded.args?.id !== undefined) {
+        return Number(decoded.args.id);
+      }
+    } catch {
+      // not a core event
+    }
+  }
+  return null;
+}
+
 export default function CreateMarketForm({ standalone = false }: CreateMarketFormProps = { standalone: false }) {
   const { address } = useAccount();
   const publicClient = usePublicClient();
 
   const [question, setQuestion] = useState('');
   const [description, setDescription] = useState('');
-  const [category, setCategory] = useState('Crypto');
+  const [category, setCategory] = useState<MarketCategory>('Crypto');
+  const [tags, setTags] = useState('');
+  const [resolutionSource, setResolutionSource] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  // Holds the success reload until the creator has signed the market details
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
+  const publishMetadata = usePublishMarketMetadata();
   const [resolutionDate, setResolutionDate] = useState('');
   const [initUsdc, setInitUsdc] = useState('1000');
 
@@ -92,11 +118,11 @@ useEffect(() => {
   }, [address, currentAllowance, initUsdc]);
 
   useEffect(() => {
-    if (isSuccess && !isApprovingState) {
+    if (isSuccess && !isApprovingState && !isSavingDetails) {
       alert('✅ Market created successfully!');
       window.location.reload();
     }
-  }, [isSuccess, isApprovingState]);
+  }, [isSuccess, isApprovingState, isSavingDetails]);
 
   const handleApprove = async () => {
     if (!address || !addresses.core) return;
@@ -131,6 +157,14 @@ useEffect(() => {
     if (!resolutionDate) return alert('Select resolution date');
     if (needsApproval) return alert('Approve USDC first');
 
+    // Check the details before creating the market; they're signed once it exists
+    let details;
+    try {
+      details = parseMarketMetadataFields({ description, category, tags: parseTags(tags), resolutionSource, imageUrl });
+    } catch (err: any) {
+      return alert(err.message);
+    }
+
     const initUsdcE6 = parseUnits(initUsdc, 6);
     const expiry = Math.floor(new Date(resolutionDate).getTime() / 1000);
     const targetValueBigInt = oracleType === 'chainlink' && targetValue ? parseUnits(targetValue, 8) : 0n;
@@ -150,6 +184,7 @@ useEffect(() => {
       ? keccak256(stringToBytes(priceFeedSymbol))
       : '0x0000000000000000000000000000000000000000000000000000000000000000') as `0x${string}`;
 
+    setIsSavingDetails(true);
     try {
       console.log('Submitting createMarket with args:', {
         question,
@@ -186,69 +221,51 @@ useEffect(() => {
 
       if (publicClient) {
         const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
-        
-        // Get block timestamp to store createdAt immediately
-        if (receipt.blockNumber) {
+        const marketId = marketIdFromReceipt(receipt.logs);
+
+        if (marketId !== null) {
+          // Publish the details first: nothing below should be able to skip the signature
+          try {
+            await publishMetadata(String(marketId), details);
+          } catch (error: any) {
+            console.warn('[CreateMarket] Failed to publish market details:', error);
+            alert(
+              `Market created, but its details were not saved: ${error?.message || 'Unknown error'}. ` +
+                'You can add them from the market page.',
+            );
+          }
+
+          // Store the block timestamp for immediate access when navigating to the market page
           try {
             const block = await publicClient.getBlock({ blockNumber: receipt.blockNumber });
-            if (block?.timestamp) {
-              // Extract market ID from MarketCreated event logs
-              const marketCreatedLog = receipt.logs.find((log: any) => {
-                try {
-                  const decoded = decodeEventLog({
-                    abi: coreAbi,
-                    data: log.data,
-                    topics: log.topics,
-                  }) as any;
-                  return decoded.eventName === 'MarketCreated';
-                } catch {
-                  return false;
-                }
-              });
-              
-              if (marketCreatedLog) {
-                try {
-                  const decoded = decodeEventLog({
-                    abi: coreAbi,
-                    data: marketCreatedLog.data,
-                    topics: marketCreatedLog.topics,
-                  }) as { eventName: string; args: Record<string, unknown> };
-                  
-                  if (decoded.eventName === 'MarketCreated' && decoded.args?.id) {
-                    const marketId = Number(decoded.args.id);
-                    const createdAtTimestamp = Number(block.timestamp);
-                    
-                    // Store in localStorage for immediate access when navigating to market page
-                    const storedData = {
-                      marketId,
-                      createdAt: createdAtTimestamp,
-                      txHash: receipt.transactionHash,
-                    };
-                    
-                    const existingMarkets = JSON.parse(
-                      localStorage.getItem('newlyCreatedMarkets') || '[]'
-                    );
-                    const filtered = existingMarkets.filter((m: any) => m.marketId !== marketId);
-                    localStorage.setItem(
-                      'newlyCreatedMarkets',
-                      JSON.stringify([...filtered, storedData])
-                    );
-                    
-                    console.log('[CreateMarket] Stored market creation timestamp:', storedData);
-                  }
-                } catch (error) {
-                  console.warn('[CreateMarket] Failed to decode MarketCreated event:', error);
-                }
-              }
-            }
+            const storedData = {
+              marketId,
+              createdAt: Number(block.timestamp),
+              txHash: receipt.transactionHash,
+            };
+
+            const existingMarkets = JSON.parse(
+              localStorage.getItem('newlyCreatedMarkets') || '[]'
+            );
+            const filtered = existingMarkets.filter((m: any) => m.marketId !== marketId);
+            localStorage.setItem(
+              'newlyCreatedMarkets',
+              JSON.stringify([...filtered, storedData])
+            );
+
+            console.log('[CreateMarket] Stored market creation timestamp:', storedData);
           } catch (error) {
             console.warn('[CreateMarket] Failed to get block timestamp:', error);
           }
+        } else {
+          console.warn('[CreateMarket] No MarketCreated event in receipt', receipt.transactionHash);
         }
       }
     } catch (err: any) {
       console.error('createMarket error', err);
       alert(`Failed: ${err.message || 'Unknown error'}`);
+    } finally {
+      setIsSavingDetails(false);
     }
   };
 
@@ -277,14 +294,53 @@ useEffect(() => {
 
       <div>
         <label className="font-bold block mb-2">Category</label>
-        <input
+        <select
           value={category}
-          onChange={(e) => setCategory(e.target.value)}
-          placeholder="Crypto"
+          onChange={(e) => setCategory(e.target.value as MarketCategory)}
+          className="w-full border rounded-lg px-4 py-3"
+        >
+          {MARKET_CATEGORIES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="font-bold block mb-2">Tags</label>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="e.g. bitcoin, halving"
+          className="w-full border rounded-lg px-4 py-3"
+        />
+        <p className="text-xs text-gray-600 mt-1">Comma-separated, up to 5.</p>
+      </div>
+
+      <div>
+        <label className="font-bold block mb-2">Resolution Source</label>
+        <input
+          type="url"
+          value={resolutionSource}
+          onChange={(e) => setResolutionSource(e.target.value)}
+          placeholder="https://..."
           className="w-full border rounded-lg px-4 py-3"
         />
       </div>
 
+      <div>
+        <label className="font-bold block mb-2">Image URL</label>
+        <input
+          type="url"
+          value={imageUrl}
+          onChange={(e) => setImageUrl(e.target.value)}
+          placeholder="https://..."
+          className="w-full border rounded-lg px-4 py-3"
+        />
+        <p className="text-xs text-gray-600 mt-1">
+          Description, category, tags, source and image are signed by your wallet after the market is created.
+        </p>
+      </div>
+
       <div>
         <label className="font-bold block mb-2">Resolution Date *</label>
         <input
@@ -443,10 +499,10 @@ useEffect(() => {
 
       <button
         type="submit"
-        disabled={isPending || isConfirming || needsApproval}
+        disabled={isPending || isConfirming || isSavingDetails || needsApproval}
         className="w-full bg-teal-500 hover:bg-teal-600 text-white rounded-lg py-3 font-semibold disabled:opacity-50"
       >
-        {isPending || isConfirming ? 'Creating...' : 'Create Market'}
+        {isPending || isConfirming ? 'Creating...' : isSavingDetails ? 'Saving details...' : 'Create Market'}
       </button>
     </form>
   );
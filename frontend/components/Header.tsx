@@ -88,6 +88,16 @@ export default function Header() {
                 Admin
               </Link>
             )}
+            <Link
+              href="/portfolio"
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
+                isActive('/portfolio')
+                  ? 'text-[#14B8A6] bg-[#14B8A6]/10'
+                  : 'text-gray-600 hover:text-[#14B8A6] hover:bg-gray-50'
+              }`}
+            >
+              Portfolio
+            </Link>
             <Link
               href="/claim"
               className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all ${
@@ -292,6 +302,17 @@ export default function Header() {
                   Admin
                 </Link>
               )}
+              <Link
+                href="/portfolio"
+                onClick={() => setIsMobileMenuOpen(false)}
+                className={`px-4 py-3 rounded-lg text-base font-semibold transition-all ${
+                  isActive('/portfolio')
+                    ? 'text-[#14B8A6] bg-[#14B8A6]/10'
+                    : 'text-gray-700 hover:text-[#14B8A6] hover:bg-gray-50'
+                }`}
+              >
+                Portfolio
+              </Link>
               <Link
                 href="/claim"
                 onClick={() => setIsMobileMenuOpen(false)}
@@ -6,19 +6,25 @@ import { addresses } from '@/lib/contracts';
 import { coreAbi, usdcAbi, positionTokenAbi } from '@/lib/abis';
 import { useToast } from '@/components/ui/toast';
 import { clamp, formatBalanceDisplay, toBigIntSafe } from '@/lib/tradingUtils';
-import { mul, div, exp2, log2, ln, costFunction, spotPriceYesE18, findSharesOut, simulateBuyChunk } from '@/lib/lmsrMath';
-
-const SCALE = 10n ** 18n;
-const USDC_TO_E18 = 10n ** 12n;
-const LN2 = 693147180559945309n;
-const LOG2_E = 1442695040888963407n;
-const TWO_OVER_LN2 = (2n * SCALE * SCALE) / LN2;
-const MAX_SEARCH_ITERATIONS = 60;
-const SLIPPAGE_BPS = 50n; // 0.50% slippage buffer
-const SAFETY_MARGIN_BPS = 9800n; // 98% of cap to stay under jump limit
-const MIN_USDC_OUT_E6 = 1_000n; // $0.001
+import {
+  DEFAULT_MAX_INSTANT_JUMP_E18,
+  MIN_USDC_OUT_E6,
+  SAFETY_MARGIN_BPS,
+  spotPriceYesE18,
+  simulateBuyChunk,
+  nextChunkUsdc,
+  simulateSellChunk,
+  usdcForSharesOut,
+  usdcToReachPrice,
+  maxUsdcBeforeJump,
+} from '@/lib/lmsrMath';
+import { TradePreview } from '@/components/trading/TradePreview';
+import { SplitOrderModal } from '@/components/trading/SplitOrderModal';
+import { useSplitOrder } from '@/lib/hooks/useSplitOrder';
+import { planSplitChunks } from '@/lib/splitOrders';
 
 const MAX_UINT256 = (1n << 256n) - 1n;
+const NO_JUMP_ROOM_MESSAGE = 'No room under the price jump cap for a buy right now';
 type PublicClientType = ReturnType<typeof usePublicClient>;
 type WriteContractAsyncFn = ReturnType<typeof useWriteContract>['writeContractAsync'];
 
@@ -99,6 +105,7 @@ export default function TradingCard({
   const [tradeMode, setTradeMode] = useState<'buy' | 'sell'>('buy');
   const [side, setSide] = useState<'yes' | 'no'>('yes');
   const [amount, setAmount] = useState('');
+  const [buyUnit, setBuyUnit] = useState<'usdc' | 'shares' | 'price'>('usdc');
   const [gasEstimate, setGasEstimate] = useState<bigint | null>(null);
   const [yesBalance, setYesBalance] = useState('0');
   const [noBalance, setNoBalance] = useState('0');
@@ -181,6 +188,9 @@ export default function TradingCard({
   const feeVaultBps = Number(isObject ? (contractData.feeVaultBps ?? 0) : (contractData?.[7] ?? 0));
   const feeLpBps = Number(isObject ? (contractData.feeLpBps ?? 0) : (contractData?.[8] ?? 0));
   const totalFeeBps = feeTreasuryBps + feeVaultBps + feeLpBps;
+  const maxUsdcPerTrade = BigInt(isObject ? contractData.maxUsdcPerTrade ?? 0n : contractData?.[15] ?? 0n);
+  const priceBandThreshold = BigInt(isObject ? contractData.priceBandThreshold ?? 0n : contractData?.[16] ?? 0n);
+  const marketMaxJumpE18 = BigInt(isObject ? contractData.maxJumpE18 ?? 0n : contractData?.[17] ?? 0n);
   const resolutionRaw = isObject ? contractData.resolution : contractData?.[12];
   const expiryTimestamp = useMemo(() => {
     if (!resolutionRaw) return 0n;
@@ -250,15 +260,48 @@ export default function TradingCard({
   });
   const pendingResidualValue = (pendingResidualResult.data as bigint | undefined) ?? 0n;
 
-  const maxJumpQuery = useReadContract({
+  // Global fallback for markets without their own jump cap; admin-settable, so re-read now and then
+  const { data: maxInstantJumpData } = useReadContract({
     address: addresses.core,
     abi: coreAbi,
-    functionName: 'maxUsdcBeforeJump',
-    args: [marketIdBI, side === 'yes'],
-    query: { enabled: marketId >= 0 },
+    functionName: 'maxInstantJumpE18',
+    args: [],
+    query: { staleTime: 5 * 60_000 },
   });
-  const maxJumpE6 = (maxJumpQuery.data as bigint | undefined) ?? 0n;
-  const refetchMaxJump = maxJumpQuery.refetch;
+  const maxInstantJumpE18 = (maxInstantJumpData as bigint | undefined) ?? DEFAULT_MAX_INSTANT_JUMP_E18;
+
+  // Same answer as core.maxUsdcBeforeJump, computed from state we already hold.
+  // null until the market state loads; 0 means the price is already at the cap.
+  const maxJumpE6 = useMemo(() => {
+    if (!contractData) return null;
+    return maxUsdcBeforeJump({
+      qYes,
+      qNo,
+      bE18,
+      usdcVault: vaultE6,
+      feeTreasuryBps,
+      feeVaultBps,
+      feeLpBps,
+      maxUsdcPerTrade,
+      priceBandThreshold,
+      maxJumpE18: marketMaxJumpE18,
+      maxInstantJumpE18,
+    }, side === 'yes');
+  }, [
+    contractData,
+    qYes,
+    qNo,
+    bE18,
+    vaultE6,
+    feeTreasuryBps,
+    feeVaultBps,
+    feeLpBps,
+    maxUsdcPerTrade,
+    priceBandThreshold,
+    marketMaxJumpE18,
+    maxInstantJumpE18,
+    side,
+  ]);
 
   const usdcBalQuery = useReadContract({
     address: addresses.usdc,
@@ -290,7 +333,6 @@ export default function TradingCard({
   const refetchAll = useCallback(async () => {
     await Promise.allSettled([
       refetchMarketState?.(),
-      refetchMaxJump?.(),
       lpSharesResult.refetch?.(),
       pendingFeesResult.refetch?.(),
       pendingResidualResult.refetch?.(),
@@ -300,7 +342,6 @@ export default function TradingCard({
     ]);
   }, [
     refetchMarketState,
-    refetchMaxJump,
     lpSharesResult,
     pendingFeesResult,
     pendingResidualResult,
@@ -309,6 +350,12 @@ export default function TradingCard({
     noBalQuery,
   ]);
 
+  const splitOrder = useSplitOrder({
+    marketId,
+    account: address as `0x${string}` | undefined,
+    onChunkConfirmed: refetchAll,
+  });
+
   useEffect(() => {
     if (usdcBal) {
       const raw = usdcBal as bigint;
@@ -432,8 +479,49 @@ export default function TradingCard({
   const usdcAllowanceValue = usdcAllowance as bigint | undefined;
   const tokenAllowanceValue = tokenAllowance as bigint | undefined;
 
+  // In shares mode the input is a share count and in price mode a target price
+  // in cents; either way the USDC to spend is solved for
+  const sharesMode = tradeMode === 'buy' && buyUnit === 'shares';
+  const priceMode = tradeMode === 'buy' && buyUnit === 'price';
+  const exactSharesQuote = useMemo(() => {
+    if (!sharesMode || !amount || parseFloat(amount) <= 0) return null;
+    try {
+      return usdcForSharesOut(
+        parseUnits(amount, 18),
+        qYes,
+        qNo,
+        bE18,
+        feeTreasuryBps,
+        feeVaultBps,
+        feeLpBps,
+        side === 'yes',
+      );
+    } catch {
+      return null;
+    }
+  }, [sharesMode, amount, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, side]);
+  const targetPriceQuote = useMemo(() => {
+    if (!priceMode || !amount || parseFloat(amount) <= 0) return null;
+    try {
+      return usdcToReachPrice(
+        parseUnits(amount, 16),
+        qYes,
+        qNo,
+        bE18,
+        feeTreasuryBps,
+        feeVaultBps,
+        feeLpBps,
+        side === 'yes',
+      );
+    } catch {
+      return null;
+    }
+  }, [priceMode, amount, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, side]);
+
   const amountBigInt = useMemo(() => {
     if (!amount || parseFloat(amount) <= 0) return 0n;
+    if (sharesMode) return exactSharesQuote?.usdcIn ?? 0n;
+    if (priceMode) return targetPriceQuote?.usdcIn ?? 0n;
     try {
       return tradeMode === 'buy'
         ? parseUnits(amount, 6)
@@ -441,12 +529,12 @@ export default function TradingCard({
     } catch {
       return 0n;
     }
-  }, [amount, tradeMode]);
+  }, [amount, tradeMode, sharesMode, exactSharesQuote, priceMode, targetPriceQuote]);
 
   const canBuy = tradeMode === 'buy' && amountBigInt > 0n && amountBigInt <= usdcBalanceRaw;
   const canSell = tradeMode === 'sell' && amountBigInt > 0n && amountBigInt <= (side === 'yes' ? yesBalanceRaw : noBalanceRaw);
 
-  const overJumpCap = tradeMode === 'buy' && maxJumpE6 > 0n && amountBigInt > maxJumpE6;
+  const overJumpCap = tradeMode === 'buy' && maxJumpE6 !== null && amountBigInt > maxJumpE6;
 
   const totalLpUsdc = BigInt(isObject ? contractData.totalLpUsdc ?? 0n : contractData?.[13] ?? 0n);
   const lpFeesUSDC = BigInt(isObject ? contractData.lpFeesUSDC ?? 0n : contractData?.[14] ?? 0n);
@@ -457,34 +545,20 @@ export default function TradingCard({
   const vaultBase = useMemo(() => parseFloat(formatUnits(vaultE6, 6)), [vaultE6]);
   const yesBase = useMemo(() => parseFloat(formatUnits(qYes, 18)), [qYes]);
   const noBase = useMemo(() => parseFloat(formatUnits(qNo, 18)), [qNo]);
-  const maxJumpDisplay = useMemo(() => Number(formatUnits(maxJumpE6, 6)), [maxJumpE6]);
+  const maxJumpDisplay = useMemo(() => Number(formatUnits(maxJumpE6 ?? 0n, 6)), [maxJumpE6]);
   const splitChunkDisplay = useMemo(
     () => (maxJumpDisplay > 0 ? maxJumpDisplay * 0.98 : 0),
     [maxJumpDisplay],
   );
   const splitPreview = useMemo(() => {
     if (pendingSplitAmount === 0n) return { chunk: 0n, count: 0 };
-    let safeChunk = maxJumpE6;
-    if (safeChunk > 0n) {
-      safeChunk = (safeChunk * SAFETY_MARGIN_BPS) / 10_000n;
-      if (safeChunk === 0n) safeChunk = maxJumpE6;
-    } else {
-      safeChunk = pendingSplitAmount;
-    }
-    if (safeChunk === 0n) safeChunk = pendingSplitAmount;
-    const count = Number((pendingSplitAmount + safeChunk - 1n) / safeChunk);
-    return { chunk: safeChunk, count };
-  }, [pendingSplitAmount, maxJumpE6]);
+    const plan = planSplitChunks(pendingSplitAmount, maxJumpE6, maxUsdcPerTrade);
+    return { chunk: plan[0] ?? 0n, count: plan.length };
+  }, [pendingSplitAmount, maxJumpE6, maxUsdcPerTrade]);
   const overCapPreview = useMemo(() => {
-    if (!(tradeMode === 'buy' && overJumpCap) || amountBigInt === 0n) return null;
-    let safeChunk = maxJumpE6;
-    if (safeChunk > 0n) {
-      safeChunk = (safeChunk * SAFETY_MARGIN_BPS) / 10_000n;
-      if (safeChunk === 0n) safeChunk = maxJumpE6;
-    } else {
-      safeChunk = amountBigInt;
-    }
-    if (safeChunk === 0n) safeChunk = amountBigInt;
+    if (!(tradeMode === 'buy' && overJumpCap) || amountBigInt === 0n || !maxJumpE6) return null;
+    let safeChunk = (maxJumpE6 * SAFETY_MARGIN_BPS) / 10_000n;
+    if (safeChunk === 0n) safeChunk = maxJumpE6;
     const chunkAmount = Number(formatUnits(safeChunk, 6)).toFixed(2);
     const chunkCount = Number((amountBigInt + safeChunk - 1n) / safeChunk);
     return { chunkAmount, chunkCount };
@@ -558,35 +632,22 @@ export default function TradingCard({
 
     try {
       if (tradeMode === 'buy') {
-        const usdcIn = parseUnits(amount, 6);
+        const usdcIn = amountBigInt;
         if (usdcIn <= 0n) {
           resetPreview();
           return;
         }
 
-        const feeT = usdcIn * BigInt(feeTreasuryBps) / 10_000n;
-        const feeV = usdcIn * BigInt(feeVaultBps) / 10_000n;
-        const feeL = usdcIn * BigInt(feeLpBps) / 10_000n;
-        const net = usdcIn - feeT - feeV - feeL;
-        if (net <= 0n) {
-          resetPreview();
-          return;
-        }
-
-        const netE18 = net * USDC_TO_E18;
-        const baseSide = side === 'yes' ? qYes : qNo;
-        const baseOther = side === 'yes' ? qNo : qYes;
-        const tokensOut = findSharesOut(baseSide, baseOther, netE18, bE18);
-        if (tokensOut <= 0n) {
+        const simulation = simulateBuyChunk(usdcIn, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, side === 'yes');
+        if (!simulation) {
           resetPreview();
           return;
         }
 
+        const { tokensOut, net, fees, newQYes, newQNo } = simulation;
         const sharesNum = parseFloat(formatUnits(tokensOut, 18));
         const grossUsd = parseFloat(formatUnits(usdcIn, 6));
-        const feeUsdValue = parseFloat(formatUnits(feeT + feeV + feeL, 6));
-        const newQYes = side === 'yes' ? qYes + tokensOut : qYes;
-        const newQNo = side === 'yes' ? qNo : qNo + tokensOut;
+        const feeUsdValue = parseFloat(formatUnits(fees.total, 6));
         const newPriceYes = parseFloat(formatUnits(spotPriceYesE18(newQYes, newQNo, bE18), 18));
 
         const avgPriceGross = sharesNum > 0 ? grossUsd / sharesNum : 0;
@@ -595,7 +656,7 @@ export default function TradingCard({
         const maxProfitValue = rawMaxProfit > 0 ? rawMaxProfit : 0;
         const profitPct = grossUsd > 0 ? (maxProfitValue / grossUsd) * 100 : 0;
 
-        const vaultIncrease = Number(formatUnits(net + feeV, 6));
+        const vaultIncrease = Number(formatUnits(net + fees.vault, 6));
         const actualBasePrice = getActualBasePrice();
         setCurrentPrice(side === 'yes' ? clamp(actualBasePrice, 0, 1) : clamp(1 - actualBasePrice, 0, 1));
         setNewPrice(side === 'yes' ? clamp(newPriceYes, 0, 1) : clamp(1 - newPriceYes, 0, 1));
@@ -620,22 +681,13 @@ export default function TradingCard({
           return;
         }
 
-        if ((side === 'yes' && tokensIn > qYes) || (side === 'no' && tokensIn > qNo)) {
-          resetPreview();
-          return;
-        }
-
-        const oldCost = costFunction(qYes, qNo, bE18);
-        const newQYes = side === 'yes' ? qYes - tokensIn : qYes;
-        const newQNo = side === 'yes' ? qNo : qNo - tokensIn;
-        const newCost = costFunction(newQYes, newQNo, bE18);
-        const refundE18 = oldCost - newCost;
-        if (refundE18 <= 0n) {
+        const simulation = simulateSellChunk(tokensIn, qYes, qNo, bE18, 0, 0, 0, side === 'yes');
+        if (!simulation) {
           resetPreview();
           return;
         }
 
-        const usdcOut = refundE18 / USDC_TO_E18;
+        const { usdcOut, newQYes, newQNo } = simulation;
         const newPriceYes = parseFloat(formatUnits(spotPriceYesE18(newQYes, newQNo, bE18), 18));
 
         const sharesNum = parseFloat(formatUnits(tokensIn, 18));
@@ -666,7 +718,7 @@ export default function TradingCard({
       showToast('Preview failed', 'Preview calculation failed. Please try a smaller amount.', 'warning');
       resetPreview();
     }
-  }, [amount, tradeMode, side, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, totalFeeBps, resetPreview, vaultBase, yesBase, noBase, showToast, getActualBasePrice]);
+  }, [amount, amountBigInt, tradeMode, side, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, totalFeeBps, resetPreview, vaultBase, yesBase, noBase, showToast, getActualBasePrice]);
 
   // Listen for market state refetch events from webhooks
   useEffect(() => {
@@ -684,176 +736,6 @@ export default function TradingCard({
 
 
 
-  const executeSplitBuy = useCallback(async (totalE6: bigint) => {
-    if (totalE6 === 0n) return;
-    if (!isTradeable) {
-      throw new Error('Market is not active for trading.');
-    }
-
-    let remaining = totalE6;
-    let currentQYes = marketState?.[0];
-    let currentQNo = marketState?.[1];
-    let chunkFailed = false;
-    let failureReason = '';
-
-    if ((currentQYes === undefined || currentQNo === undefined) && refetchMarketState) {
-      const refreshed = await refetchMarketState();
-      const data = refreshed?.data as (readonly [bigint, bigint, bigint, bigint, bigint]) | undefined;
-      currentQYes = data?.[0];
-      currentQNo = data?.[1];
-    }
-
-    if (currentQYes === undefined || currentQNo === undefined) {
-      throw new Error('Market state unavailable');
-    }
-
-    while (remaining > 0n) {
-      let capValue = maxJumpE6;
-      if (refetchMaxJump) {
-        const refreshedCap = await refetchMaxJump();
-        if (refreshedCap?.data !== undefined) {
-          capValue = refreshedCap.data as bigint;
-        }
-      }
-
-      let safeCap = capValue === 0n ? remaining : capValue;
-      if (safeCap > 0n) {
-        const margin = (safeCap * SAFETY_MARGIN_BPS) / 10_000n;
-        safeCap = margin > 0n ? margin : safeCap;
-      }
-
-      let chunk = remaining;
-      if (capValue > 0n && chunk > safeCap && safeCap > 0n) {
-        chunk = safeCap;
-      }
-      if (chunk > remaining) chunk = remaining;
-      if (chunk <= 0n) break;
-
-      const simulation = simulateBuyChunk(
-        chunk,
-        currentQYes,
-        currentQNo,
-        bE18,
-        feeTreasuryBps,
-        feeVaultBps,
-        feeLpBps,
-        side === 'yes',
-      );
-
-      if (!simulation || simulation.tokensOut === 0n) {
-        throw new Error('Cannot simulate chunked buy');
-      }
-
-      let minOut = simulation.minOut > 0n ? simulation.minOut : 1n;
-
-      if (!publicClient) throw new Error('RPC client unavailable');
-      if (!address) throw new Error('Connect wallet to trade');
-
-      await publicClient.simulateContract({
-        address: addresses.core,
-        abi: coreAbi,
-        functionName: side === 'yes' ? 'buyYes' : 'buyNo',
-        args: [marketIdBI, chunk, minOut],
-        account: address as `0x${string}`,
-      });
-
-      setBusyLabel('Executing split order…');
-      const txHash = await writeContractAsync({
-        address: addresses.core,
-        abi: coreAbi,
-        functionName: side === 'yes' ? 'buyYes' : 'buyNo',
-        args: [marketIdBI, chunk, minOut],
-      });
-
-      try {
-        await waitForReceipt(publicClient, txHash as `0x${string}`);
-      } catch (e) {
-        console.error('Split chunk receipt wait failed', e);
-        // 🚨 CHUNK FAILED - Rollback TradingCard state and send rollback event
-        setYesAfter(yesBase);
-        setNoAfter(noBase);
-        setVaultAfter(vaultBase);
-        window.dispatchEvent(new CustomEvent('trade-failed', {
-          detail: {
-            marketId: marketIdBI,
-            txHash: txHash,
-            reason: 'Split chunk transaction failed'
-          }
-        }));
-        chunkFailed = true;
-        failureReason = 'Split chunk transaction failed';
-        // Stop processing further chunks on failure
-        break;
-      }
-
-      // ✅ CHUNK CONFIRMED - Now apply UI updates
-      if (simulation.tokensOut > 0n) {
-        // Calculate net USDC that goes to vault for this chunk (after fees)
-        const feeT = chunk * BigInt(feeTreasuryBps) / 10_000n;
-        const feeV = chunk * BigInt(feeVaultBps) / 10_000n;
-        const feeL = chunk * BigInt(feeLpBps) / 10_000n;
-        const netToVault = chunk - feeT - feeV - feeL;
-
-        // Update TradingCard's local state immediately for this chunk
-        setYesAfter(Number(formatUnits(simulation.newQYes, 18)));
-        setNoAfter(Number(formatUnits(simulation.newQNo, 18)));
-        setVaultAfter(vaultBase + Number(formatUnits(netToVault, 6)));
-
-        // Calculate the new prices for instant UI update
-        // Calculate new price using correct LMSR formula (matches contract)
-        const chunkPriceE18 = spotPriceYesE18(simulation.newQYes, simulation.newQNo, bE18);
-        const chunkNewPriceYes = Number(formatUnits(chunkPriceE18, 18));
-        const chunkNewPriceNo = 1 - chunkNewPriceYes;
-
-        // Note: Removed instant-trade-update dispatch - blockchain watchers will handle this
-      }
-
-      remaining -= chunk;
-
-      if (refetchMarketState) {
-        const refreshedState = await refetchMarketState();
-        const data = refreshedState?.data as (readonly [bigint, bigint, bigint, bigint, bigint]) | undefined;
-        if (data) {
-          currentQYes = data[0];
-          currentQNo = data[1];
-        } else {
-          currentQYes = simulation.newQYes;
-          currentQNo = simulation.newQNo;
-        }
-      } else {
-        currentQYes = simulation.newQYes;
-        currentQNo = simulation.newQNo;
-      }
-
-      await sleep(150);
-    }
-
-    await refetchAll();
-    if (chunkFailed) {
-      throw new Error(failureReason || 'Split order failed');
-    }
-  }, [
-    marketState,
-    refetchMarketState,
-    maxJumpE6,
-    refetchMaxJump,
-    bE18,
-    feeTreasuryBps,
-    feeVaultBps,
-    feeLpBps,
-    side,
-    writeContractAsync,
-    publicClient,
-    refetchAll,
-    marketIdBI,
-    isTradeable,
-    address,
-    baseSpotYes,
-    yesBase,
-    noBase,
-    vaultBase,
-  ]);
-
   const handleTrade = useCallback(async () => {
     if (!amount || parseFloat(amount) <= 0) return;
     if (!isTradeable) {
@@ -885,6 +767,7 @@ export default function TradingCard({
         }
 
         if (overJumpCap) {
+          if (maxJumpE6 === 0n) throw new Error(NO_JUMP_ROOM_MESSAGE);
           setPendingSplitAmount(amountParsed);
           setShowSplitConfirm(true);
           setBusyLabel('');
@@ -907,10 +790,39 @@ export default function TradingCard({
         }
 
         let minOut = simulation.minOut > 0n ? simulation.minOut : 1n;
+        if (sharesMode) {
+          if (!exactSharesQuote) throw new Error('Unable to price that many shares');
+          minOut = exactSharesQuote.minOut;
+        }
 
         if (!publicClient) throw new Error('RPC client unavailable');
         if (!address) throw new Error('Connect wallet to trade');
 
+        // The cap moves with every trade: re-check on fresh state before simulating
+        const refreshed = (await refetchMarketState())?.data as typeof marketState;
+        if (refreshed) {
+          const latestCap = maxUsdcBeforeJump({
+            qYes: refreshed[0],
+            qNo: refreshed[1],
+            bE18: refreshed[3],
+            usdcVault: refreshed[2],
+            feeTreasuryBps,
+            feeVaultBps,
+            feeLpBps,
+            maxUsdcPerTrade,
+            priceBandThreshold,
+            maxJumpE18: marketMaxJumpE18,
+            maxInstantJumpE18,
+          }, side === 'yes');
+          if (amountParsed > latestCap) {
+            if (latestCap === 0n) throw new Error(NO_JUMP_ROOM_MESSAGE);
+            setPendingSplitAmount(amountParsed);
+            setShowSplitConfirm(true);
+            setBusyLabel('');
+            return;
+          }
+        }
+
         const { request } = await publicClient.simulateContract({
           address: addresses.core,
           abi: coreAbi,
@@ -923,17 +835,6 @@ export default function TradingCard({
           setGasEstimate(await publicClient.estimateGas({ ...request, to: addresses.core }));
         } catch {}
 
-        if (refetchMaxJump) {
-          const refreshedCap = await refetchMaxJump();
-          const latestCap = refreshedCap?.data as bigint | undefined;
-          if (latestCap && amountParsed > latestCap) {
-            setPendingSplitAmount(amountParsed);
-            setShowSplitConfirm(true);
-            setBusyLabel('');
-            return;
-          }
-        }
-
         setBusyLabel('Submitting buy…');
 
         let txHash: `0x${string}`;
@@ -1007,14 +908,8 @@ export default function TradingCard({
         }
 
         const tokensIn = amountParsed;
-        const oldCost = costFunction(qYes, qNo, bE18);
-        const newQYes = side === 'yes' ? qYes - tokensIn : qYes;
-        const newQNo = side === 'yes' ? qNo : qNo - tokensIn;
-        const newCost = costFunction(newQYes, newQNo, bE18);
-        const refundE18 = oldCost - newCost;
-        const expectedUsdcOut = refundE18 > 0n ? refundE18 / USDC_TO_E18 : 0n;
-        const slippageGuard = (expectedUsdcOut * SLIPPAGE_BPS) / 10_000n;
-        const minUsdcOut = expectedUsdcOut > slippageGuard ? expectedUsdcOut - slippageGuard : expectedUsdcOut;
+        const simulation = simulateSellChunk(tokensIn, qYes, qNo, bE18, 0, 0, 0, side === 'yes');
+        const minUsdcOut = simulation?.minOut ?? 0n;
         if (minUsdcOut <= MIN_USDC_OUT_E6) {
           throw new Error('Sell output too small after slippage.');
         }
@@ -1068,13 +963,9 @@ export default function TradingCard({
         }
 
         // ✅ TRANSACTION CONFIRMED - Now apply UI updates
-        const sellTokensIn = amountParsed;
-        const sellOldCost = costFunction(qYes, qNo, bE18);
-        const sellNewQYes = side === 'yes' ? qYes - sellTokensIn : qYes;
-        const sellNewQNo = side === 'yes' ? qNo : qNo - sellTokensIn;
-        const sellNewCost = costFunction(sellNewQYes, sellNewQNo, bE18);
-        const sellRefundE18 = sellOldCost - sellNewCost;
-        const sellExpectedUsdcOut = sellRefundE18 > 0n ? sellRefundE18 / USDC_TO_E18 : 0n;
+        const sellNewQYes = simulation?.newQYes ?? qYes;
+        const sellNewQNo = simulation?.newQNo ?? qNo;
+        const sellExpectedUsdcOut = simulation?.usdcOut ?? 0n;
 
         // Calculate new price using correct LMSR formula (matches contract)
         const sellPriceE18 = spotPriceYesE18(sellNewQYes, sellNewQNo, bE18);
@@ -1113,6 +1004,8 @@ export default function TradingCard({
     amount,
     amountBigInt,
     tradeMode,
+    sharesMode,
+    exactSharesQuote,
     side,
     address,
     overJumpCap,
@@ -1130,7 +1023,12 @@ export default function TradingCard({
     tokenAllowanceValue,
     marketIdBI,
     isTradeable,
-    refetchMaxJump,
+    refetchMarketState,
+    maxJumpE6,
+    maxUsdcPerTrade,
+    priceBandThreshold,
+    marketMaxJumpE18,
+    maxInstantJumpE18,
     showErrorToast,
     tradeDisabledReason,
     showToast,
@@ -1276,31 +1174,37 @@ export default function TradingCard({
     }
   }, [isResolved, resolution, yesBalanceRaw, noBalanceRaw, writeContractAsync, publicClient, refetchAll, marketIdBI, showToast, showErrorToast]);
 
-  const handleConfirmSplit = useCallback(async () => {
-    if (pendingSplitAmount === 0n) {
-      setShowSplitConfirm(false);
-      return;
-    }
+  const runSplitOrder = useCallback(async (execute: () => Promise<void>) => {
     if (!isTradeable) {
       showToast('Trading disabled', tradeDisabledReason || 'Market is not active for trading.', 'warning');
       return;
     }
     try {
-      setShowSplitConfirm(false);
       setPendingTrade(true);
       setBusyLabel('Executing split order…');
-      await executeSplitBuy(pendingSplitAmount);
+      await execute();
       setBusyLabel('Finalizing…');
       await refetchAll();
     } catch (error) {
       console.error('Split execution failed', error);
-      showErrorToast(error, 'Split order failed. Please try again.', /rejected/i.test(String(error)) ? 'warning' : 'error');
+      showErrorToast(error, 'Split order paused. You can resume it from the order panel.', /rejected/i.test(String(error)) ? 'warning' : 'error');
     } finally {
       setPendingTrade(false);
       setBusyLabel('');
-      setPendingSplitAmount(0n);
     }
-  }, [pendingSplitAmount, executeSplitBuy, refetchAll, isTradeable, showErrorToast, showToast, tradeDisabledReason]);
+  }, [refetchAll, isTradeable, showErrorToast, showToast, tradeDisabledReason]);
+
+  const handleConfirmSplit = useCallback(async () => {
+    const total = pendingSplitAmount;
+    setShowSplitConfirm(false);
+    setPendingSplitAmount(0n);
+    if (total === 0n) return;
+    await runSplitOrder(() => splitOrder.start(side, total));
+  }, [pendingSplitAmount, runSplitOrder, splitOrder, side]);
+
+  const handleResumeSplit = useCallback(async () => {
+    await runSplitOrder(() => splitOrder.resume());
+  }, [runSplitOrder, splitOrder]);
 
   const handleCancelSplit = useCallback(() => {
     setShowSplitConfirm(false);
@@ -1340,59 +1244,44 @@ export default function TradingCard({
   const splitChunkCountDisplay = splitPreview.count;
 
   const safeMaxBuy = useMemo(() => {
-    const safe = Number(formatUnits(maxJumpE6 * SAFETY_MARGIN_BPS / 10_000n, 6));
-    return Math.min(maxBuyAmount, safe > 0 ? safe : maxBuyAmount);
+    if (maxJumpE6 === null) return maxBuyAmount;
+    return Math.min(maxBuyAmount, Number(formatUnits(maxJumpE6 * SAFETY_MARGIN_BPS / 10_000n, 6)));
   }, [maxJumpE6, maxBuyAmount]);
+  const maxSharesForBuy = useMemo(() => {
+    if (safeMaxBuy <= 0) return 0;
+    const simulation = simulateBuyChunk(
+      parseUnits(safeMaxBuy.toFixed(6), 6),
+      qYes,
+      qNo,
+      bE18,
+      feeTreasuryBps,
+      feeVaultBps,
+      feeLpBps,
+      side === 'yes',
+    );
+    return simulation ? Number(formatUnits(simulation.tokensOut, 18)) : 0;
+  }, [safeMaxBuy, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, side]);
 
   const comparisonLabels = ['Above', 'Below', 'Equals'];
   const oracleTypeLabels = ['None', 'ChainlinkFeed'];
 
   return (
     <>
-      {showSplitConfirm && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center">
-          <div className="absolute inset-0 bg-black/40" onClick={handleCancelSplit} />
-          <div className="relative bg-white rounded-xl shadow-xl max-w-sm w-full mx-4 p-6 space-y-4">
-            <div>
-              <h3 className="text-lg font-bold text-gray-900">Split Order Confirmation</h3>
-              <p className="text-sm text-gray-600 mt-1">
-                This buy would exceed the single-transaction price jump limit. We will execute it in smaller chunks.
-              </p>
-            </div>
-            <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span>Total buy</span>
-                <span className="font-semibold">{totalSplitDisplay} USDC</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Chunk size</span>
-                <span className="font-semibold">{splitChunkAmountDisplay} USDC</span>
-              </div>
-              {splitChunkCountDisplay > 0 && (
-                <div className="flex justify-between">
-                  <span>Estimated chunks</span>
-                  <span className="font-semibold">{splitChunkCountDisplay}</span>
-                </div>
-              )}
-            </div>
-            <div className="flex gap-2">
-              <button
-                onClick={handleCancelSplit}
-                className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleConfirmSplit}
-                disabled={!isTradeable || isBusy}
-                className="flex-1 py-2 rounded-lg bg-green-500 text-white font-bold hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                Split & Execute
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      <SplitOrderModal
+        show={showSplitConfirm}
+        totalSplitDisplay={totalSplitDisplay}
+        splitChunkAmountDisplay={splitChunkAmountDisplay}
+        splitChunkCountDisplay={splitChunkCountDisplay}
+        isTradeable={isTradeable}
+        isBusy={isBusy}
+        onCancel={handleCancelSplit}
+        onConfirm={handleConfirmSplit}
+        order={splitOrder.order}
+        isRunning={splitOrder.isRunning}
+        onResume={handleResumeSplit}
+        onCancelOrder={() => void splitOrder.cancel()}
+        onDismiss={splitOrder.dismiss}
+      />
 
       <div className="space-y-6" data-testid="trading-card">
         {!isTradeable && (
@@ -1441,6 +1330,25 @@ export default function TradingCard({
           {tradeMode === 'buy' ? `USDC Balance: ${usdcBalance}` : `${side.toUpperCase()} Balance: ${side === 'yes' ? yesBalance : noBalance}`}
         </div>
 
+        {tradeMode === 'buy' && (
+          <div className="flex justify-center gap-1 text-xs font-semibold">
+            {(['usdc', 'shares', 'price'] as const).map(unit => (
+              <button
+                key={unit}
+                onClick={() => {
+                  if (isBusy || buyUnit === unit) return;
+                  setBuyUnit(unit);
+                  setAmount('');
+                }}
+                className={`rounded-md px-3 py-1 ${buyUnit === unit ? 'bg-green-100 text-green-700' : 'text-gray-500 hover:bg-gray-100'}`}
+                disabled={!isTradeable}
+              >
+                {unit === 'usdc' ? 'USDC' : unit === 'shares' ? 'Shares' : 'Target price'}
+              </button>
+            ))}
+          </div>
+        )}
+
         <input
           type="text"
           inputMode="decimal"
@@ -1459,48 +1367,71 @@ export default function TradingCard({
             }
             const num = parseFloat(val);
             if (!Number.isFinite(num)) return;
-            if (tradeMode === 'buy' && num > maxBuyAmount) return;
+            if (tradeMode === 'buy' && !sharesMode && !priceMode && num > maxBuyAmount) return;
+            if (priceMode && num >= 100) return;
             if (tradeMode === 'sell' && num > maxSellAmount) return;
             setAmount(formatAmount(num));
           }}
-          placeholder="0.0"
+          placeholder={sharesMode ? '0 shares' : priceMode ? 'Target price (¢)' : '0.0'}
           className="w-full rounded-lg border px-4 py-3 text-lg font-semibold text-center focus:ring-2 focus:ring-green-500"
           disabled={isBusy || showSplitConfirm || !isTradeable}
         />
 
-        <div className="flex gap-2">
-          {['10', '50', '100', 'Max'].map(q => (
-            <button
-              key={q}
-              onClick={() => {
-                if (q === 'Max') {
-                  const maxValue = tradeMode === 'buy'
-                    ? safeMaxBuy
-                    : side === 'yes'
-                      ? Number(formatUnits(yesBalanceRaw, 18))
-                      : Number(formatUnits(noBalanceRaw, 18));
-                  const maxString = Number.isFinite(maxValue) ? formatAmount(maxValue) : '0';
-                  setAmount(maxString);
-                } else {
-                  const preset = Number(q);
-                  setAmount(formatAmount(preset));
-                }
-              }}
-              disabled={isBusy || showSplitConfirm || !isTradeable}
-              className="flex-1 bg-green-50 hover:bg-green-100 py-2 rounded-lg font-bold text-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {q}
-            </button>
-          ))}
-        </div>
+        {sharesMode && amount && parseFloat(amount) > 0 && (
+          <div className="text-xs text-gray-500 text-center">
+            {exactSharesQuote
+              ? `Costs ${Number(formatUnits(exactSharesQuote.usdcIn, 6)).toFixed(2)} USDC incl. fees`
+              : 'Unable to price that many shares'}
+          </div>
+        )}
 
-        {tradeMode === 'buy' && maxJumpE6 > 0n && isTradeable && (
+        {priceMode && amount && parseFloat(amount) > 0 && (
+          <div className="text-xs text-gray-500 text-center">
+            {targetPriceQuote
+              ? `Buys ${Number(formatUnits(targetPriceQuote.tokensOut, 18)).toFixed(2)} ${side.toUpperCase()} for ${Number(formatUnits(targetPriceQuote.usdcIn, 6)).toFixed(2)} USDC to move ${formatPrice(Number(formatUnits(targetPriceQuote.startPriceE18, 18)))} → ${formatPrice(Number(amount) / 100)}`
+              : `${side.toUpperCase()} is already at or above ${formatPrice(Number(amount) / 100)}`}
+          </div>
+        )}
+
+        {!priceMode && (
+          <div className="flex gap-2">
+            {['10', '50', '100', 'Max'].map(q => (
+              <button
+                key={q}
+                onClick={() => {
+                  if (q === 'Max') {
+                    const maxValue = tradeMode === 'buy'
+                      ? sharesMode ? maxSharesForBuy : safeMaxBuy
+                      : side === 'yes'
+                        ? Number(formatUnits(yesBalanceRaw, 18))
+                        : Number(formatUnits(noBalanceRaw, 18));
+                    const maxString = Number.isFinite(maxValue) ? formatAmount(maxValue) : '0';
+                    setAmount(maxString);
+                  } else {
+                    const preset = Number(q);
+                    setAmount(formatAmount(preset));
+                  }
+                }}
+                disabled={isBusy || showSplitConfirm || !isTradeable}
+                className="flex-1 bg-green-50 hover:bg-green-100 py-2 rounded-lg font-bold text-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {q}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {tradeMode === 'buy' && !!maxJumpE6 && isTradeable && (
           <div className="text-xs text-gray-500 text-center">
             Max single-tx buy (safe, 98%): {splitChunkAmountDisplay} USDC
           </div>
         )}
 
-        {tradeMode === 'buy' && overJumpCap && isTradeable && (
+        {tradeMode === 'buy' && maxJumpE6 === 0n && isTradeable && (
+          <div className="rounded-md bg-amber-50 text-amber-800 p-2 text-sm">{NO_JUMP_ROOM_MESSAGE}</div>
+        )}
+
+        {tradeMode === 'buy' && overJumpCap && !!maxJumpE6 && isTradeable && (
           <div className="rounded-md bg-amber-50 text-amber-800 p-2 text-sm">
             Large order will be split automatically to keep prices stable.
             {overCapPreview && (
@@ -1511,83 +1442,26 @@ export default function TradingCard({
           </div>
         )}
 
-        {amount && parseFloat(amount) > 0 && (
-          <div className="bg-gray-50 rounded-lg p-4 space-y-3">
-            <div className="text-xs text-gray-500 text-center">Preview (simulated - actual may vary)</div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Current price</span>
-              <span className="font-bold">{formatPrice(currentPrice)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">New price</span>
-              <span className="font-bold">{formatPrice(newPrice)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Shares</span>
-              <span className="font-bold">{shares.toFixed(4)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">Avg. entry (incl. fees)</span>
-              <span className="font-bold">${avgPrice.toFixed(3)}</span>
-            </div>
-            {tradeMode === 'buy' && (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Cost (incl. fees)</span>
-                <span className="font-bold">${costUsd.toFixed(2)}</span>
-              </div>
-            )}
-            <div className="flex justify-between text-sm">
-              <span className="text-gray-600">
-                Fee
-                {tradeMode === 'buy' && (
-                  <span
-                    title={`Treasury ${(feeTreasuryBps / 100).toFixed(2)}% • Vault ${(feeVaultBps / 100).toFixed(2)}% • LP ${(feeLpBps / 100).toFixed(2)}%`}
-                    aria-label={`Fee breakdown: Treasury ${(feeTreasuryBps / 100).toFixed(2)} percent, Vault ${(feeVaultBps / 100).toFixed(2)} percent, LP ${(feeLpBps / 100).toFixed(2)} percent`}
-                    className="ml-2 underline decoration-dotted cursor-help text-xs font-normal align-middle"
-                  >
-                    details
-                  </span>
-                )}
-                {tradeMode === 'sell' && (
-                  <span className="ml-2 text-xs font-normal text-gray-500">(fee-free sell)</span>
-                )}
-              </span>
-              <span className="font-bold">
-                {feePercent.toFixed(2)}%
-                {feeUsd > 0 ? ` ($${feeUsd.toFixed(2)})` : ''}
-              </span>
-            </div>
-            {tradeMode === 'buy' ? (
-              <>
-                {tradeMultiple > 0 && (
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Multiple</span>
-                    <span className="font-bold">{tradeMultiple.toFixed(2)}×</span>
-                  </div>
-                )}
-                <div className="flex justify-between text-green-600 font-bold text-sm">
-                  <span className="text-gray-600">Max profit</span>
-                  <span>${maxProfit.toFixed(2)} (+{maxProfitPct.toFixed(1)}%)</span>
-                </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-gray-600">Max payout</span>
-                  <span className="font-bold">${maxPayout.toFixed(2)}</span>
-                </div>
-              </>
-            ) : (
-              <div className="flex justify-between text-sm">
-                <span className="text-gray-600">Proceeds</span>
-                <span className="font-bold">${costUsd.toFixed(2)}</span>
-              </div>
-            )}
-            {gasEstimate && (
-              <div className="flex justify-between text-sm text-gray-500">
-                <span>Est. gas</span>
-                <span>{gasEstimate.toString()} wei (~{Number(formatUnits(gasEstimate, 9)).toFixed(3)} gwei)</span>
-              </div>
-            )}
-          </div>
-        )}
+        <TradePreview
+          amount={amount}
+          usdcIn={tradeMode === 'buy' ? amountBigInt : 0n}
+          tradeMode={tradeMode}
+          currentPrice={currentPrice}
+          newPrice={newPrice}
+          shares={shares}
+          avgPrice={avgPrice}
+          costUsd={costUsd}
+          feeUsd={feeUsd}
+          feePercent={feePercent}
+          maxProfit={maxProfit}
+          maxProfitPct={maxProfitPct}
+          maxPayout={maxPayout}
+          gasEstimate={gasEstimate}
+          feeTreasuryBps={feeTreasuryBps}
+          feeVaultBps={feeVaultBps}
+          feeLpBps={feeLpBps}
+          tradeMultiple={tradeMultiple}
+        />
 
         <button
           onClick={(e) => {
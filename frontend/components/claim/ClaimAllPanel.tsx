@@ -0,0 +1,149 @@
+import { formatUnits } from 'viem';
+import { claimBatchSummary, type ClaimBatch, type ClaimItemStatus, type ClaimKind } from '@/lib/claimBatches';
+
+interface ClaimAllPanelProps {
+  batch: ClaimBatch;
+  isRunning: boolean;
+  onResume: () => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const itemStatusStyles: Record<ClaimItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  submitted: 'bg-blue-100 text-blue-700',
+  confirmed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  skipped: 'bg-yellow-100 text-yellow-700',
+};
+
+const itemStatusLabels: Record<ClaimItemStatus, string> = {
+  pending: 'waiting',
+  submitted: 'confirming',
+  confirmed: 'claimed',
+  failed: 'failed',
+  skipped: 'already claimed',
+};
+
+const kindLabels: Record<ClaimKind, string> = {
+  redeem: 'Winnings',
+  lpFees: 'LP fees',
+  lpResidual: 'LP residual',
+};
+
+const batchStatusLabels: Record<ClaimBatch['status'], string> = {
+  running: 'Claiming…',
+  paused: 'Paused',
+  completed: 'Done',
+  cancelled: 'Stopped',
+};
+
+const usdc = (value: bigint) =>
+  Number(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function ClaimAllPanel({ batch, isRunning, onResume, onRetryFailed, onCancel, onDismiss }: ClaimAllPanelProps) {
+  const summary = claimBatchSummary(batch);
+  const finished = batch.status === 'completed' || batch.status === 'cancelled';
+  const total = batch.items.length;
+  const doneCount = total - summary.remaining;
+
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-100 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">
+            Claim all · {batchStatusLabels[batch.status]}
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {doneCount} of {total} claims processed. Each claim is its own transaction.
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Paid out</div>
+          <div className="text-2xl font-black text-[#14B8A6]">${usdc(summary.paidUsdc)}</div>
+        </div>
+      </div>
+
+      <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+        <div
+          className="h-full bg-[#2DD4BF] transition-all"
+          style={{ width: `${total > 0 ? (doneCount / total) * 100 : 0}%` }}
+        />
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 text-sm">
+        {batch.items.map(item => (
+          <li key={item.key} className="flex items-center justify-between gap-3 py-2">
+            <span className="min-w-0 truncate text-gray-700" title={item.question}>
+              <span className="font-semibold text-gray-500">{kindLabels[item.kind]} · </span>
+              {item.question || `Market #${item.marketId}`}
+            </span>
+            <span className="flex items-center gap-2 flex-shrink-0">
+              <span className="text-gray-500">
+                ${usdc(item.status === 'confirmed' ? item.usdcOut ?? item.expectedUsdc : item.expectedUsdc)}
+              </span>
+              <span
+                className={`rounded px-2 py-0.5 text-xs font-semibold ${itemStatusStyles[item.status]}`}
+                title={item.error ?? item.txHash}
+              >
+                {itemStatusLabels[item.status]}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      {finished && (
+        <div className="rounded-lg bg-[#F0FDF4] p-3 text-sm text-gray-700">
+          Made {summary.claimed} {summary.claimed === 1 ? 'claim' : 'claims'} for ${usdc(summary.paidUsdc)}
+          {summary.skipped > 0 && `, ${summary.skipped} already claimed`}
+          {summary.failed > 0 && `, ${summary.failed} failed`}
+          {summary.remaining > 0 && `, ${summary.remaining} not sent`}.
+        </div>
+      )}
+      {batch.lastError && (
+        <div className="rounded-md bg-red-50 text-red-700 p-2 text-xs">{batch.lastError}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {finished ? (
+          <>
+            {summary.failed > 0 && (
+              <button
+                onClick={onRetryFailed}
+                className="flex-1 py-2 rounded-lg bg-[#2DD4BF] hover:bg-[#14B8A6] text-white font-bold"
+              >
+                Retry failed
+              </button>
+            )}
+            <button
+              onClick={onDismiss}
+              className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
+            >
+              Close
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={onCancel}
+              className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
+            >
+              {isRunning ? 'Stop after this claim' : 'Cancel'}
+            </button>
+            {batch.status === 'paused' && (
+              <button
+                onClick={onResume}
+                disabled={isRunning}
+                className="flex-1 py-2 rounded-lg bg-[#2DD4BF] hover:bg-[#14B8A6] text-white font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Resume
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
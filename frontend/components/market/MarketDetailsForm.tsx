@@ -0,0 +1,93 @@
+'use client';
+import { useState } from 'react';
+import { MARKET_CATEGORIES, parseMarketMetadataFields, parseTags, type MarketCategory } from '@/lib/marketMetadata';
+import { usePublishMarketMetadata } from '@/lib/hooks/useMarketMetadata';
+
+interface MarketDetailsFormProps {
+  marketId: string;
+}
+
+// Lets the creator publish details that weren't signed when the market was created
+export function MarketDetailsForm({ marketId }: MarketDetailsFormProps) {
+  const publishMetadata = usePublishMarketMetadata();
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<MarketCategory>('Crypto');
+  const [tags, setTags] = useState('');
+  const [resolutionSource, setResolutionSource] = useState('');
+  const [imageUrl, setImageUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSaving(true);
+    try {
+      const details = parseMarketMetadataFields({ description, category, tags: parseTags(tags), resolutionSource, imageUrl });
+      await publishMetadata(marketId, details);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to save market details');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-gray-50 rounded-2xl p-4 sm:p-6 shadow-lg border border-gray-200 mb-6 sm:mb-8 space-y-3"
+      data-testid="market-details-form"
+    >
+      <div>
+        <h3 className="text-base font-bold text-gray-900">Add market details</h3>
+        <p className="text-xs text-gray-500 mt-1">
+          This market has no description yet. As its creator you can sign one now; details can only be published once.
+        </p>
+      </div>
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description and resolution criteria"
+        className={inputClass}
+        rows={3}
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <select value={category} onChange={(e) => setCategory(e.target.value as MarketCategory)} className={inputClass}>
+          {MARKET_CATEGORIES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags, comma-separated"
+          className={inputClass}
+        />
+        <input
+          type="url"
+          value={resolutionSource}
+          onChange={(e) => setResolutionSource(e.target.value)}
+          placeholder="Resolution source https://..."
+          className={inputClass}
+        />
+        <input
+          type="url"
+          value={imageUrl}
+          onChange={(e) => setImageUrl(e.target.value)}
+          placeholder="Image URL https://..."
+          className={inputClass}
+        />
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-4 py-2 rounded-lg bg-[#14B8A6] text-white text-sm font-semibold disabled:opacity-50"
+      >
+        {isSaving ? 'Saving details...' : 'Sign and publish details'}
+      </button>
+    </form>
+  );
+}
@@ -2,6 +2,7 @@
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import { formatUnits } from 'viem';
+import type { MarketMetadata } from '@/lib/marketMetadata';
 
 interface MarketHeaderProps {
   market: any;
@@ -9,6 +10,7 @@ interface MarketHeaderProps {
   totalVolume: number;
   createdAtDate: Date | null;
   logoSrc: string;
+  metadata?: MarketMetadata | null;
   marketIsActive: boolean;
   onLogoError: () => void;
 }
@@ -19,6 +21,7 @@ export function MarketHeader({
   totalVolume,
   createdAtDate,
   logoSrc,
+  metadata,
   marketIsActive,
   onLogoError,
 }: MarketHeaderProps) {
@@ -101,6 +104,18 @@ export function MarketHeader({
                 : '—'}
             </span>
           </div>
+          {metadata && (
+            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+              <span className="text-[11px] font-semibold px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 border border-purple-200">
+                {metadata.category}
+              </span>
+              {metadata.tags.map(tag => (
+                <span key={tag} className="text-[11px] px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 border border-gray-200">
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
       </div>
       {/* Rules Section */}
@@ -111,10 +126,26 @@ export function MarketHeader({
         className="mt-6 pt-6 border-t border-gray-300"
       >
         <h3 className="text-base font-bold text-gray-900 mb-3">Rules</h3>
+        {metadata?.description && (
+          <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-line mb-3">{metadata.description}</p>
+        )}
         <p className="text-sm text-gray-600 leading-relaxed">
           {resolution?.oracleType === 0 ? 'This market will be resolved manually by the admin.' : ''}
           {resolution?.oracleType === 1 ? `Market resolves YES if price is ${resolution?.comparison === 0 ? 'above' : resolution?.comparison === 1 ? 'below' : 'equal to'} $${Number(formatUnits(resolution?.targetValue || 0n, 8)).toLocaleString()} at expiry. Otherwise resolves NO.` : ''}
         </p>
+        {metadata?.resolutionSource && (
+          <p className="text-sm text-gray-600 mt-3">
+            Resolution source:{' '}
+            <a
+              href={metadata.resolutionSource}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-[#14B8A6] hover:underline break-all"
+            >
+              {metadata.resolutionSource}
+            </a>
+          </p>
+        )}
       </motion.div>
     </motion.div>
   );
@@ -1,3 +1,7 @@
+import { formatUnits } from 'viem';
+import { blendedAvgPriceE6, type SplitChunkStatus, type SplitOrder } from '@/lib/splitOrders';
+import { formatPrice } from '@/lib/tradingUtils';
+
 interface SplitOrderModalProps {
   show: boolean;
   totalSplitDisplay: string;
@@ -7,6 +11,126 @@ interface SplitOrderModalProps {
   isBusy: boolean;
   onCancel: () => void;
   onConfirm: () => void;
+  order?: SplitOrder | null;
+  isRunning?: boolean;
+  onResume?: () => void;
+  onCancelOrder?: () => void;
+  onDismiss?: () => void;
+}
+
+const chunkStatusStyles: Record<SplitChunkStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  submitted: 'bg-blue-100 text-blue-700',
+  confirmed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+const orderStatusLabels: Record<SplitOrder['status'], string> = {
+  running: 'Executing…',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const usdc = (value: bigint) => Number(formatUnits(value, 6)).toFixed(2);
+
+function SplitOrderProgress({
+  order,
+  isRunning,
+  isTradeable,
+  onResume,
+  onCancelOrder,
+  onDismiss,
+}: {
+  order: SplitOrder;
+  isRunning: boolean;
+  isTradeable: boolean;
+  onResume?: () => void;
+  onCancelOrder?: () => void;
+  onDismiss?: () => void;
+}) {
+  const filledPct = order.totalUsdc > 0n ? Number((order.filledUsdc * 10_000n) / order.totalUsdc) / 100 : 0;
+  const avgPriceE6 = blendedAvgPriceE6(order);
+  const finished = order.status === 'completed' || order.status === 'cancelled';
+
+  return (
+    <>
+      <div>
+        <h3 className="text-lg font-bold text-gray-900">
+          Split {order.side.toUpperCase()} order · {orderStatusLabels[order.status]}
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Each chunk is re-quoted against the latest market state before it is sent.
+        </p>
+      </div>
+      <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span>Filled</span>
+          <span className="font-semibold">{usdc(order.filledUsdc)} / {usdc(order.totalUsdc)} USDC</span>
+        </div>
+        <div className="h-2 rounded-full bg-gray-200 overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${Math.min(filledPct, 100)}%` }} />
+        </div>
+        <div className="flex justify-between">
+          <span>Shares received</span>
+          <span className="font-semibold">{Number(formatUnits(order.filledTokens, 18)).toFixed(4)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Blended avg. price</span>
+          <span className="font-semibold">{avgPriceE6 > 0n ? formatPrice(Number(avgPriceE6) / 1e6) : '—'}</span>
+        </div>
+      </div>
+      <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+        {order.chunks.map(chunk => (
+          <li key={chunk.index} className="flex items-center justify-between gap-2">
+            <span className="text-gray-600">#{chunk.index + 1} · {usdc(chunk.usdcIn)} USDC</span>
+            <span className="flex items-center gap-2">
+              {chunk.tokensOut !== undefined && chunk.status === 'confirmed' && (
+                <span className="text-gray-500">{Number(formatUnits(chunk.tokensOut, 18)).toFixed(2)} sh</span>
+              )}
+              <span
+                className={`rounded px-2 py-0.5 font-semibold ${chunkStatusStyles[chunk.status]}`}
+                title={chunk.error ?? chunk.txHash}
+              >
+                {chunk.status}
+              </span>
+            </span>
+          </li>
+        ))}
+      </ul>
+      {order.lastError && (
+        <div className="rounded-md bg-red-50 text-red-700 p-2 text-xs">{order.lastError}</div>
+      )}
+      <div className="flex gap-2">
+        {finished ? (
+          <button
+            onClick={onDismiss}
+            className="flex-1 py-2 rounded-lg bg-green-500 text-white font-bold hover:bg-green-600"
+          >
+            Close
+          </button>
+        ) : (
+          <>
+            <button
+              onClick={onCancelOrder}
+              className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
+            >
+              {isRunning ? 'Stop after this chunk' : 'Cancel order'}
+            </button>
+            {order.status === 'paused' && (
+              <button
+                onClick={onResume}
+                disabled={!isTradeable || isRunning}
+                className="flex-1 py-2 rounded-lg bg-green-500 text-white font-bold hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Resume
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
 }
 
 export function SplitOrderModal({
@@ -18,55 +142,69 @@ export function SplitOrderModal({
   isBusy,
   onCancel,
   onConfirm,
+  order,
+  isRunning = false,
+  onResume,
+  onCancelOrder,
+  onDismiss,
 }: SplitOrderModalProps) {
-  if (!show) return null;
+  if (!show && !order) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
-      <div className="absolute inset-0 bg-black/40" onClick={onCancel} />
+      <div className="absolute inset-0 bg-black/40" onClick={order ? undefined : onCancel} />
       <div className="relative bg-white rounded-xl shadow-xl max-w-sm w-full mx-4 p-6 space-y-4">
-        <div>
-          <h3 className="text-lg font-bold text-gray-900">Split Order Confirmation</h3>
-          <p className="text-sm text-gray-600 mt-1">
-            This buy would exceed the single-transaction price jump limit. We will execute it in smaller chunks.
-          </p>
-        </div>
-        <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
-          <div className="flex justify-between">
-            <span>Total buy</span>
-            <span className="font-semibold">{totalSplitDisplay} USDC</span>
-          </div>
-          <div className="flex justify-between">
-            <span>Chunk size</span>
-            <span className="font-semibold">{splitChunkAmountDisplay} USDC</span>
-          </div>
-          {splitChunkCountDisplay > 0 && (
-            <div className="flex justify-between">
-              <span>Estimated chunks</span>
-              <span className="font-semibold">{splitChunkCountDisplay}</span>
+        {order ? (
+          <SplitOrderProgress
+            order={order}
+            isRunning={isRunning}
+            isTradeable={isTradeable}
+            onResume={onResume}
+            onCancelOrder={onCancelOrder}
+            onDismiss={onDismiss}
+          />
+        ) : (
+          <>
+            <div>
+              <h3 className="text-lg font-bold text-gray-900">Split Order Confirmation</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                This buy would exceed the single-transaction price jump limit. We will execute it in smaller chunks.
+              </p>
             </div>
-          )}
-        </div>
-        <div className="flex gap-2">
-          <button
-            onClick={onCancel}
-            className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
-          >
-            Cancel
-          </button>
-          <button
-            onClick={onConfirm}
-            disabled={!isTradeable || isBusy}
-            className="flex-1 py-2 rounded-lg bg-green-500 text-white font-bold hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Split & Execute
-          </button>
-        </div>
+            <div className="bg-gray-50 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span>Total buy</span>
+                <span className="font-semibold">{totalSplitDisplay} USDC</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Chunk size</span>
+                <span className="font-semibold">{splitChunkAmountDisplay} USDC</span>
+              </div>
+              {splitChunkCountDisplay > 0 && (
+                <div className="flex justify-between">
+                  <span>Estimated chunks</span>
+                  <span className="font-semibold">{splitChunkCountDisplay}</span>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={onCancel}
+                className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={onConfirm}
+                disabled={!isTradeable || isBusy}
+                className="flex-1 py-2 rounded-lg bg-green-500 text-white font-bold hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Split & Execute
+              </button>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
 }
-
-
-
-
@@ -1,7 +1,10 @@
+import { formatUnits } from 'viem';
+import { splitFees } from '@/lib/lmsrMath';
 import { formatPrice } from '@/lib/tradingUtils';
 
 interface TradePreviewProps {
   amount: string;
+  usdcIn: bigint;
   tradeMode: 'buy' | 'sell';
   currentPrice: number;
   newPrice: number;
@@ -22,6 +25,7 @@ interface TradePreviewProps {
 
 export function TradePreview({
   amount,
+  usdcIn,
   tradeMode,
   currentPrice,
   newPrice,
@@ -41,6 +45,11 @@ export function TradePreview({
 }: TradePreviewProps) {
   if (!amount || parseFloat(amount) <= 0) return null;
 
+  const usd = (value: bigint) => `$${Number(formatUnits(value, 6)).toFixed(2)}`;
+  const feeLegs = tradeMode === 'buy' ? splitFees(usdcIn, feeTreasuryBps, feeVaultBps, feeLpBps) : null;
+  const feeDetail = (label: string, bps: number, leg?: bigint) =>
+    `${label} ${(bps / 100).toFixed(2)}%${leg !== undefined ? ` (${usd(leg)})` : ''}`;
+
   return (
     <div className="bg-gray-50 rounded-lg p-4 space-y-3">
       <div className="text-xs text-gray-500 text-center">Preview (simulated - actual may vary)</div>
@@ -71,7 +80,11 @@ export function TradePreview({
           Fee
           {tradeMode === 'buy' && (
             <span
-              title={`Treasury ${(feeTreasuryBps / 100).toFixed(2)}% • Vault ${(feeVaultBps / 100).toFixed(2)}% • LP ${(feeLpBps / 100).toFixed(2)}%`}
+              title={[
+                feeDetail('Treasury', feeTreasuryBps, feeLegs?.treasury),
+                feeDetail('Vault', feeVaultBps, feeLegs?.vault),
+                feeDetail('LP', feeLpBps, feeLegs?.lp),
+              ].join(' • ')}
               aria-label={`Fee breakdown: Treasury ${(feeTreasuryBps / 100).toFixed(2)} percent, Vault ${(feeVaultBps / 100).toFixed(2)} percent, LP ${(feeLpBps / 100).toFixed(2)} percent`}
               className="ml-2 underline decoration-dotted cursor-help text-xs font-normal align-middle"
             >
@@ -113,13 +126,9 @@ export function TradePreview({
       {gasEstimate && (
         <div className="flex justify-between text-sm text-gray-500">
           <span>Est. gas</span>
-          <span>{gasEstimate.toString()} wei</span>
+          <span>{gasEstimate.toString()} wei (~{Number(formatUnits(gasEstimate, 9)).toFixed(3)} gwei)</span>
         </div>
       )}
     </div>
   );
 }
-
-
-
-
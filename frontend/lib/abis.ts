@@ -7,6 +7,29 @@ import positionTokenAbiData from './abis/PositionToken.json';
 export const coreAbi = Array.isArray(coreAbiData) 
   ? coreAbiData 
   : ((coreAbiData as any).abi || coreAbiData) as any;
+
+// Outputs of core.markets(id), in ABI order
+export type CoreMarketTuple = readonly [
+  yes: `0x${string}`,
+  no: `0x${string}`,
+  qYes: bigint,
+  qNo: bigint,
+  bE18: bigint,
+  usdcVault: bigint,
+  feeTreasuryBps: number,
+  feeVaultBps: number,
+  feeLpBps: number,
+  status: number,
+  question: string,
+  lp: `0x${string}`,
+  resolution: unknown,
+  totalLpUsdc: bigint,
+  lpFeesUSDC: bigint,
+  maxUsdcPerTrade: bigint,
+  priceBandThreshold: bigint,
+  maxJumpE18: bigint,
+];
+
 export const usdcAbi = Array.isArray(usdcAbiData) 
   ? usdcAbiData 
   : ((usdcAbiData as any).abi || usdcAbiData) as any;
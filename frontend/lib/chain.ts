@@ -0,0 +1,27 @@
+// The chain and RPC the app talks to, shared by the wallet config and server routes
+import { bscTestnet } from 'wagmi/chains';
+
+// Override the BSC Testnet RPC URLs to prevent fallback to placeholder URLs
+export const appChain = {
+  ...bscTestnet,
+  rpcUrls: {
+    ...bscTestnet.rpcUrls,
+    default: {
+      http: ['https://bsc-testnet.publicnode.com'],
+    },
+    public: {
+      http: ['https://bsc-testnet.publicnode.com'],
+    },
+  },
+};
+
+function sanitizeRpcUrl(url?: string | null): string {
+  if (!url) return '';
+  const trimmed = url.trim();
+  if (trimmed === '' || trimmed.startsWith('/YOUR_CHAINSTACK_HTTP')) {
+    return '';
+  }
+  return trimmed;
+}
+
+export const rpcUrl = sanitizeRpcUrl(process.env.NEXT_PUBLIC_RPC_URL) || appChain.rpcUrls.default.http[0];
@@ -0,0 +1,168 @@
+// Claim-all batches: winnings (`redeem`), LP fees and LP residuals, one
+// transaction per claim sent one after another. Progress is persisted to
+// IndexedDB so a batch survives errors and reloads.
+
+import { getIndexedDBCache } from './indexedDB';
+
+export type ClaimKind = 'redeem' | 'lpFees' | 'lpResidual';
+export type ClaimItemStatus = 'pending' | 'submitted' | 'confirmed' | 'failed' | 'skipped';
+export type ClaimBatchStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface ClaimBatchItem {
+  key: string;
+  kind: ClaimKind;
+  marketId: number;
+  question: string;
+  isYes: boolean; // winning side, for `redeem`
+  token?: `0x${string}`; // winning position token, for the `redeem` pre-check
+  expectedUsdc: bigint;
+  status: ClaimItemStatus;
+  txHash?: `0x${string}`;
+  usdcOut?: bigint;
+  error?: string;
+}
+
+export interface ClaimBatch {
+  account: `0x${string}`;
+  items: ClaimBatchItem[];
+  status: ClaimBatchStatus;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ClaimCandidate {
+  kind: ClaimKind;
+  marketId: number;
+  question: string;
+  isYes?: boolean;
+  token?: `0x${string}`;
+  expectedUsdc: bigint;
+}
+
+export interface ClaimBatchSummary {
+  paidUsdc: bigint;
+  claimed: number;
+  failed: number;
+  skipped: number;
+  remaining: number;
+}
+
+// Core function and event for each kind of claim
+export type ClaimEventName = 'Redeemed' | 'LpFeesClaimed' | 'LpResidualClaimed';
+
+export const CLAIM_CALLS: Record<ClaimKind, { functionName: string; eventName: ClaimEventName }> = {
+  redeem: { functionName: 'redeem', eventName: 'Redeemed' },
+  lpFees: { functionName: 'claimLpFees', eventName: 'LpFeesClaimed' },
+  lpResidual: { functionName: 'claimLpResidual', eventName: 'LpResidualClaimed' },
+};
+
+const SHARE_TO_USDC = 10n ** 12n;
+
+// Winning shares redeem at $1 each
+export function redeemableUsdc(balance: bigint) {
+  return balance / SHARE_TO_USDC;
+}
+
+export function claimItemKey(kind: ClaimKind, marketId: number) {
+  return `${kind}-${marketId}`;
+}
+
+export function claimBatchKey(account: string) {
+  return account.toLowerCase();
+}
+
+export function createClaimBatch(account: `0x${string}`, candidates: ClaimCandidate[]): ClaimBatch {
+  const now = Date.now();
+  return {
+    account,
+    items: candidates.map(candidate => ({
+      key: claimItemKey(candidate.kind, candidate.marketId),
+      kind: candidate.kind,
+      marketId: candidate.marketId,
+      question: candidate.question,
+      isYes: candidate.isYes ?? false,
+      token: candidate.token,
+      expectedUsdc: candidate.expectedUsdc,
+      status: 'pending',
+    })),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function withClaimItem(batch: ClaimBatch, key: string, patch: Partial<ClaimBatchItem>): ClaimBatch {
+  return {
+    ...batch,
+    items: batch.items.map(item => (item.key === key ? { ...item, ...patch } : item)),
+  };
+}
+
+// Applies freshly read claimable USDC per item. Anything with nothing left was
+// claimed elsewhere (another tab, the market page) and is skipped.
+export function reconcileClaimBalances(batch: ClaimBatch, claimable: Map<string, bigint>): ClaimBatch {
+  return {
+    ...batch,
+    items: batch.items.map(item => {
+      if (item.status !== 'pending' && item.status !== 'failed') return item;
+      const amount = claimable.get(item.key);
+      if (amount === undefined) return item;
+      if (amount === 0n) return { ...item, status: 'skipped', error: undefined };
+      return { ...item, expectedUsdc: amount };
+    }),
+  };
+}
+
+export function retryFailedClaims(batch: ClaimBatch): ClaimBatch {
+  return {
+    ...batch,
+    status: 'running',
+    lastError: undefined,
+    items: batch.items.map(item => (item.status === 'failed' ? { ...item, status: 'pending', error: undefined } : item)),
+  };
+}
+
+export function claimBatchSummary(batch: ClaimBatch): ClaimBatchSummary {
+  return batch.items.reduce<ClaimBatchSummary>(
+    (summary, item) => {
+      if (item.status === 'confirmed') {
+        summary.claimed += 1;
+        summary.paidUsdc += item.usdcOut ?? 0n;
+      } else if (item.status === 'failed') {
+        summary.failed += 1;
+      } else if (item.status === 'skipped') {
+        summary.skipped += 1;
+      } else {
+        summary.remaining += 1;
+      }
+      return summary;
+    },
+    { paidUsdc: 0n, claimed: 0, failed: 0, skipped: 0, remaining: 0 },
+  );
+}
+
+export async function saveClaimBatch(batch: ClaimBatch): Promise<void> {
+  try {
+    await getIndexedDBCache().saveClaimBatch(claimBatchKey(batch.account), batch);
+  } catch (error) {
+    console.warn('[claimBatches] Failed to persist claim batch', error);
+  }
+}
+
+export async function loadClaimBatch(account: string): Promise<ClaimBatch | null> {
+  try {
+    return (await getIndexedDBCache().getClaimBatch(claimBatchKey(account))) as ClaimBatch | null;
+  } catch (error) {
+    console.warn('[claimBatches] Failed to load claim batch', error);
+    return null;
+  }
+}
+
+export async function clearClaimBatch(account: string): Promise<void> {
+  try {
+    await getIndexedDBCache().deleteClaimBatch(claimBatchKey(account));
+  } catch (error) {
+    console.warn('[claimBatches] Failed to clear claim batch', error);
+  }
+}
@@ -0,0 +1,204 @@
+// Claim history from indexed Redemption and LP claim events. localStorage only
+// holds claims this browser has seen but the subgraph has not indexed yet;
+// they are dropped once the indexed history contains their transaction.
+
+import { addresses } from './contracts';
+import { fetchSubgraph } from './subgraphClient';
+import type { ClaimKind } from './claimBatches';
+
+export const CLAIM_HISTORY_PAGE_SIZE = 20;
+const PENDING_TTL_SECONDS = 24 * 60 * 60;
+const LEGACY_STORAGE_KEY = 'claimedRewards';
+
+export interface ClaimHistoryEntry {
+  id: string;
+  kind: ClaimKind;
+  marketId: number;
+  question: string;
+  amountUsdc: string; // 6 decimals, kept as a string so it survives JSON
+  timestamp: number;
+  txHash: string;
+  pending?: boolean;
+}
+
+// Both entity lists are paged independently; the cursor is how many of each
+// have already been shown.
+export interface ClaimHistoryCursor {
+  redemptions: number;
+  lpEvents: number;
+}
+
+export interface ClaimHistoryPage {
+  entries: ClaimHistoryEntry[];
+  next: ClaimHistoryCursor | null;
+  totalClaimedUsdc: bigint;
+}
+
+interface IndexedMarket {
+  id: string;
+  question: string;
+}
+
+interface IndexedRedemption {
+  id: string;
+  amount: string;
+  timestamp: string;
+  txHash: string;
+  market: IndexedMarket;
+}
+
+interface IndexedLpEvent extends IndexedRedemption {
+  action: string;
+}
+
+const CLAIM_HISTORY_QUERY = `
+  query ClaimHistory($user: String!, $first: Int!, $skipRedemptions: Int!, $skipLpEvents: Int!) {
+    redemptions(
+      where: { user: $user }
+      orderBy: timestamp
+      orderDirection: desc
+      first: $first
+      skip: $skipRedemptions
+    ) {
+      id
+      amount
+      timestamp
+      txHash
+      market {
+        id
+        question
+      }
+    }
+    liquidityEvents(
+      where: { user: $user, action_in: ["claimFees", "claimResidual"] }
+      orderBy: timestamp
+      orderDirection: desc
+      first: $first
+      skip: $skipLpEvents
+    ) {
+      id
+      action
+      amount
+      timestamp
+      txHash
+      market {
+        id
+        question
+      }
+    }
+    user(id: $user) {
+      totalClaimedUsdc
+    }
+  }
+`;
+
+function toEntry(raw: IndexedRedemption, kind: ClaimKind): ClaimHistoryEntry {
+  return {
+    id: raw.id,
+    kind,
+    marketId: Number(raw.market.id),
+    question: raw.market.question,
+    amountUsdc: raw.amount,
+    timestamp: Number(raw.timestamp),
+    txHash: raw.txHash.toLowerCase(),
+  };
+}
+
+const newestFirst = (a: ClaimHistoryEntry, b: ClaimHistoryEntry) =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Merges one fetched page of each list and keeps the newest `pageSize` rows;
+// whatever is left over is fetched again with the next cursor.
+export function mergeClaimPage(
+  redemptions: IndexedRedemption[],
+  lpEvents: IndexedLpEvent[],
+  cursor: ClaimHistoryCursor,
+  pageSize = CLAIM_HISTORY_PAGE_SIZE,
+): Omit<ClaimHistoryPage, 'totalClaimedUsdc'> {
+  const merged = [
+    ...redemptions.map(raw => toEntry(raw, 'redeem')),
+    ...lpEvents.map(raw => toEntry(raw, raw.action === 'claimFees' ? 'lpFees' : 'lpResidual')),
+  ].sort(newestFirst);
+
+  const entries = merged.slice(0, pageSize);
+  const usedRedemptions = entries.filter(entry => entry.kind === 'redeem').length;
+  const usedLpEvents = entries.length - usedRedemptions;
+  const more =
+    merged.length > pageSize || redemptions.length === pageSize || lpEvents.length === pageSize;
+
+  return {
+    entries,
+    next: more
+      ? { redemptions: cursor.redemptions + usedRedemptions, lpEvents: cursor.lpEvents + usedLpEvents }
+      : null,
+  };
+}
+
+export async function fetchClaimHistoryPage(
+  user: string,
+  cursor: ClaimHistoryCursor,
+  pageSize = CLAIM_HISTORY_PAGE_SIZE,
+): Promise<ClaimHistoryPage> {
+  const data = await fetchSubgraph<{
+    redemptions: IndexedRedemption[];
+    liquidityEvents: IndexedLpEvent[];
+    user: { totalClaimedUsdc: string } | null;
+  }>(CLAIM_HISTORY_QUERY, {
+    user: user.toLowerCase(),
+    first: pageSize,
+    skipRedemptions: cursor.redemptions,
+    skipLpEvents: cursor.lpEvents,
+  });
+
+  return {
+    ...mergeClaimPage(data.redemptions ?? [], data.liquidityEvents ?? [], cursor, pageSize),
+    totalClaimedUsdc: BigInt(data.user?.totalClaimedUsdc ?? '0'),
+  };
+}
+
+// Pending claims stay until their transaction shows up in the indexed history,
+// or until they are old enough that the indexer has clearly missed them.
+export function reconcilePendingClaims(
+  indexed: ClaimHistoryEntry[],
+  pending: ClaimHistoryEntry[],
+  nowSeconds = Math.floor(Date.now() / 1000),
+): ClaimHistoryEntry[] {
+  const indexedKeys = new Set(indexed.map(entry => `${entry.txHash}-${entry.kind}-${entry.marketId}`));
+  return pending.filter(
+    entry =>
+      !indexedKeys.has(`${entry.txHash.toLowerCase()}-${entry.kind}-${entry.marketId}`) &&
+      nowSeconds - entry.timestamp < PENDING_TTL_SECONDS,
+  );
+}
+
+export function pendingClaimsKey(user: string) {
+  return `claimHistory:${addresses.core.toLowerCase()}:${user.toLowerCase()}`;
+}
+
+export function loadPendingClaims(user: string): ClaimHistoryEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    // The old claimed-rewards cache was the history itself; it is derived from chain data now
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+    window.localStorage.removeItem(`${LEGACY_STORAGE_KEY}:${addresses.core.toLowerCase()}`);
+
+    const stored = window.localStorage.getItem(pendingClaimsKey(user));
+    return stored ? (JSON.parse(stored) as ClaimHistoryEntry[]) : [];
+  } catch (error) {
+    console.warn('[claimHistory] Failed to load pending claims', error);
+    return [];
+  }
+}
+
+export function savePendingClaims(user: string, entries: ClaimHistoryEntry[]) {
+  if (typeof window === 'undefined') return;
+  try {
+    if (entries.length === 0) {
+      window.localStorage.removeItem(pendingClaimsKey(user));
+    } else {
+      window.localStorage.setItem(pendingClaimsKey(user), JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.warn('[claimHistory] Failed to persist pending claims', error);
+  }
+}
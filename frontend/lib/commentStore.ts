@@ -0,0 +1,149 @@
+// Storage behind /api/markets/[id]/comments. Server-only.
+//
+// The store is an interface so a hosted deployment can plug in a database via
+// setCommentStore(). Out of the box COMMENTS_STORE selects:
+//   file   (default) one JSON file, COMMENTS_FILE or .data/comments-<chain>.json
+//   memory           lost on restart, for tests and previews
+
+import path from 'path';
+import { chainId } from './contracts';
+import { createJsonFile } from './jsonFile';
+import type { MarketComment } from './comments';
+
+export interface CommentStore {
+  // Every comment and reply on the market; sorting and paging happen in pageCommentThreads
+  list(marketId: string): Promise<MarketComment[]>;
+  get(marketId: string, id: string): Promise<MarketComment | null>;
+  // Throws DuplicateCommentError when the id is already taken
+  insert(comment: MarketComment): Promise<void>;
+  update(comment: MarketComment): Promise<void>;
+  remove(marketId: string, id: string): Promise<boolean>;
+  // Adds or removes one upvote; returns the updated comment, or null if it doesn't exist or
+  // was deleted. Throws StaleVoteError unless issuedAt is newer than the voter's last vote.
+  vote(marketId: string, id: string, voter: string, up: boolean, issuedAt: number): Promise<MarketComment | null>;
+}
+
+export class DuplicateCommentError extends Error {
+  constructor(id: string) {
+    super(`Comment ${id} already exists`);
+    this.name = 'DuplicateCommentError';
+  }
+}
+
+// A replayed signature must not undo a later vote
+export class StaleVoteError extends Error {
+  constructor(id: string) {
+    super(`A newer vote on comment ${id} was already recorded`);
+    this.name = 'StaleVoteError';
+  }
+}
+
+// issuedAt of each voter's last accepted vote; never leaves the store
+type StoredComment = MarketComment & { voteIssuedAt?: Record<string, number> };
+type CommentsByMarket = Record<string, StoredComment[]>;
+
+// Shared by both built-in adapters. Comments are copied in and out so callers
+// can't change stored state without going through the store.
+function createCommentIndex(data: CommentsByMarket, persist: () => Promise<void>): CommentStore {
+  const copy = ({ voteIssuedAt, ...comment }: StoredComment): MarketComment => ({
+    ...comment,
+    upvoters: [...(comment.upvoters ?? [])],
+  });
+
+  return {
+    async list(marketId) {
+      return (data[marketId] ?? []).map(copy);
+    },
+
+    async get(marketId, id) {
+      const comment = data[marketId]?.find(existing => existing.id === id);
+      return comment ? copy(comment) : null;
+    },
+
+    async insert(comment) {
+      const comments = data[comment.marketId] ?? [];
+      if (comments.some(existing => existing.id === comment.id)) {
+        throw new DuplicateCommentError(comment.id);
+      }
+      data[comment.marketId] = [...comments, copy(comment)];
+      await persist();
+    },
+
+    async update(comment) {
+      const comments = data[comment.marketId] ?? [];
+      data[comment.marketId] = comments.map(existing =>
+        existing.id === comment.id ? { ...copy(comment), voteIssuedAt: existing.voteIssuedAt } : existing,
+      );
+      await persist();
+    },
+
+    async remove(marketId, id) {
+      const comments = data[marketId] ?? [];
+      const next = comments.filter(comment => comment.id !== id);
+      if (next.length === comments.length) return false;
+      data[marketId] = next;
+      await persist();
+      return true;
+    },
+
+    async vote(marketId, id, voter, up, issuedAt) {
+      const comment = data[marketId]?.find(existing => existing.id === id);
+      if (!comment || comment.deleted) return null;
+      if (issuedAt <= (comment.voteIssuedAt?.[voter] ?? -Infinity)) throw new StaleVoteError(id);
+      comment.voteIssuedAt = { ...comment.voteIssuedAt, [voter]: issuedAt };
+      const voters = new Set(comment.upvoters ?? []);
+      if (up) voters.add(voter);
+      else voters.delete(voter);
+      comment.upvoters = Array.from(voters);
+      await persist();
+      return copy(comment);
+    },
+  };
+}
+
+export function createMemoryCommentStore(initial: CommentsByMarket = {}): CommentStore {
+  return createCommentIndex(initial, async () => {});
+}
+
+export function createFileCommentStore(filePath: string): CommentStore {
+  const file = createJsonFile<CommentsByMarket>(filePath, () => ({}));
+  let index: Promise<CommentStore> | null = null;
+
+  const store = () => {
+    index ??= file.read().then(
+      data => createCommentIndex(data, () => file.write(data)),
+      error => {
+        index = null;
+        throw error;
+      },
+    );
+    return index;
+  };
+
+  return {
+    list: async marketId => (await store()).list(marketId),
+    get: async (marketId, id) => (await store()).get(marketId, id),
+    insert: async comment => (await store()).insert(comment),
+    update: async comment => (await store()).update(comment),
+    remove: async (marketId, id) => (await store()).remove(marketId, id),
+    vote: async (marketId, id, voter, up, issuedAt) => (await store()).vote(marketId, id, voter, up, issuedAt),
+  };
+}
+
+let configuredStore: CommentStore | null = null;
+
+export function setCommentStore(store: CommentStore) {
+  configuredStore = store;
+}
+
+export function getCommentStore(): CommentStore {
+  if (!configuredStore) {
+    configuredStore =
+      process.env.COMMENTS_STORE === 'memory'
+        ? createMemoryCommentStore()
+        : createFileCommentStore(
+            process.env.COMMENTS_FILE ?? path.join(process.cwd(), '.data', `comments-${chainId}.json`),
+          );
+  }
+  return configuredStore;
+}
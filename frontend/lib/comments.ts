@@ -0,0 +1,279 @@
+// Market comments shared between the comments API and the client. Every post,
+// vote and delete is authorised by an EIP-191 personal_sign over the messages
+// built here, so the server never has to trust the address a client claims.
+
+import { chainId } from './contracts';
+import { fetchSubgraph } from './subgraphClient';
+
+export const COMMENT_MAX_LENGTH = 1000;
+export const COMMENTS_PAGE_SIZE = 20;
+export const MAX_COMMENTS_PAGE_SIZE = 100;
+// A signature is only accepted for a short while after it was made
+export const COMMENT_SIGNATURE_TTL_MS = 10 * 60 * 1000;
+
+export type CommentSide = 'yes' | 'no';
+export type CommentSort = 'top' | 'new' | 'holders';
+
+export interface MarketComment {
+  id: string;
+  marketId: string;
+  author: `0x${string}`; // lower-cased
+  body: string;
+  side?: CommentSide; // self-declared by older clients; positions are shown instead
+  parentId?: string;
+  rootId?: string; // top-level comment of the thread, set on replies
+  upvoters: string[]; // lower-cased addresses
+  deleted?: boolean; // author removed it but replies keep the thread
+  createdAt: number; // ms, as signed by the author
+  signature: `0x${string}`;
+}
+
+// Outcome token balances (18 decimals) as indexed when the page was served
+export interface CommentPosition {
+  yes: string;
+  no: string;
+}
+
+export interface CommentsPage {
+  comments: MarketComment[]; // top-level, in the requested order
+  replies: MarketComment[]; // every reply in those threads, oldest first
+  positions: Record<string, CommentPosition>;
+  nextCursor: string | null;
+}
+
+export interface NewCommentRequest {
+  author: `0x${string}`;
+  body: string;
+  side?: CommentSide;
+  parentId?: string;
+  issuedAt: number;
+  signature: `0x${string}`;
+}
+
+export interface DeleteCommentRequest {
+  commentId: string;
+  author: `0x${string}`;
+  issuedAt: number;
+  signature: `0x${string}`;
+}
+
+export interface VoteCommentRequest {
+  voter: `0x${string}`;
+  up: boolean;
+  issuedAt: number;
+  signature: `0x${string}`;
+}
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const HEX_SIGNATURE = /^0x[0-9a-fA-F]+$/;
+
+export function normalizeCommentBody(body: string) {
+  return body.replace(/\r\n?/g, '\n').trim();
+}
+
+export function commentMessage({
+  marketId,
+  body,
+  side,
+  parentId,
+  issuedAt,
+}: {
+  marketId: string;
+  body: string;
+  side?: CommentSide;
+  parentId?: string;
+  issuedAt: number;
+}) {
+  return [
+    'Post a comment on Speculate',
+    `Chain: ${chainId}`,
+    `Market: ${marketId}`,
+    `Side: ${side ?? 'none'}`,
+    `Reply to: ${parentId ?? 'none'}`,
+    `Issued at: ${issuedAt}`,
+    '',
+    normalizeCommentBody(body),
+  ].join('\n');
+}
+
+export function deleteCommentMessage(marketId: string, commentId: string, issuedAt: number) {
+  return [
+    'Delete a comment on Speculate',
+    `Chain: ${chainId}`,
+    `Market: ${marketId}`,
+    `Comment: ${commentId}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+export function voteCommentMessage(marketId: string, commentId: string, up: boolean, issuedAt: number) {
+  return [
+    up ? 'Upvote a comment on Speculate' : 'Remove an upvote on Speculate',
+    `Chain: ${chainId}`,
+    `Market: ${marketId}`,
+    `Comment: ${commentId}`,
+    `Issued at: ${issuedAt}`,
+  ].join('\n');
+}
+
+// Ids sort in creation order: zero-padded base-36 time, then part of the
+// signature so a replayed post maps onto the comment it already created.
+export function commentId(createdAt: number, signature: string) {
+  return `${createdAt.toString(36).padStart(9, '0')}-${signature.slice(2, 14).toLowerCase()}`;
+}
+
+function parseSignature(raw: Record<string, unknown>, field: 'author' | 'voter', now: number) {
+  const signer = raw[field];
+  const signature = raw.signature;
+  const issuedAt = Number(raw.issuedAt);
+
+  if (typeof signer !== 'string' || !HEX_ADDRESS.test(signer)) throw new Error(`Invalid ${field} address`);
+  if (typeof signature !== 'string' || !HEX_SIGNATURE.test(signature)) throw new Error('Invalid signature');
+  if (!Number.isSafeInteger(issuedAt)) throw new Error('Invalid issuedAt');
+  if (Math.abs(now - issuedAt) > COMMENT_SIGNATURE_TTL_MS) throw new Error('Signature expired, please sign again');
+
+  return {
+    signer: signer.toLowerCase() as `0x${string}`,
+    signature: signature as `0x${string}`,
+    issuedAt,
+  };
+}
+
+function asObject(raw: unknown) {
+  if (!raw || typeof raw !== 'object') throw new Error('Expected a JSON body');
+  return raw as Record<string, unknown>;
+}
+
+export function parseNewComment(raw: unknown, now = Date.now()): NewCommentRequest {
+  const input = asObject(raw);
+
+  if (typeof input.body !== 'string') throw new Error('Comment body is required');
+  const body = normalizeCommentBody(input.body);
+  if (!body) throw new Error('Comment body is required');
+  if (body.length > COMMENT_MAX_LENGTH) throw new Error(`Comments are limited to ${COMMENT_MAX_LENGTH} characters`);
+
+  const side = input.side ?? undefined;
+  if (side !== undefined && side !== 'yes' && side !== 'no') throw new Error('side must be yes or no');
+
+  const parentId = input.parentId ?? undefined;
+  if (parentId !== undefined && (typeof parentId !== 'string' || !parentId)) throw new Error('Invalid parentId');
+
+  const { signer, signature, issuedAt } = parseSignature(input, 'author', now);
+  return { author: signer, body, side, parentId, issuedAt, signature };
+}
+
+export function parseDeleteComment(raw: unknown, now = Date.now()): DeleteCommentRequest {
+  const input = asObject(raw);
+  if (typeof input.commentId !== 'string' || !input.commentId) throw new Error('commentId is required');
+
+  const { signer, signature, issuedAt } = parseSignature(input, 'author', now);
+  return { commentId: input.commentId, author: signer, issuedAt, signature };
+}
+
+export function parseVoteComment(raw: unknown, now = Date.now()): VoteCommentRequest {
+  const input = asObject(raw);
+  if (typeof input.up !== 'boolean') throw new Error('up must be true or false');
+
+  const { signer, signature, issuedAt } = parseSignature(input, 'voter', now);
+  return { voter: signer, up: input.up, issuedAt, signature };
+}
+
+export function parsePageSize(value: string | null) {
+  if (value === null || value === '') return COMMENTS_PAGE_SIZE;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size < 1) throw new Error('limit must be a positive integer');
+  return Math.min(size, MAX_COMMENTS_PAGE_SIZE);
+}
+
+export function parseCommentSort(value: string | null): CommentSort {
+  if (value === null || value === '') return 'new';
+  if (value !== 'top' && value !== 'new' && value !== 'holders') throw new Error('sort must be top, new or holders');
+  return value;
+}
+
+export function isMarketId(value: string) {
+  return /^\d+$/.test(value);
+}
+
+export function isHolder(position?: CommentPosition) {
+  return !!position && (BigInt(position.yes) > 0n || BigInt(position.no) > 0n);
+}
+
+const newestFirst = (a: MarketComment, b: MarketComment) => (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// One page of threads. `new` and `holders` page by the last comment id so new
+// posts don't shift later pages; `top` reorders as votes come in, so it pages
+// by offset instead.
+export function pageCommentThreads(
+  comments: MarketComment[],
+  {
+    sort,
+    limit,
+    cursor,
+    holders,
+  }: { sort: CommentSort; limit: number; cursor?: string; holders?: Set<string> },
+): Omit<CommentsPage, 'positions'> {
+  // A deleted comment is only shown as a placeholder for the live replies under it
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const shown = new Set<string>();
+  for (const comment of comments) {
+    if (comment.deleted) continue;
+    for (let next: MarketComment | undefined = comment; next && !shown.has(next.id); next = byId.get(next.parentId ?? '')) {
+      shown.add(next.id);
+    }
+  }
+  const visible = comments.filter(comment => shown.has(comment.id));
+  let roots = visible.filter(comment => !comment.parentId).sort(newestFirst);
+
+  let page: MarketComment[];
+  let nextCursor: string | null;
+  if (sort === 'top') {
+    roots.sort((a, b) => b.upvoters.length - a.upvoters.length || newestFirst(a, b));
+    const start = cursor ? Number(cursor) || 0 : 0;
+    page = roots.slice(start, start + limit);
+    nextCursor = start + limit < roots.length ? String(start + limit) : null;
+  } else {
+    if (sort === 'holders') roots = roots.filter(root => holders?.has(root.author));
+    const older = cursor ? roots.filter(root => root.id < cursor) : roots;
+    page = older.slice(0, limit);
+    nextCursor = older.length > limit ? page[page.length - 1].id : null;
+  }
+
+  const pageIds = new Set(page.map(root => root.id));
+  const replies = visible
+    .filter(comment => comment.rootId && pageIds.has(comment.rootId))
+    .sort((a, b) => -newestFirst(a, b));
+
+  return { comments: page, replies, nextCursor };
+}
+
+const COMMENT_POSITIONS_QUERY = `
+  query CommentPositions($market: String!, $users: [String!]!) {
+    positionBalances(where: { market: $market, user_in: $users, tokenBalance_gt: "0" }, first: 1000) {
+      user { id }
+      side
+      tokenBalance
+    }
+  }
+`;
+
+// Each author's current YES/NO balance in the market, from PositionBalance
+export async function fetchCommentPositions(
+  marketId: string,
+  authors: string[],
+): Promise<Record<string, CommentPosition>> {
+  const users = Array.from(new Set(authors.map(author => author.toLowerCase())));
+  if (users.length === 0) return {};
+
+  const data = await fetchSubgraph<{
+    positionBalances: Array<{ user: { id: string }; side: string; tokenBalance: string }>;
+  }>(COMMENT_POSITIONS_QUERY, { market: marketId, users });
+
+  const positions: Record<string, CommentPosition> = {};
+  for (const balance of data.positionBalances ?? []) {
+    const user = balance.user.id.toLowerCase();
+    positions[user] ??= { yes: '0', no: '0' };
+    if (balance.side === 'yes' || balance.side === 'no') positions[user][balance.side] = balance.tokenBalance;
+  }
+  return positions;
+}
@@ -0,0 +1,386 @@
+// A user's Buy/Sell/Redeemed/LP history as flat rows for tax reporting.
+// Realized PnL per disposal comes from the trade-history PnL engine, replayed
+// over the full history so exits inside a date range use the right basis.
+
+import { fetchSubgraph } from './subgraphClient';
+import {
+  computeDisposals,
+  pnlRedemptionFromSnapshot,
+  pnlTradeFromSnapshot,
+  type CostBasisMethod,
+  type PnlDisposal,
+  type PnlRedemption,
+  type PnlTrade,
+} from './pnl';
+
+const E18 = 10n ** 18n;
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+
+export type HistoryFormat = 'csv' | 'json';
+
+export type HistoryRowType =
+  | 'buy'
+  | 'sell'
+  | 'redeem'
+  | 'settle'
+  | 'lp_seed'
+  | 'lp_add'
+  | 'lp_claim_fees'
+  | 'lp_claim_residual';
+
+export interface HistoryRow {
+  timestamp: number;
+  date: string;
+  marketId: number;
+  question: string;
+  type: HistoryRowType;
+  side: 'yes' | 'no' | '';
+  shares: string;
+  usdc: string; // signed: negative when USDC leaves the wallet
+  fees: string;
+  price: string; // USDC per share actually paid or received
+  realizedPnl: string;
+  txHash: string;
+}
+
+export interface ExportMarket {
+  id: string;
+  question: string;
+  isResolved: boolean;
+  yesWins: boolean | null;
+  resolutionTimestamp: string | null;
+}
+
+export interface ExportTrade {
+  id: string;
+  txHash: string;
+  blockNumber: string;
+  logIndex: string;
+  timestamp: string;
+  action: string;
+  side: string;
+  tokenDelta: string;
+  usdcDelta: string;
+  feeTreasury: string;
+  feeVault: string;
+  feeLp: string;
+  market: ExportMarket;
+}
+
+export interface ExportRedemption {
+  id: string;
+  txHash: string;
+  blockNumber: string;
+  logIndex: string;
+  timestamp: string;
+  amount: string;
+  market: ExportMarket;
+}
+
+export interface ExportLiquidityEvent {
+  id: string;
+  txHash: string;
+  timestamp: string;
+  action: string;
+  amount: string;
+  market: ExportMarket;
+}
+
+export interface UserHistory {
+  trades: ExportTrade[];
+  redemptions: ExportRedemption[];
+  liquidityEvents: ExportLiquidityEvent[];
+}
+
+export interface HistoryRange {
+  from?: number; // unix seconds, inclusive
+  to?: number; // unix seconds, inclusive
+}
+
+const LP_ROW_TYPES: Record<string, HistoryRowType> = {
+  seed: 'lp_seed',
+  add: 'lp_add',
+  claimFees: 'lp_claim_fees',
+  claimResidual: 'lp_claim_residual',
+};
+
+const MARKET_FIELDS = `
+  market {
+    id
+    question
+    isResolved
+    yesWins
+    resolutionTimestamp
+  }
+`;
+
+const ROW_FIELDS: Record<keyof UserHistory, string> = {
+  trades: `
+    id
+    txHash
+    blockNumber
+    logIndex
+    timestamp
+    action
+    side
+    tokenDelta
+    usdcDelta
+    feeTreasury
+    feeVault
+    feeLp
+    ${MARKET_FIELDS}
+  `,
+  redemptions: `
+    id
+    txHash
+    blockNumber
+    logIndex
+    timestamp
+    amount
+    ${MARKET_FIELDS}
+  `,
+  liquidityEvents: `
+    id
+    txHash
+    timestamp
+    action
+    amount
+    ${MARKET_FIELDS}
+  `,
+};
+
+// Pages by id; `byMarket` adds a $market filter
+function historyQuery(entity: keyof UserHistory, byMarket: boolean) {
+  const marketVariable = byMarket ? ', $market: String!' : '';
+  const marketFilter = byMarket ? ' market: $market,' : '';
+  return `
+    query History($user: String!, $to: BigInt!, $after: String!, $first: Int!${marketVariable}) {
+      rows: ${entity}(where: { user: $user,${marketFilter} timestamp_lte: $to, id_gt: $after }, orderBy: id, first: $first) {
+        ${ROW_FIELDS[entity]}
+      }
+    }
+  `;
+}
+
+async function fetchAll<T extends { id: string }>(
+  entity: keyof UserHistory,
+  variables: { user: string; to: number; market?: string },
+): Promise<T[]> {
+  const query = historyQuery(entity, variables.market !== undefined);
+  const rows: T[] = [];
+  let after = '';
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await fetchSubgraph<{ rows: T[] }>(query, {
+      ...variables,
+      to: variables.to.toString(),
+      after,
+      first: PAGE_SIZE,
+    });
+    const batch = data.rows ?? [];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+    after = batch[batch.length - 1].id;
+  }
+  return rows;
+}
+
+async function fetchHistory(variables: { user: string; to: number; market?: string }): Promise<UserHistory> {
+  const [trades, redemptions, liquidityEvents] = await Promise.all([
+    fetchAll<ExportTrade>('trades', variables),
+    fetchAll<ExportRedemption>('redemptions', variables),
+    fetchAll<ExportLiquidityEvent>('liquidityEvents', variables),
+  ]);
+  return { trades, redemptions, liquidityEvents };
+}
+
+// Everything up to `to`; earlier history is needed for cost basis either way.
+export function fetchUserHistory(user: string, to?: number): Promise<UserHistory> {
+  return fetchHistory({ user: user.toLowerCase(), to: to ?? Math.floor(Date.now() / 1000) });
+}
+
+// The same paged history, narrowed to one market
+export function fetchUserMarketHistory(user: string, marketId: number | string): Promise<UserHistory> {
+  return fetchHistory({
+    user: user.toLowerCase(),
+    to: Math.floor(Date.now() / 1000),
+    market: marketId.toString(),
+  });
+}
+
+// Accepts unix seconds or a date; a bare YYYY-MM-DD `to` covers that whole day.
+export function parseRangeBound(value: string | null | undefined, endOfDay = false): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid date: ${value}`);
+  const seconds = Math.floor(ms / 1000);
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? seconds + 86_399 : seconds;
+}
+
+// viem's formatUnits, without pulling viem into the jsdom test environment
+function formatUnits(value: bigint, decimals: number) {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+const usdcString = (value: bigint) => formatUnits(value, 6);
+const sharesString = (value: bigint) => formatUnits(value, 18);
+const priceString = (usdc: bigint, tokens: bigint) => (tokens > 0n ? formatUnits((usdc * E18) / tokens, 6) : '');
+
+export function buildHistoryRows(
+  history: UserHistory,
+  method: CostBasisMethod,
+  range: HistoryRange = {},
+): HistoryRow[] {
+  const markets = new Map<number, ExportMarket>();
+  const tradesByMarket = new Map<number, Array<{ raw: ExportTrade; trade: PnlTrade }>>();
+  const redemptionsByMarket = new Map<number, Array<{ raw: ExportRedemption; redemption: PnlRedemption }>>();
+
+  for (const raw of history.trades) {
+    const trade = pnlTradeFromSnapshot({ ...raw, user: null, priceE6: null });
+    if (!trade) continue;
+    const marketId = Number(raw.market.id);
+    markets.set(marketId, raw.market);
+    tradesByMarket.set(marketId, [...(tradesByMarket.get(marketId) ?? []), { raw, trade }]);
+  }
+  for (const raw of history.redemptions) {
+    const marketId = Number(raw.market.id);
+    markets.set(marketId, raw.market);
+    const redemption = pnlRedemptionFromSnapshot(raw);
+    redemptionsByMarket.set(marketId, [...(redemptionsByMarket.get(marketId) ?? []), { raw, redemption }]);
+  }
+
+  const rows: HistoryRow[] = [];
+  const push = (row: Omit<HistoryRow, 'date'>) => {
+    rows.push({ ...row, date: new Date(row.timestamp * 1000).toISOString() });
+  };
+
+  for (const [marketId, market] of markets) {
+    const trades = tradesByMarket.get(marketId) ?? [];
+    const redemptions = redemptionsByMarket.get(marketId) ?? [];
+    const resolution = market.isResolved
+      ? { yesWins: Boolean(market.yesWins), timestamp: Number(market.resolutionTimestamp ?? 0) }
+      : null;
+
+    const disposals = computeDisposals({
+      trades: trades.map(entry => entry.trade),
+      redemptions: redemptions.map(entry => entry.redemption),
+      method,
+      markPriceYesE18: 0n,
+      resolution,
+    });
+    const bySource = new Map<PnlDisposal['source'], PnlDisposal>();
+    disposals.forEach(disposal => bySource.set(disposal.source, disposal));
+
+    for (const { raw, trade } of trades) {
+      const disposal = bySource.get(trade);
+      push({
+        timestamp: trade.timestamp,
+        marketId,
+        question: market.question,
+        type: trade.action,
+        side: trade.side,
+        shares: sharesString(trade.tokens),
+        usdc: usdcString(trade.action === 'buy' ? -trade.usdc : trade.usdc),
+        fees: usdcString(trade.fees),
+        price: priceString(trade.usdc, trade.tokens),
+        realizedPnl: disposal ? usdcString(disposal.realizedPnlUsdc) : '',
+        txHash: raw.txHash,
+      });
+    }
+
+    for (const { raw, redemption } of redemptions) {
+      const disposal = bySource.get(redemption);
+      push({
+        timestamp: redemption.timestamp,
+        marketId,
+        question: market.question,
+        type: 'redeem',
+        side: disposal?.side ?? (market.yesWins ? 'yes' : 'no'),
+        shares: disposal ? sharesString(disposal.tokens) : '',
+        usdc: usdcString(redemption.usdcOut),
+        fees: '0',
+        price: disposal ? priceString(redemption.usdcOut, disposal.tokens) : '1',
+        realizedPnl: disposal ? usdcString(disposal.realizedPnlUsdc) : '',
+        txHash: raw.txHash,
+      });
+    }
+
+    const settlement = bySource.get(null);
+    if (settlement) {
+      push({
+        timestamp: settlement.timestamp,
+        marketId,
+        question: market.question,
+        type: 'settle',
+        side: settlement.side,
+        shares: sharesString(settlement.tokens),
+        usdc: '0',
+        fees: '0',
+        price: '0',
+        realizedPnl: usdcString(settlement.realizedPnlUsdc),
+        txHash: '',
+      });
+    }
+  }
+
+  for (const raw of history.liquidityEvents) {
+    const type = LP_ROW_TYPES[raw.action];
+    if (!type) continue;
+    const amount = BigInt(raw.amount);
+    const outflow = type === 'lp_seed' || type === 'lp_add';
+    push({
+      timestamp: Number(raw.timestamp),
+      marketId: Number(raw.market.id),
+      question: raw.market.question,
+      type,
+      side: '',
+      shares: '',
+      usdc: usdcString(outflow ? -amount : amount),
+      fees: '0',
+      price: '',
+      realizedPnl: '',
+      txHash: raw.txHash,
+    });
+  }
+
+  return rows
+    .filter(row => (range.from === undefined || row.timestamp >= range.from) && (range.to === undefined || row.timestamp <= range.to))
+    .sort((a, b) => a.timestamp - b.timestamp || a.marketId - b.marketId);
+}
+
+const CSV_COLUMNS: Array<keyof HistoryRow> = [
+  'date',
+  'timestamp',
+  'marketId',
+  'question',
+  'type',
+  'side',
+  'shares',
+  'usdc',
+  'fees',
+  'price',
+  'realizedPnl',
+  'txHash',
+];
+
+// Keep spreadsheets from evaluating market questions as formulas. Only fully
+// numeric amounts keep a leading minus; free text is always neutralised.
+function csvCell(value: string | number, freeText = false) {
+  let text = String(value);
+  const numeric = !freeText && /^-?\d+(\.\d+)?$/.test(text);
+  if (/^[=+\-@\t\r]/.test(text) && !numeric) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function historyToCsv(rows: HistoryRow[]): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map(column => csvCell(row[column], column === 'question')).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
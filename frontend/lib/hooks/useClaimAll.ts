@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePublicClient, useWriteContract } from 'wagmi';
+import { parseAbi, parseEventLogs, type TransactionReceipt } from 'viem';
+import { addresses } from '@/lib/contracts';
+import { coreAbi, positionTokenAbi } from '@/lib/abis';
+import {
+  CLAIM_CALLS,
+  clearClaimBatch,
+  createClaimBatch,
+  loadClaimBatch,
+  reconcileClaimBalances,
+  redeemableUsdc,
+  retryFailedClaims,
+  saveClaimBatch,
+  withClaimItem,
+  type ClaimBatch,
+  type ClaimBatchItem,
+  type ClaimCandidate,
+} from '@/lib/claimBatches';
+
+interface UseClaimAllOptions {
+  account?: `0x${string}`;
+  onClaimed?: (item: ClaimBatchItem) => void;
+}
+
+// The claim events from coreAbi, typed so receipts decode with their args
+const claimEventsAbi = parseAbi([
+  'event Redeemed(uint256 indexed id, address indexed user, uint256 usdcOut)',
+  'event LpFeesClaimed(uint256 indexed id, address indexed lp, uint256 amount)',
+  'event LpResidualClaimed(uint256 indexed id, address indexed lp, uint256 amount)',
+]);
+
+function errorMessage(error: unknown) {
+  const raw = error instanceof Error ? error.message : String(error);
+  return raw.split('\n')[0]?.replace(/^Error:\s*/, '') || 'Claim failed';
+}
+
+// A rejected signature means the user wants to stop, not that one claim failed
+function isUserRejection(error: unknown) {
+  const name = (error as { name?: string })?.name ?? '';
+  return name === 'UserRejectedRequestError' || /user (rejected|denied)/i.test(errorMessage(error));
+}
+
+export function useClaimAll({ account, onClaimed }: UseClaimAllOptions) {
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const [batch, setBatch] = useState<ClaimBatch | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const batchRef = useRef<ClaimBatch | null>(null);
+  const runningRef = useRef(false);
+  const cancelRef = useRef(false);
+
+  const commit = useCallback(async (next: ClaimBatch) => {
+    const stamped = { ...next, updatedAt: Date.now() };
+    batchRef.current = stamped;
+    setBatch(stamped);
+    if (stamped.status === 'completed' || stamped.status === 'cancelled') {
+      await clearClaimBatch(stamped.account);
+    } else {
+      await saveClaimBatch(stamped);
+    }
+  }, []);
+
+  // Restore a persisted batch. One still marked running was cut off by a reload.
+  useEffect(() => {
+    if (!account) {
+      batchRef.current = null;
+      setBatch(null);
+      return;
+    }
+
+    let disposed = false;
+    loadClaimBatch(account).then(saved => {
+      if (disposed || !saved || runningRef.current) return;
+      const restored: ClaimBatch = saved.status === 'running'
+        ? { ...saved, status: 'paused', lastError: 'Interrupted before every market was claimed' }
+        : saved;
+      batchRef.current = restored;
+      setBatch(restored);
+    });
+
+    return () => {
+      disposed = true;
+    };
+  }, [account]);
+
+  const settleItem = useCallback((current: ClaimBatch, item: ClaimBatchItem, receipt: TransactionReceipt) => {
+    if (receipt.status !== 'success') {
+      return withClaimItem(current, item.key, { status: 'failed', error: 'Transaction reverted' });
+    }
+
+    const marketId = BigInt(item.marketId);
+    const account = current.account.toLowerCase();
+    let claimed: bigint | undefined;
+    for (const log of parseEventLogs({ abi: claimEventsAbi, logs: receipt.logs, eventName: CLAIM_CALLS[item.kind].eventName })) {
+      if (log.args.id !== marketId) continue;
+      if (log.eventName === 'Redeemed') {
+        if (log.args.user.toLowerCase() === account) claimed = log.args.usdcOut;
+      } else if (log.args.lp.toLowerCase() === account) {
+        claimed = log.args.amount;
+      }
+    }
+    // claimLp* return early without an event when nothing was owed
+    const usdcOut = claimed ?? (item.kind === 'redeem' ? item.expectedUsdc : 0n);
+    return withClaimItem(current, item.key, { status: 'confirmed', usdcOut, error: undefined });
+  }, []);
+
+  // One multicall for every winning balance and pending LP amount still to be claimed
+  const precheck = useCallback(async (current: ClaimBatch) => {
+    if (!publicClient) return current;
+    const open = current.items.filter(item =>
+      (item.status === 'pending' || item.status === 'failed') && (item.kind !== 'redeem' || item.token),
+    );
+    if (open.length === 0) return current;
+
+    const results = await publicClient.multicall({
+      contracts: open.map(item =>
+        item.kind === 'redeem'
+          ? {
+              address: item.token!,
+              abi: positionTokenAbi,
+              functionName: 'balanceOf',
+              args: [current.account],
+            }
+          : {
+              address: addresses.core,
+              abi: coreAbi,
+              functionName: item.kind === 'lpFees' ? 'pendingLpFees' : 'pendingLpResidual',
+              args: [BigInt(item.marketId), current.account],
+            },
+      ),
+      allowFailure: true,
+    });
+
+    const claimable = new Map<string, bigint>();
+    results.forEach((result, index) => {
+      if (result.status !== 'success') return;
+      const item = open[index];
+      const amount = result.result as bigint;
+      claimable.set(item.key, item.kind === 'redeem' ? redeemableUsdc(amount) : amount);
+    });
+    return reconcileClaimBalances(current, claimable);
+  }, [publicClient]);
+
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    if (!publicClient) throw new Error('RPC client unavailable');
+    if (!account) throw new Error('Connect wallet to claim');
+
+    let current = batchRef.current;
+    if (!current) return;
+
+    runningRef.current = true;
+    cancelRef.current = false;
+    setIsRunning(true);
+
+    const settle = async (item: ClaimBatchItem, hash: `0x${string}`) => {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      current = settleItem(current!, item, receipt);
+      await commit(current);
+      const settled = current.items.find(entry => entry.key === item.key);
+      if (settled?.status === 'confirmed') onClaimed?.(settled);
+    };
+
+    try {
+      // A redeem sent just before an interruption may have landed since
+      for (const item of current.items) {
+        if (item.status === 'submitted' && item.txHash) await settle(item, item.txHash);
+      }
+
+      current = await precheck(current);
+      await commit(current);
+
+      for (const item of current.items) {
+        if (cancelRef.current) break;
+        if (item.status !== 'pending') continue;
+
+        try {
+          const id = BigInt(item.marketId);
+          const txHash = await writeContractAsync({
+            address: addresses.core,
+            abi: coreAbi,
+            functionName: CLAIM_CALLS[item.kind].functionName,
+            args: item.kind === 'redeem' ? [id, item.isYes] : [id],
+          });
+          current = withClaimItem(current, item.key, { status: 'submitted', txHash, error: undefined });
+          await commit(current);
+          await settle(item, txHash);
+        } catch (error) {
+          if (isUserRejection(error)) {
+            current = withClaimItem(current, item.key, { status: 'pending', error: 'Signature rejected' });
+            await commit({ ...current, status: 'paused', lastError: 'Signature rejected' });
+            return;
+          }
+          // Keep going; failed claims can be retried from the summary
+          current = withClaimItem(current, item.key, { status: 'failed', error: errorMessage(error) });
+          await commit(current);
+        }
+      }
+
+      const unsent = current.items.some(item => item.status === 'pending');
+      await commit({ ...current, status: unsent ? 'cancelled' : 'completed', lastError: undefined });
+    } catch (error) {
+      const message = errorMessage(error);
+      await commit({ ...(batchRef.current ?? current), status: 'paused', lastError: message });
+      throw error;
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+  }, [publicClient, account, writeContractAsync, commit, settleItem, precheck, onClaimed]);
+
+  const start = useCallback(async (candidates: ClaimCandidate[]) => {
+    if (runningRef.current) throw new Error('A claim-all batch is already running');
+    if (!account) throw new Error('Connect wallet to claim');
+    if (candidates.length === 0) return;
+
+    await commit(createClaimBatch(account, candidates));
+    await run();
+  }, [account, commit, run]);
+
+  const resume = useCallback(async () => {
+    const current = batchRef.current;
+    if (!current || current.status !== 'paused') return;
+    await commit({ ...current, status: 'running', lastError: undefined });
+    await run();
+  }, [commit, run]);
+
+  const retryFailed = useCallback(async () => {
+    const current = batchRef.current;
+    if (!current || runningRef.current || !current.items.some(item => item.status === 'failed')) return;
+    await commit(retryFailedClaims(current));
+    await run();
+  }, [commit, run]);
+
+  // Stops after the redeem in flight; a paused batch is abandoned immediately.
+  const cancel = useCallback(async () => {
+    if (runningRef.current) {
+      cancelRef.current = true;
+      return;
+    }
+    const current = batchRef.current;
+    if (!current || current.status !== 'paused') return;
+    await commit({ ...current, status: 'cancelled' });
+  }, [commit]);
+
+  const dismiss = useCallback(() => {
+    const current = batchRef.current;
+    if (!current || current.status === 'running' || current.status === 'paused') return;
+    batchRef.current = null;
+    setBatch(null);
+  }, []);
+
+  return {
+    batch,
+    isRunning,
+    start,
+    resume,
+    retryFailed,
+    cancel,
+    dismiss,
+  };
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery, type InfiniteData } from '@tanstack/react-query';
+import {
+  fetchClaimHistoryPage,
+  loadPendingClaims,
+  reconcilePendingClaims,
+  savePendingClaims,
+  type ClaimHistoryCursor,
+  type ClaimHistoryEntry,
+  type ClaimHistoryPage,
+} from '@/lib/claimHistory';
+
+const FIRST_PAGE: ClaimHistoryCursor = { redemptions: 0, lpEvents: 0 };
+
+export function useClaimHistory(account?: `0x${string}`) {
+  const [pending, setPending] = useState<ClaimHistoryEntry[]>([]);
+
+  useEffect(() => {
+    setPending(account ? loadPendingClaims(account) : []);
+  }, [account]);
+
+  const query = useInfiniteQuery<
+    ClaimHistoryPage,
+    Error,
+    InfiniteData<ClaimHistoryPage, ClaimHistoryCursor>,
+    Array<string | undefined>,
+    ClaimHistoryCursor
+  >({
+    queryKey: ['claimHistory', account?.toLowerCase()],
+    enabled: !!account,
+    initialPageParam: FIRST_PAGE,
+    getNextPageParam: lastPage => lastPage.next ?? undefined,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: ({ pageParam }) => fetchClaimHistoryPage(account!, pageParam),
+  });
+
+  const indexed = useMemo(() => query.data?.pages.flatMap(page => page.entries) ?? [], [query.data]);
+
+  // Drop pending claims the indexer has caught up with
+  useEffect(() => {
+    if (!account || !query.data) return;
+    const stillPending = reconcilePendingClaims(indexed, pending);
+    if (stillPending.length !== pending.length) {
+      setPending(stillPending);
+      savePendingClaims(account, stillPending);
+    }
+  }, [account, indexed, pending, query.data]);
+
+  const addPendingClaims = useCallback((entries: ClaimHistoryEntry[]) => {
+    if (!account || entries.length === 0) return;
+    setPending(current => {
+      const seen = new Set(current.map(entry => entry.id));
+      const next = [...entries.filter(entry => !seen.has(entry.id)).map(entry => ({ ...entry, pending: true })), ...current];
+      savePendingClaims(account, next);
+      return next;
+    });
+  }, [account]);
+
+  const entries = useMemo(() => [...pending, ...indexed], [pending, indexed]);
+  const totalClaimedUsdc = useMemo(
+    () =>
+      (query.data?.pages[0]?.totalClaimedUsdc ?? 0n) +
+      pending.reduce((sum, entry) => sum + BigInt(entry.amountUsdc), 0n),
+    [query.data, pending],
+  );
+
+  return {
+    entries,
+    totalClaimedUsdc,
+    addPendingClaims,
+    isLoading: query.isLoading,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { addresses } from '@/lib/contracts';
+import { coreAbi } from '@/lib/abis';
+import { fetchSubgraph } from '@/lib/subgraphClient';
+
+export interface LpClaim {
+  marketId: number;
+  question: string;
+  isResolved: boolean;
+  lpShares: bigint;
+  pendingFees: bigint;
+  pendingResidual: bigint;
+}
+
+const LP_POSITIONS_QUERY = `
+  query LpPositions($user: String!) {
+    liquidityPositions(where: { user: $user }, first: 1000) {
+      market {
+        id
+        question
+        isResolved
+      }
+    }
+  }
+`;
+
+const LP_READS = ['lpShares', 'pendingLpFees', 'pendingLpResidual'] as const;
+
+// Every market where the wallet provided liquidity and still has fees or a
+// finalized residual to claim. Amounts are read on-chain in one multicall.
+export function useLpClaims(account?: `0x${string}`) {
+  const publicClient = usePublicClient();
+
+  const query = useQuery<LpClaim[]>({
+    queryKey: ['lpClaims', account?.toLowerCase()],
+    enabled: !!account && !!publicClient,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      if (!account || !publicClient) return [];
+
+      const data = await fetchSubgraph<{
+        liquidityPositions: Array<{ market: { id: string; question: string; isResolved: boolean } }>;
+      }>(LP_POSITIONS_QUERY, { user: account.toLowerCase() });
+      const markets = data.liquidityPositions ?? [];
+      if (markets.length === 0) return [];
+
+      const results = await publicClient.multicall({
+        contracts: markets.flatMap(({ market }) =>
+          LP_READS.map(functionName => ({
+            address: addresses.core,
+            abi: coreAbi,
+            functionName,
+            args: [BigInt(market.id), account],
+          })),
+        ),
+        allowFailure: true,
+      });
+      const read = (index: number) =>
+        results[index]?.status === 'success' ? (results[index].result as bigint) : 0n;
+
+      return markets.map(({ market }, index) => ({
+        marketId: Number(market.id),
+        question: market.question,
+        isResolved: market.isResolved,
+        lpShares: read(index * LP_READS.length),
+        pendingFees: read(index * LP_READS.length + 1),
+        pendingResidual: read(index * LP_READS.length + 2),
+      }));
+    },
+  });
+
+  const claims = useMemo(
+    () => (query.data ?? []).filter(claim => claim.pendingFees > 0n || claim.pendingResidual > 0n),
+    [query.data],
+  );
+  const totalUsdc = useMemo(
+    () => claims.reduce((sum, claim) => sum + claim.pendingFees + claim.pendingResidual, 0n),
+    [claims],
+  );
+
+  return {
+    claims,
+    totalUsdc,
+    isLoading: query.isLoading,
+    refetch: query.refetch,
+  };
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { useSignMessage } from 'wagmi';
+import {
+  commentMessage,
+  deleteCommentMessage,
+  normalizeCommentBody,
+  voteCommentMessage,
+  type CommentPosition,
+  type CommentSort,
+  type CommentsPage,
+  type MarketComment,
+} from '@/lib/comments';
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error ?? `Request failed with status ${response.status}`);
+  }
+  return data as T;
+}
+
+export function useMarketComments(marketId: string, account?: `0x${string}`, sort: CommentSort = 'new') {
+  const queryClient = useQueryClient();
+  const { signMessageAsync } = useSignMessage();
+  const url = `/api/markets/${marketId}/comments`;
+
+  const query = useInfiniteQuery<CommentsPage, Error, InfiniteData<CommentsPage, string | null>, string[], string | null>({
+    queryKey: ['marketComments', marketId, sort],
+    enabled: !!marketId,
+    initialPageParam: null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    staleTime: 15_000,
+    refetchInterval: 30_000,
+    refetchOnWindowFocus: false,
+    queryFn: ({ pageParam }) => {
+      const params = new URLSearchParams({ sort });
+      if (pageParam) params.set('cursor', pageParam);
+      return requestJson<CommentsPage>(`${url}?${params}`);
+    },
+  });
+
+  // Pages can overlap when `top` reorders between fetches, so keep the first copy
+  const { comments, replies, positions } = useMemo(() => {
+    const seen = new Set<string>();
+    const unique = (list: MarketComment[]) =>
+      list.filter(comment => {
+        if (seen.has(comment.id)) return false;
+        seen.add(comment.id);
+        return true;
+      });
+    const pages = query.data?.pages ?? [];
+    return {
+      comments: unique(pages.flatMap(page => page.comments)),
+      replies: unique(pages.flatMap(page => page.replies)),
+      positions: Object.assign({}, ...pages.map(page => page.positions)) as Record<string, CommentPosition>,
+    };
+  }, [query.data]);
+
+  const postComment = useCallback(async (body: string, parentId?: string) => {
+    if (!account) throw new Error('Connect a wallet to comment');
+    const text = normalizeCommentBody(body);
+    const issuedAt = Date.now();
+    const signature = await signMessageAsync({ message: commentMessage({ marketId, body: text, parentId, issuedAt }) });
+
+    const { comment } = await requestJson<{ comment: MarketComment }>(url, {
+      method: 'POST',
+      body: JSON.stringify({ author: account, body: text, parentId, issuedAt, signature }),
+    });
+    await queryClient.invalidateQueries({ queryKey: ['marketComments', marketId] });
+    return comment;
+  }, [account, marketId, queryClient, signMessageAsync, url]);
+
+  const voteComment = useCallback(async (commentId: string, up: boolean) => {
+    if (!account) throw new Error('Connect a wallet to vote');
+    const issuedAt = Date.now();
+    const signature = await signMessageAsync({ message: voteCommentMessage(marketId, commentId, up, issuedAt) });
+
+    await requestJson(`${url}/${encodeURIComponent(commentId)}/votes`, {
+      method: 'POST',
+      body: JSON.stringify({ voter: account, up, issuedAt, signature }),
+    });
+    await queryClient.invalidateQueries({ queryKey: ['marketComments', marketId] });
+  }, [account, marketId, queryClient, signMessageAsync, url]);
+
+  const deleteComment = useCallback(async (commentId: string) => {
+    if (!account) throw new Error('Connect a wallet to delete comments');
+    const issuedAt = Date.now();
+    const signature = await signMessageAsync({ message: deleteCommentMessage(marketId, commentId, issuedAt) });
+
+    await requestJson(url, {
+      method: 'DELETE',
+      body: JSON.stringify({ commentId, author: account, issuedAt, signature }),
+    });
+    await queryClient.invalidateQueries({ queryKey: ['marketComments', marketId] });
+  }, [account, marketId, queryClient, signMessageAsync, url]);
+
+  return {
+    comments,
+    replies,
+    positions,
+    postComment,
+    voteComment,
+    deleteComment,
+    isLoading: query.isLoading,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
+}
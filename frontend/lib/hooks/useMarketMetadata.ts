@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAccount, useSignMessage } from 'wagmi';
+import {
+  metadataMessage,
+  parseMarketMetadataFields,
+  type MarketMetadata,
+  type MarketMetadataFields,
+} from '@/lib/marketMetadata';
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<{ status: number; data: T }> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok && response.status !== 404) {
+    throw new Error(data?.error ?? `Request failed with status ${response.status}`);
+  }
+  return { status: response.status, data };
+}
+
+export function useMarketMetadata(marketId?: string) {
+  return useQuery<MarketMetadata | null>({
+    queryKey: ['marketMetadata', marketId],
+    enabled: !!marketId,
+    staleTime: 5 * 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const { status, data } = await fetchJson<{ metadata: MarketMetadata }>(`/api/markets/${marketId}/metadata`);
+      return status === 404 ? null : data.metadata;
+    },
+  });
+}
+
+// Every market's metadata, keyed by market id
+export function useMarketsMetadata() {
+  return useQuery<Record<string, MarketMetadata>>({
+    queryKey: ['marketMetadata', 'all'],
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const { data } = await fetchJson<{ metadata: Record<string, MarketMetadata> }>('/api/markets/metadata');
+      return data?.metadata ?? {};
+    },
+  });
+}
+
+export function usePublishMarketMetadata() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const queryClient = useQueryClient();
+
+  return useCallback(async (marketId: string, input: MarketMetadataFields) => {
+    if (!address) throw new Error('Connect the wallet that created the market');
+    // Sign exactly what the server will validate and store
+    const fields = parseMarketMetadataFields({ ...input });
+    const issuedAt = Date.now();
+    const signature = await signMessageAsync({ message: metadataMessage(marketId, fields, issuedAt) });
+
+    const response = await fetch(`/api/markets/${marketId}/metadata`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...fields, creator: address, issuedAt, signature }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(data?.error ?? `Request failed with status ${response.status}`);
+
+    await queryClient.invalidateQueries({ queryKey: ['marketMetadata'] });
+    return data.metadata as MarketMetadata;
+  }, [address, queryClient, signMessageAsync]);
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchSubgraph } from '@/lib/subgraphClient';
+import { fetchUserMarketHistory } from '@/lib/historyExport';
+import type { CostBasisMethod } from '@/lib/pnl';
+import {
+  marketPnlFor,
+  pnlHistoryByMarket,
+  PORTFOLIO_MARKET_FIELDS,
+  type PnlHistory,
+  type PortfolioBalance,
+  type PortfolioMarket,
+} from '@/lib/portfolio';
+
+const MARKET_POSITION_QUERY = `
+  query MarketPosition($market: String!, $user: String!) {
+    market(id: $market) {
+      ${PORTFOLIO_MARKET_FIELDS}
+    }
+    positionBalances(where: { market: $market, user: $user }) {
+      side
+      tokenBalance
+      costBasisUsdc
+      realizedPnlUsdc
+      market {
+        ${PORTFOLIO_MARKET_FIELDS}
+      }
+    }
+  }
+`;
+
+interface MarketPnlData {
+  market: PortfolioMarket | null;
+  balances: PortfolioBalance[];
+  history: PnlHistory;
+}
+
+// Same history, paging and fallback to the subgraph basis as /portfolio, so
+// both show the same cost basis and PnL for a wallet's position.
+export function useMarketPnl(
+  marketId: number | null,
+  account: string | undefined,
+  method: CostBasisMethod,
+  markPriceYesE18: bigint,
+) {
+  const query = useQuery<MarketPnlData>({
+    queryKey: ['marketPnl', marketId, account?.toLowerCase()],
+    enabled: marketId !== null && marketId >= 0 && !!account,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const empty = { trades: [], redemptions: [] };
+      if (marketId === null || !account) return { market: null, balances: [], history: empty };
+
+      const [data, history] = await Promise.all([
+        fetchSubgraph<{ market: PortfolioMarket | null; positionBalances: PortfolioBalance[] }>(
+          MARKET_POSITION_QUERY,
+          { market: marketId.toString(), user: account.toLowerCase() },
+        ),
+        fetchUserMarketHistory(account, marketId),
+      ]);
+
+      return {
+        market: data.market,
+        balances: data.positionBalances ?? [],
+        history: pnlHistoryByMarket(history).get(marketId) ?? empty,
+      };
+    },
+  });
+
+  const pnl = useMemo(() => {
+    if (!query.data?.market || query.data.history.trades.length === 0) return null;
+    const { market, balances, history } = query.data;
+    return marketPnlFor(market, balances, history, method, markPriceYesE18);
+  }, [query.data, method, markPriceYesE18]);
+
+  return { pnl, isLoading: query.isLoading };
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { PricePoint } from '../priceHistory/types';
 import { withSeedPoint } from '../marketUtils';
-import type { SnapshotTrade, SnapshotTimeRange } from '../useMarketSnapshot';
+import type { SnapshotCandle, SnapshotTimeRange } from '../useMarketSnapshot';
 
 declare global {
   interface Window {
@@ -180,29 +180,26 @@ export function useMarketPriceHistory(
     if (historyLoading) return;
 
     const snapshotPriceHistory =
-      (snapshotData?.tradesAsc as SnapshotTrade[] | undefined)
-        ?.map((trade: SnapshotTrade | null): PricePoint | null => {
+      (snapshotData?.candles as SnapshotCandle[] | undefined)
+        ?.map((candle: SnapshotCandle | null): PricePoint | null => {
           if (
-            !trade?.timestamp ||
-            trade.priceE6 === null ||
-            trade.priceE6 === undefined
+            !candle?.periodStart ||
+            candle.close === null ||
+            candle.close === undefined
           ) {
             return null;
           }
-          const timestamp = Number(trade.timestamp);
-          const priceYesValue = Number(trade.priceE6) / 1e6;
+          const timestamp = Number(candle.periodStart);
+          const priceYesValue = Number(candle.close) / 1e6;
           if (!Number.isFinite(timestamp) || timestamp <= 0 || !Number.isFinite(priceYesValue)) {
             return null;
           }
-          const point: PricePoint = {
+          return {
             timestamp,
             priceYes: Math.max(0, Math.min(1, priceYesValue)),
             priceNo: Math.max(0, Math.min(1, 1 - priceYesValue)),
+            txHash: `candle-${candle.periodStart}`,
           };
-          if (trade.txHash) {
-            point.txHash = trade.txHash;
-          }
-          return point;
         })
         .filter((point): point is PricePoint => point !== null) ?? [];
 
@@ -321,7 +318,7 @@ export function useMarketPriceHistory(
       const merged = Array.from(mergedDedup.values()).sort((a, b) => a.timestamp - b.timestamp);
       return withSeedPoint(merged, fallbackChartPointRef.current);
     });
-  }, [historyLoading, snapshotData?.tradesAsc, marketCreatedAt, snapshotData?.createdAt]);
+  }, [historyLoading, snapshotData?.candles, marketCreatedAt, snapshotData?.createdAt]);
 
   // Store refs for stable event handler
   const marketIdNumRef = useRef(marketIdNum);
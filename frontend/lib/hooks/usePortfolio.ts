@@ -0,0 +1,117 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { usePublicClient } from 'wagmi';
+import { addresses } from '@/lib/contracts';
+import { coreAbi } from '@/lib/abis';
+import { fetchSubgraph } from '@/lib/subgraphClient';
+import { fetchUserHistory } from '@/lib/historyExport';
+import type { CostBasisMethod, MarketPnl } from '@/lib/pnl';
+import {
+  buildPortfolioRows,
+  marketPnlFor,
+  pnlHistoryByMarket,
+  PORTFOLIO_MARKET_FIELDS,
+  type PnlHistory,
+  type PortfolioBalance,
+  type PortfolioLp,
+  type PortfolioMarket,
+} from '@/lib/portfolio';
+
+const PORTFOLIO_QUERY = `
+  query Portfolio($user: String!) {
+    positionBalances(where: { user: $user }, first: 1000) {
+      side
+      tokenBalance
+      costBasisUsdc
+      realizedPnlUsdc
+      market {
+        ${PORTFOLIO_MARKET_FIELDS}
+      }
+    }
+    liquidityPositions(where: { user: $user }, first: 1000) {
+      market {
+        ${PORTFOLIO_MARKET_FIELDS}
+      }
+    }
+  }
+`;
+
+interface PortfolioData {
+  balances: PortfolioBalance[];
+  lps: PortfolioLp[];
+  history: Map<number, PnlHistory>;
+}
+
+export function usePortfolio(account?: `0x${string}`, method: CostBasisMethod = 'average') {
+  const publicClient = usePublicClient();
+
+  const query = useQuery<PortfolioData>({
+    queryKey: ['portfolio', account?.toLowerCase()],
+    enabled: !!account && !!publicClient,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      if (!account || !publicClient) {
+        return { balances: [], lps: [], history: new Map() };
+      }
+
+      // Trades and redemptions are paged in full: a truncated history would skew every basis
+      const [data, history] = await Promise.all([
+        fetchSubgraph<{
+          positionBalances: PortfolioBalance[];
+          liquidityPositions: Array<{ market: PortfolioMarket }>;
+        }>(PORTFOLIO_QUERY, { user: account.toLowerCase() }),
+        fetchUserHistory(account),
+      ]);
+
+      // LP accounting lives on-chain; the subgraph only tells us where to look
+      const readLp = (functionName: string, id: bigint) =>
+        (publicClient.readContract({
+          address: addresses.core,
+          abi: coreAbi,
+          functionName,
+          args: [id, account],
+        }) as Promise<bigint>).catch(() => 0n);
+
+      const lps: PortfolioLp[] = await Promise.all(
+        (data.liquidityPositions ?? []).map(async ({ market }) => {
+          const id = BigInt(market.id);
+          const [lpShares, pendingFees, pendingResidual] = await Promise.all([
+            readLp('lpShares', id),
+            readLp('pendingLpFees', id),
+            readLp('pendingLpResidual', id),
+          ]);
+          return { marketId: Number(market.id), market, lpShares, pendingFees, pendingResidual };
+        }),
+      );
+
+      return { balances: data.positionBalances ?? [], lps, history: pnlHistoryByMarket(history) };
+    },
+  });
+
+  const rows = useMemo(() => {
+    if (!query.data) return [];
+    const { balances, lps, history } = query.data;
+
+    const pnlByMarket = new Map<number, MarketPnl>();
+    for (const { market } of balances) {
+      const marketId = Number(market.id);
+      const marketHistory = history.get(marketId);
+      if (pnlByMarket.has(marketId) || !marketHistory) continue;
+      const marketBalances = balances.filter(balance => balance.market.id === market.id);
+      pnlByMarket.set(marketId, marketPnlFor(market, marketBalances, marketHistory, method));
+    }
+
+    return buildPortfolioRows(balances, lps, pnlByMarket);
+  }, [query.data, method]);
+
+  return {
+    rows,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
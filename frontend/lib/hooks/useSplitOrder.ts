@@ -0,0 +1,322 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePublicClient, useWriteContract } from 'wagmi';
+import { parseEventLogs, type TransactionReceipt } from 'viem';
+import { addresses } from '@/lib/contracts';
+import { coreAbi, usdcAbi, type CoreMarketTuple } from '@/lib/abis';
+import { maxUsdcBeforeJump, nextChunkUsdc, simulateBuyChunk } from '@/lib/lmsrMath';
+import {
+  clearSplitOrder,
+  createSplitOrder,
+  loadSplitOrder,
+  planSplitChunks,
+  saveSplitOrder,
+  type SplitOrder,
+  type SplitOrderChunk,
+} from '@/lib/splitOrders';
+
+type MarketState = readonly [bigint, bigint, bigint, bigint, bigint];
+
+type BuyLog = { args: { id: bigint; user: `0x${string}`; tokensOut: bigint } };
+
+interface UseSplitOrderOptions {
+  marketId: number;
+  account?: `0x${string}`;
+  onChunkConfirmed?: () => void | Promise<void>;
+}
+
+function withChunk(order: SplitOrder, index: number, patch: Partial<SplitOrderChunk>): SplitOrder {
+  const exists = order.chunks.some(chunk => chunk.index === index);
+  const chunks = exists
+    ? order.chunks.map(chunk => (chunk.index === index ? { ...chunk, ...patch } : chunk))
+    : [...order.chunks, { index, usdcIn: 0n, status: 'pending' as const, ...patch }];
+  return { ...order, chunks };
+}
+
+// Local replica of core.maxUsdcBeforeJump for freshly read market state
+function jumpCapFor(market: CoreMarketTuple, state: MarketState, maxInstantJumpE18: bigint, isYes: boolean) {
+  return maxUsdcBeforeJump({
+    qYes: state[0],
+    qNo: state[1],
+    bE18: state[3],
+    usdcVault: state[2],
+    feeTreasuryBps: Number(market[6]),
+    feeVaultBps: Number(market[7]),
+    feeLpBps: Number(market[8]),
+    maxUsdcPerTrade: market[15],
+    priceBandThreshold: market[16],
+    maxJumpE18: market[17],
+    maxInstantJumpE18,
+  }, isYes);
+}
+
+function errorMessage(error: unknown) {
+  const raw = error instanceof Error ? error.message : String(error);
+  return raw.split('\n')[0]?.replace(/^Error:\s*/, '') || 'Split order failed';
+}
+
+export function useSplitOrder({ marketId, account, onChunkConfirmed }: UseSplitOrderOptions) {
+  const publicClient = usePublicClient();
+  const { writeContractAsync } = useWriteContract();
+  const [order, setOrder] = useState<SplitOrder | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const orderRef = useRef<SplitOrder | null>(null);
+  const runningRef = useRef(false);
+  const cancelRef = useRef(false);
+
+  const commit = useCallback(async (next: SplitOrder) => {
+    const stamped = { ...next, updatedAt: Date.now() };
+    orderRef.current = stamped;
+    setOrder(stamped);
+    if (stamped.status === 'completed' || stamped.status === 'cancelled') {
+      await clearSplitOrder(stamped.marketId, stamped.account);
+    } else {
+      await saveSplitOrder(stamped);
+    }
+  }, []);
+
+  // Restore a persisted order. One still marked running was cut off by a reload.
+  useEffect(() => {
+    if (!account || marketId < 0) {
+      orderRef.current = null;
+      setOrder(null);
+      return;
+    }
+
+    let disposed = false;
+    loadSplitOrder(marketId, account).then(saved => {
+      if (disposed || !saved || runningRef.current) return;
+      const restored: SplitOrder = saved.status === 'running'
+        ? { ...saved, status: 'paused', lastError: 'Interrupted before all chunks were sent' }
+        : saved;
+      orderRef.current = restored;
+      setOrder(restored);
+    });
+
+    return () => {
+      disposed = true;
+    };
+  }, [marketId, account]);
+
+  const settleChunk = useCallback((current: SplitOrder, index: number, receipt: TransactionReceipt) => {
+    const chunk = current.chunks.find(c => c.index === index);
+    if (!chunk) return current;
+
+    if (receipt.status !== 'success') {
+      return withChunk(current, index, { status: 'failed', error: 'Transaction reverted' });
+    }
+
+    const buys = parseEventLogs({ abi: coreAbi, logs: receipt.logs, eventName: 'Buy' }) as unknown as BuyLog[];
+    const buy = buys.find(log =>
+      log.args.id === BigInt(current.marketId) &&
+      log.args.user.toLowerCase() === current.account.toLowerCase(),
+    );
+    const tokensOut = buy?.args.tokensOut ?? 0n;
+
+    return {
+      ...withChunk(current, index, { status: 'confirmed', tokensOut, error: undefined }),
+      filledUsdc: current.filledUsdc + chunk.usdcIn,
+      filledTokens: current.filledTokens + tokensOut,
+    };
+  }, []);
+
+  const run = useCallback(async () => {
+    if (runningRef.current) return;
+    if (!publicClient) throw new Error('RPC client unavailable');
+    if (!account) throw new Error('Connect wallet to trade');
+
+    let current = orderRef.current;
+    if (!current) return;
+
+    runningRef.current = true;
+    cancelRef.current = false;
+    setIsRunning(true);
+    const id = BigInt(current.marketId);
+    const isYes = current.side === 'yes';
+
+    try {
+      // A chunk sent just before an interruption may have landed since
+      for (const chunk of current.chunks) {
+        if (chunk.status !== 'submitted' || !chunk.txHash) continue;
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: chunk.txHash });
+        current = settleChunk(current, chunk.index, receipt);
+        await commit(current);
+      }
+
+      while (!cancelRef.current) {
+        const remaining = current.totalUsdc - current.filledUsdc;
+        if (remaining <= 0n) break;
+
+        // Re-quote every chunk against fresh on-chain state
+        const [state, market, maxInstantJumpE18, allowance] = await Promise.all([
+          publicClient.readContract({
+            address: addresses.core,
+            abi: coreAbi,
+            functionName: 'getMarketState',
+            args: [id],
+          }) as Promise<MarketState>,
+          publicClient.readContract({
+            address: addresses.core,
+            abi: coreAbi,
+            functionName: 'markets',
+            args: [id],
+          }) as Promise<CoreMarketTuple>,
+          publicClient.readContract({
+            address: addresses.core,
+            abi: coreAbi,
+            functionName: 'maxInstantJumpE18',
+            args: [],
+          }) as Promise<bigint>,
+          publicClient.readContract({
+            address: addresses.usdc,
+            abi: usdcAbi,
+            functionName: 'allowance',
+            args: [account, addresses.core],
+          }) as Promise<bigint>,
+        ]);
+
+        const jumpCap = jumpCapFor(market, state, maxInstantJumpE18, isYes);
+        const chunkUsdc = nextChunkUsdc(remaining, jumpCap, market[15]);
+        if (chunkUsdc <= 0n) throw new Error('No room under the price jump cap for another chunk');
+
+        const simulation = simulateBuyChunk(
+          chunkUsdc,
+          state[0],
+          state[1],
+          state[3],
+          Number(market[6]),
+          Number(market[7]),
+          Number(market[8]),
+          isYes,
+        );
+        if (!simulation) throw new Error('Unable to quote the next chunk');
+        const minOut = simulation.minOut > 0n ? simulation.minOut : 1n;
+
+        const next = current.chunks.find(chunk => chunk.status === 'pending' || chunk.status === 'failed');
+        const index = next ? next.index : current.chunks.length;
+        current = withChunk(current, index, { usdcIn: chunkUsdc, status: 'pending', error: undefined });
+        await commit(current);
+
+        if (allowance < chunkUsdc) {
+          const approveHash = await writeContractAsync({
+            address: addresses.usdc,
+            abi: usdcAbi,
+            functionName: 'approve',
+            args: [addresses.core, remaining],
+          });
+          await publicClient.waitForTransactionReceipt({ hash: approveHash });
+        }
+
+        const { request } = await publicClient.simulateContract({
+          address: addresses.core,
+          abi: coreAbi,
+          functionName: isYes ? 'buyYes' : 'buyNo',
+          args: [id, chunkUsdc, minOut],
+          account,
+        });
+        const txHash = await writeContractAsync(request);
+        current = withChunk(current, index, { status: 'submitted', txHash });
+        await commit(current);
+
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+        current = settleChunk(current, index, receipt);
+        await commit(current);
+        if (receipt.status !== 'success') throw new Error(`Chunk ${index + 1} reverted`);
+
+        await onChunkConfirmed?.();
+      }
+
+      const done = current.totalUsdc - current.filledUsdc <= 0n;
+      current = {
+        ...current,
+        status: done ? 'completed' : 'cancelled',
+        lastError: undefined,
+        chunks: current.chunks.filter(chunk => chunk.status !== 'pending'),
+      };
+      await commit(current);
+    } catch (error) {
+      const message = errorMessage(error);
+      const latest = orderRef.current ?? current;
+      const pending = latest.chunks.find(chunk => chunk.status === 'pending');
+      const paused = pending ? withChunk(latest, pending.index, { error: message }) : latest;
+      await commit({ ...paused, status: 'paused', lastError: message });
+      throw error;
+    } finally {
+      runningRef.current = false;
+      setIsRunning(false);
+    }
+  }, [publicClient, account, writeContractAsync, commit, settleChunk, onChunkConfirmed]);
+
+  const start = useCallback(async (side: 'yes' | 'no', totalUsdc: bigint) => {
+    if (runningRef.current) throw new Error('A split order is already running');
+    if (!publicClient) throw new Error('RPC client unavailable');
+    if (!account) throw new Error('Connect wallet to trade');
+    if (totalUsdc <= 0n) return;
+
+    const id = BigInt(marketId);
+    const [state, market, maxInstantJumpE18] = await Promise.all([
+      publicClient.readContract({
+        address: addresses.core,
+        abi: coreAbi,
+        functionName: 'getMarketState',
+        args: [id],
+      }) as Promise<MarketState>,
+      publicClient.readContract({
+        address: addresses.core,
+        abi: coreAbi,
+        functionName: 'markets',
+        args: [id],
+      }) as Promise<CoreMarketTuple>,
+      publicClient.readContract({
+        address: addresses.core,
+        abi: coreAbi,
+        functionName: 'maxInstantJumpE18',
+        args: [],
+      }) as Promise<bigint>,
+    ]);
+
+    const jumpCap = jumpCapFor(market, state, maxInstantJumpE18, side === 'yes');
+    const plan = planSplitChunks(totalUsdc, jumpCap, market[15]);
+    await commit(createSplitOrder(marketId, account, side, totalUsdc, plan));
+    await run();
+  }, [publicClient, account, marketId, commit, run]);
+
+  const resume = useCallback(async () => {
+    const current = orderRef.current;
+    if (!current || current.status !== 'paused') return;
+    await commit({ ...current, status: 'running', lastError: undefined });
+    await run();
+  }, [commit, run]);
+
+  // Stops after the chunk in flight; a paused order is abandoned immediately.
+  const cancel = useCallback(async () => {
+    if (runningRef.current) {
+      cancelRef.current = true;
+      return;
+    }
+    const current = orderRef.current;
+    if (!current || current.status !== 'paused') return;
+    await commit({
+      ...current,
+      status: 'cancelled',
+      chunks: current.chunks.filter(chunk => chunk.status !== 'pending'),
+    });
+  }, [commit]);
+
+  const dismiss = useCallback(() => {
+    const current = orderRef.current;
+    if (!current || current.status === 'running' || current.status === 'paused') return;
+    orderRef.current = null;
+    setOrder(null);
+  }, []);
+
+  return {
+    order,
+    isRunning,
+    start,
+    resume,
+    cancel,
+    dismiss,
+  };
+}
@@ -16,7 +16,7 @@ interface CacheOptions {
 class IndexedDBCache {
   private dbPromise: Promise<IDBDatabase>;
   private readonly dbName = 'SpeculateCache';
-  private readonly dbVersion = 1;
+  private readonly dbVersion = 3;
 
   constructor() {
     this.dbPromise = this.openDB();
@@ -54,6 +54,16 @@ class IndexedDBCache {
         if (!db.objectStoreNames.contains('preferences')) {
           db.createObjectStore('preferences', { keyPath: 'key' });
         }
+
+        // In-flight split orders, keyed by `${marketId}-${account}`
+        if (!db.objectStoreNames.contains('splitOrders')) {
+          db.createObjectStore('splitOrders');
+        }
+
+        // In-flight claim-all batches, keyed by account
+        if (!db.objectStoreNames.contains('claimBatches')) {
+          db.createObjectStore('claimBatches');
+        }
       };
     });
   }
@@ -168,6 +178,38 @@ class IndexedDBCache {
     return entry ? entry.data : null;
   }
 
+  async saveSplitOrder(key: string, order: any, options: CacheOptions = {}): Promise<void> {
+    await this.set('splitOrders', key, order, {
+      ttl: 7 * 24 * 60 * 60 * 1000, // keep resumable orders for a week
+      ...options,
+    });
+  }
+
+  async getSplitOrder(key: string): Promise<any | null> {
+    const entry = await this.get<any>('splitOrders', key);
+    return entry ? entry.data : null;
+  }
+
+  async deleteSplitOrder(key: string): Promise<void> {
+    await this.delete('splitOrders', key);
+  }
+
+  async saveClaimBatch(key: string, batch: any, options: CacheOptions = {}): Promise<void> {
+    await this.set('claimBatches', key, batch, {
+      ttl: 7 * 24 * 60 * 60 * 1000,
+      ...options,
+    });
+  }
+
+  async getClaimBatch(key: string): Promise<any | null> {
+    const entry = await this.get<any>('claimBatches', key);
+    return entry ? entry.data : null;
+  }
+
+  async deleteClaimBatch(key: string): Promise<void> {
+    await this.delete('claimBatches', key);
+  }
+
   // Utility methods
   async isCacheFresh(storeName: string, key: string, maxAge: number = 60 * 60 * 1000): Promise<boolean> {
     const entry = await this.get(storeName, key);
@@ -0,0 +1,42 @@
+// One JSON document on disk for the file-backed API stores. Server-only.
+// The document is read once and kept in memory; writes replace the file
+// atomically and run one at a time so concurrent requests can't interleave.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export function createJsonFile<T>(filePath: string, empty: () => T) {
+  let loaded: Promise<T> | null = null;
+  let writing = Promise.resolve();
+
+  const load = async () => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return empty();
+    }
+  };
+
+  return {
+    read(): Promise<T> {
+      loaded ??= load().catch(error => {
+        loaded = null;
+        throw error;
+      });
+      return loaded;
+    },
+
+    write(data: T): Promise<void> {
+      const snapshot = JSON.stringify(data);
+      // A failed write is reported to its caller only, not to every later one
+      writing = writing.catch(() => {}).then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.rename(tmpPath, filePath);
+      });
+      return writing;
+    },
+  };
+}
@@ -1,24 +1,42 @@
 // LMSR (Logarithmic Market Scoring Rule) Math Functions
-// These implement the core AMM pricing algorithm
+// These implement the core AMM pricing algorithm and are the only copy of it in
+// the frontend: the trading card, trade previews and price predictions import it.
+// Every step mirrors SpeculateCore bit for bit (see __tests__/lib/lmsrParity.test.ts).
 
 const SCALE = 10n ** 18n;
 const USDC_TO_E18 = 10n ** 12n;
 const LN2 = 693147180559945309n;
 const LOG2_E = 1442695040888963407n;
 const TWO_OVER_LN2 = (2n * SCALE * SCALE) / LN2;
-const MAX_SEARCH_ITERATIONS = 60;
+const MAX_SEARCH_ITERATIONS = 40; // bisection steps in SpeculateCore.findSharesOut
+const MAX_TOP_UP_STEPS = 64;
 
 export const SLIPPAGE_BPS = 50n; // 0.50% slippage buffer
 export const SAFETY_MARGIN_BPS = 9800n; // 98% of cap to stay under jump limit
 export const MIN_USDC_OUT_E6 = 1_000n; // $0.001
+export const MAX_USDC_PER_TRADE_E6 = 100_000_000_000n; // SpeculateCore.MAX_USDC_PER_TRADE
+export const DEFAULT_MAX_INSTANT_JUMP_E18 = 150_000_000_000_000_000n; // SpeculateCore.maxInstantJumpE18 at deploy
 
+// mul/div run inside `unchecked` blocks on-chain, so the product wraps at 2^256.
 export function mul(x: bigint, y: bigint): bigint {
-  return (x * y) / SCALE;
+  return BigInt.asUintN(256, x * y) / SCALE;
 }
 
 export function div(x: bigint, y: bigint): bigint {
   if (y === 0n) return 0n;
-  return (x * SCALE) / y;
+  return BigInt.asUintN(256, x * SCALE) / y;
+}
+
+export function splitFees(
+  amount: bigint,
+  feeTreasuryBps: number,
+  feeVaultBps: number,
+  feeLpBps: number,
+) {
+  const treasury = amount * BigInt(feeTreasuryBps) / 10_000n;
+  const vault = amount * BigInt(feeVaultBps) / 10_000n;
+  const lp = amount * BigInt(feeLpBps) / 10_000n;
+  return { treasury, vault, lp, total: treasury + vault + lp };
 }
 
 export function exp2(x: bigint): bigint {
@@ -39,7 +57,7 @@ export function exp2(x: bigint): bigint {
   const y = mul(frac, LN2);
 
   for (let i = 1n; i <= 20n; i++) {
-    term = (term * y) / SCALE / i;
+    term = mul(term, y) / i;
     res += term;
     if (term === 0n) break;
   }
@@ -132,6 +150,8 @@ export function spotPriceYesE18(qYes: bigint, qNo: bigint, b: bigint): bigint {
   return yGreater ? div(e, SCALE + e) : div(SCALE, SCALE + e);
 }
 
+// Same bracket-and-bisect search as SpeculateCore.findSharesOut (hi capped at
+// 1e6 * b) so the preview lands on the exact token amount minted.
 export function findSharesOut(
   qSide: bigint,
   qOther: bigint,
@@ -143,22 +163,19 @@ export function findSharesOut(
   const baseCost = costFunction(qSide, qOther, b);
 
   let lo = 0n;
-  let hi = b === 0n ? 1n * SCALE : b;
+  let hi = b;
 
-  for (let i = 0; i < 32; i++) {
-    const newCost = costFunction(qSide + hi, qOther, b);
-    const delta = newCost - baseCost;
-    if (delta >= netE18) break;
-    lo = hi;
-    hi = hi * 2n;
+  while (costFunction(qSide + hi, qOther, b) - baseCost < netE18) {
+    hi <<= 1n;
+    if (hi > b * 1_000_000n) {
+      hi = b * 1_000_000n;
+      break;
+    }
   }
 
-  if (hi === 0n) hi = 1n * SCALE;
-
   for (let i = 0; i < MAX_SEARCH_ITERATIONS; i++) {
     const mid = (lo + hi) / 2n;
-    const newCost = costFunction(qSide + mid, qOther, b);
-    const delta = newCost - baseCost;
+    const delta = costFunction(qSide + mid, qOther, b) - baseCost;
     if (delta <= netE18) {
       lo = mid;
     } else {
@@ -181,10 +198,8 @@ export function simulateBuyChunk(
 ) {
   if (usdcIn <= 0n || bE18 === 0n) return null;
 
-  const feeT = usdcIn * BigInt(feeTreasuryBps) / 10_000n;
-  const feeV = usdcIn * BigInt(feeVaultBps) / 10_000n;
-  const feeL = usdcIn * BigInt(feeLpBps) / 10_000n;
-  const net = usdcIn - feeT - feeV - feeL;
+  const fees = splitFees(usdcIn, feeTreasuryBps, feeVaultBps, feeLpBps);
+  const net = usdcIn - fees.total;
   if (net <= 0n) return null;
 
   const netE18 = net * USDC_TO_E18;
@@ -202,10 +217,228 @@ export function simulateBuyChunk(
   return {
     tokensOut,
     minOut,
+    net,
+    fees,
     newQYes,
     newQNo,
   };
 }
 
-export { SCALE, USDC_TO_E18 };
+// Mirrors SpeculateCore._sell: refund is C(q) - C(q') truncated to 6 decimals.
+// The core currently charges no sell fee, so callers pass 0 bps; the legs are
+// rounded down separately, exactly like the buy side.
+export function simulateSellChunk(
+  tokensIn: bigint,
+  qYes: bigint,
+  qNo: bigint,
+  bE18: bigint,
+  feeTreasuryBps: number,
+  feeVaultBps: number,
+  feeLpBps: number,
+  isYes: boolean,
+) {
+  if (tokensIn <= 0n || bE18 === 0n) return null;
+
+  const qSide = isYes ? qYes : qNo;
+  if (tokensIn > qSide) return null;
+
+  const newQYes = isYes ? qYes - tokensIn : qYes;
+  const newQNo = isYes ? qNo : qNo - tokensIn;
+  const refundE18 = costFunction(qYes, qNo, bE18) - costFunction(newQYes, newQNo, bE18);
+  if (refundE18 <= 0n) return null;
+
+  const grossUsdcOut = refundE18 / USDC_TO_E18;
+  const fees = splitFees(grossUsdcOut, feeTreasuryBps, feeVaultBps, feeLpBps);
+  const usdcOut = grossUsdcOut - fees.total;
+  if (usdcOut <= 0n) return null;
+
+  const slippage = (usdcOut * SLIPPAGE_BPS) / 10_000n;
+  const minOut = usdcOut > slippage ? usdcOut - slippage : usdcOut;
+
+  return {
+    usdcOut,
+    grossUsdcOut,
+    feeTotal: fees.total,
+    minOut,
+    newQYes,
+    newQNo,
+  };
+}
+
+// Inverse of simulateBuyChunk: the smallest gross USDC (all three fee legs
+// included) whose buy mints at least `sharesOut` tokens on-chain.
+export function usdcForSharesOut(
+  sharesOut: bigint,
+  qYes: bigint,
+  qNo: bigint,
+  bE18: bigint,
+  feeTreasuryBps: number,
+  feeVaultBps: number,
+  feeLpBps: number,
+  isYes: boolean,
+) {
+  if (sharesOut <= 0n || bE18 === 0n) return null;
+
+  const totalBps = BigInt(feeTreasuryBps + feeVaultBps + feeLpBps);
+  if (totalBps >= 10_000n) return null;
+
+  const qSide = isYes ? qYes : qNo;
+  const qOther = isYes ? qNo : qYes;
+  const costE18 = costFunction(qSide + sharesOut, qOther, bE18) - costFunction(qSide, qOther, bE18);
+  const netNeeded = (costE18 + USDC_TO_E18 - 1n) / USDC_TO_E18;
+
+  const netOf = (gross: bigint) => gross - splitFees(gross, feeTreasuryBps, feeVaultBps, feeLpBps).total;
+  let usdcIn = (netNeeded * 10_000n + (10_000n - totalBps) - 1n) / (10_000n - totalBps);
+  // Each fee leg rounds down, so a slightly smaller gross may still cover the net
+  while (usdcIn > 1n && netOf(usdcIn - 1n) >= netNeeded) usdcIn -= 1n;
+
+  // The on-chain bisection can land a few wei short; top up until it mints enough
+  for (let i = 0; i < MAX_TOP_UP_STEPS; i++) {
+    const simulation = simulateBuyChunk(usdcIn, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, isYes);
+    if (simulation && simulation.tokensOut >= sharesOut) {
+      const slippage = (sharesOut * SLIPPAGE_BPS) / 10_000n;
+      return {
+        ...simulation,
+        usdcIn,
+        minOut: sharesOut - slippage,
+      };
+    }
+    usdcIn += 1n;
+  }
+
+  return null;
+}
+
+// Gross USDC that lifts the bought side's spot price to `targetPriceE18`,
+// found by bisecting share count against spotPriceYesE18 and then pricing
+// those shares with usdcForSharesOut.
+export function usdcToReachPrice(
+  targetPriceE18: bigint,
+  qYes: bigint,
+  qNo: bigint,
+  bE18: bigint,
+  feeTreasuryBps: number,
+  feeVaultBps: number,
+  feeLpBps: number,
+  isYes: boolean,
+) {
+  if (bE18 === 0n || targetPriceE18 <= 0n || targetPriceE18 >= SCALE) return null;
+
+  const sidePrice = (sharesOut: bigint) => {
+    const priceYes = isYes
+      ? spotPriceYesE18(qYes + sharesOut, qNo, bE18)
+      : spotPriceYesE18(qYes, qNo + sharesOut, bE18);
+    return isYes ? priceYes : SCALE - priceYes;
+  };
+
+  const startPriceE18 = sidePrice(0n);
+  if (startPriceE18 >= targetPriceE18) return null;
+
+  let lo = 0n;
+  let hi = bE18;
+  while (sidePrice(hi) < targetPriceE18) {
+    if (hi >= bE18 * 1_000_000n) return null;
+    lo = hi;
+    hi <<= 1n;
+  }
+
+  while (hi - lo > 1n) {
+    const mid = (lo + hi) / 2n;
+    if (sidePrice(mid) >= targetPriceE18) {
+      hi = mid;
+    } else {
+      lo = mid;
+    }
+  }
+
+  const quote = usdcForSharesOut(hi, qYes, qNo, bE18, feeTreasuryBps, feeVaultBps, feeLpBps, isYes);
+  if (!quote) return null;
+
+  return {
+    ...quote,
+    sharesOut: hi,
+    startPriceE18,
+  };
+}
+
+// Largest next chunk of a split buy: capped by the market's per-trade limit
+// and by maxUsdcBeforeJump less SAFETY_MARGIN_BPS. null means no jump cap;
+// 0 means there is no room left under it, so no chunk can be sent.
+export function nextChunkUsdc(
+  remaining: bigint,
+  maxUsdcBeforeJump: bigint | null,
+  maxUsdcPerTrade: bigint,
+): bigint {
+  if (remaining <= 0n || maxUsdcBeforeJump === 0n) return 0n;
+
+  let chunk = remaining;
+  const perTradeCap = maxUsdcPerTrade > 0n ? maxUsdcPerTrade : MAX_USDC_PER_TRADE_E6;
+  if (chunk > perTradeCap) chunk = perTradeCap;
+
+  if (maxUsdcBeforeJump !== null) {
+    const margin = (maxUsdcBeforeJump * SAFETY_MARGIN_BPS) / 10_000n;
+    const jumpCap = margin > 0n ? margin : maxUsdcBeforeJump;
+    if (chunk > jumpCap) chunk = jumpCap;
+  }
+
+  return chunk;
+}
+
+export interface JumpCapMarket {
+  qYes: bigint;
+  qNo: bigint;
+  bE18: bigint;
+  usdcVault: bigint;
+  feeTreasuryBps: number;
+  feeVaultBps: number;
+  feeLpBps: number;
+  maxUsdcPerTrade: bigint; // 0 => MAX_USDC_PER_TRADE_E6
+  priceBandThreshold: bigint; // jump cap applies while usdcVault is below this
+  maxJumpE18: bigint; // 0 => maxInstantJumpE18
+  maxInstantJumpE18: bigint;
+}
+
+// Mirrors SpeculateCore.maxUsdcBeforeJump: the per-trade cap when the vault is
+// past the price band, otherwise the same 40-step bisection over gross USDC.
+export function maxUsdcBeforeJump(market: JumpCapMarket, isYes: boolean): bigint {
+  const perTradeCap = market.maxUsdcPerTrade > 0n ? market.maxUsdcPerTrade : MAX_USDC_PER_TRADE_E6;
+  if (market.usdcVault >= market.priceBandThreshold) return perTradeCap;
+  if (market.bE18 === 0n) return 0n;
+
+  const cap = market.maxJumpE18 > 0n ? market.maxJumpE18 : market.maxInstantJumpE18;
+  const { qYes, qNo, bE18 } = market;
+  const p0 = spotPriceYesE18(qYes, qNo, bE18);
+
+  let lo = 0n;
+  let hi = perTradeCap;
+  for (let i = 0; i < MAX_SEARCH_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2n;
+    const fees = splitFees(mid, market.feeTreasuryBps, market.feeVaultBps, market.feeLpBps);
+    const net = mid - fees.total;
+    if (net === 0n) {
+      hi = mid;
+      continue;
+    }
+
+    const tokensOut = findSharesOut(isYes ? qYes : qNo, isYes ? qNo : qYes, net * USDC_TO_E18, bE18);
+    if (tokensOut === 0n) {
+      hi = mid;
+      continue;
+    }
+
+    const newP = isYes
+      ? spotPriceYesE18(qYes + tokensOut, qNo, bE18)
+      : spotPriceYesE18(qYes, qNo + tokensOut, bE18);
+    const diff = p0 > newP ? p0 - newP : newP - p0;
+    if (diff <= cap) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return lo;
+}
+
+export { SCALE, USDC_TO_E18, LOG2_E };
 
@@ -0,0 +1,139 @@
+// Off-chain market details the contract doesn't store: description, category,
+// tags, resolution source and image. The market's creator signs them with
+// personal_sign right after createMarket confirms; the API checks the signer
+// against the market's on-chain creator before saving.
+
+import { chainId } from './contracts';
+
+export const MARKET_CATEGORIES = ['Crypto', 'Bitcoin', 'Ethereum', 'Politics', 'Sports', 'Tech', 'Finance', 'Other'] as const;
+export type MarketCategory = (typeof MARKET_CATEGORIES)[number];
+
+export const DESCRIPTION_MAX_LENGTH = 2000;
+export const MAX_TAGS = 5;
+const TAG_MAX_LENGTH = 24;
+const URL_MAX_LENGTH = 500;
+// Signatures are only accepted for a short while after they were made
+export const METADATA_SIGNATURE_TTL_MS = 10 * 60 * 1000;
+
+export interface MarketMetadataFields {
+  description: string;
+  category: MarketCategory;
+  tags: string[];
+  resolutionSource?: string;
+  imageUrl?: string;
+}
+
+export interface MarketMetadata extends MarketMetadataFields {
+  marketId: string;
+  creator: `0x${string}`; // lower-cased
+  createdAt: number; // ms, as signed by the creator
+  signature: `0x${string}`;
+}
+
+export interface NewMarketMetadataRequest extends MarketMetadataFields {
+  creator: `0x${string}`;
+  issuedAt: number;
+  signature: `0x${string}`;
+}
+
+const HEX_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const HEX_SIGNATURE = /^0x[0-9a-fA-F]+$/;
+
+export function normalizeTag(tag: string) {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '');
+}
+
+export function parseTags(value: string) {
+  return Array.from(new Set(value.split(',').map(normalizeTag).filter(Boolean)));
+}
+
+export function metadataMessage(marketId: string, fields: MarketMetadataFields, issuedAt: number) {
+  return [
+    'Publish market details on Speculate',
+    `Chain: ${chainId}`,
+    `Market: ${marketId}`,
+    `Category: ${fields.category}`,
+    `Tags: ${fields.tags.join(', ') || 'none'}`,
+    `Resolution source: ${fields.resolutionSource ?? 'none'}`,
+    `Image: ${fields.imageUrl ?? 'none'}`,
+    `Issued at: ${issuedAt}`,
+    '',
+    fields.description,
+  ].join('\n');
+}
+
+function parseUrl(value: unknown, field: string) {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > URL_MAX_LENGTH) throw new Error(`Invalid ${field}`);
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error(`Invalid ${field}`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new Error(`${field} must be an http(s) URL`);
+  return url.toString();
+}
+
+export function parseMarketMetadataFields(raw: Record<string, unknown>): MarketMetadataFields {
+  const description = typeof raw.description === 'string' ? raw.description.replace(/\r\n?/g, '\n').trim() : '';
+  if (description.length > DESCRIPTION_MAX_LENGTH) {
+    throw new Error(`Descriptions are limited to ${DESCRIPTION_MAX_LENGTH} characters`);
+  }
+
+  const category = raw.category;
+  if (!MARKET_CATEGORIES.includes(category as MarketCategory)) {
+    throw new Error(`category must be one of ${MARKET_CATEGORIES.join(', ')}`);
+  }
+
+  const tagsRaw = raw.tags ?? [];
+  if (!Array.isArray(tagsRaw) || tagsRaw.some(tag => typeof tag !== 'string')) throw new Error('tags must be a list of strings');
+  const tags = Array.from(new Set((tagsRaw as string[]).map(normalizeTag).filter(Boolean)));
+  if (tags.length > MAX_TAGS) throw new Error(`At most ${MAX_TAGS} tags`);
+  if (tags.some(tag => tag.length > TAG_MAX_LENGTH)) throw new Error(`Tags are limited to ${TAG_MAX_LENGTH} characters`);
+
+  return {
+    description,
+    category: category as MarketCategory,
+    tags,
+    resolutionSource: parseUrl(raw.resolutionSource, 'resolutionSource'),
+    imageUrl: parseUrl(raw.imageUrl, 'imageUrl'),
+  };
+}
+
+export function parseNewMarketMetadata(raw: unknown, now = Date.now()): NewMarketMetadataRequest {
+  if (!raw || typeof raw !== 'object') throw new Error('Expected a JSON body');
+  const input = raw as Record<string, unknown>;
+
+  const { creator, signature } = input;
+  const issuedAt = Number(input.issuedAt);
+  if (typeof creator !== 'string' || !HEX_ADDRESS.test(creator)) throw new Error('Invalid creator address');
+  if (typeof signature !== 'string' || !HEX_SIGNATURE.test(signature)) throw new Error('Invalid signature');
+  if (!Number.isSafeInteger(issuedAt)) throw new Error('Invalid issuedAt');
+  if (Math.abs(now - issuedAt) > METADATA_SIGNATURE_TTL_MS) throw new Error('Signature expired, please sign again');
+
+  return {
+    ...parseMarketMetadataFields(input),
+    creator: creator.toLowerCase() as `0x${string}`,
+    issuedAt,
+    signature: signature as `0x${string}`,
+  };
+}
+
+const CRYPTO_KEYWORDS = ['btc', 'bitcoin', 'eth', 'ethereum', 'crypto', 'sol', 'solana', 'xrp', 'doge', 'dogecoin', 'bnb', 'matic'];
+
+// Markets created before metadata existed have no category; keep matching
+// them on the question the way the markets page always has.
+export function matchesCategory(category: string, question: string, metadata?: MarketMetadata | null) {
+  if (category === 'All') return true;
+  const categoryLower = category.toLowerCase();
+  if (metadata) return metadata.category === category || metadata.tags.includes(categoryLower);
+
+  const questionLower = question.toLowerCase();
+  if (categoryLower === 'crypto') return CRYPTO_KEYWORDS.some(keyword => questionLower.includes(keyword));
+  return questionLower.includes(categoryLower);
+}
@@ -0,0 +1,94 @@
+// Storage behind /api/markets/[id]/metadata. Server-only.
+//
+// Pluggable like the comment store: setMarketMetadataStore() swaps in another
+// backend, otherwise MARKET_METADATA_STORE selects:
+//   file   (default) one JSON file, MARKET_METADATA_FILE or .data/market-metadata-<chain>.json
+//   memory           lost on restart, for tests and previews
+
+import path from 'path';
+import { chainId } from './contracts';
+import { createJsonFile } from './jsonFile';
+import type { MarketMetadata } from './marketMetadata';
+
+export interface MarketMetadataStore {
+  get(marketId: string): Promise<MarketMetadata | null>;
+  // All stored metadata, or only the given markets
+  getMany(marketIds?: string[]): Promise<Record<string, MarketMetadata>>;
+  // Metadata is written once; throws DuplicateMetadataError if the market already has it
+  insert(metadata: MarketMetadata): Promise<void>;
+}
+
+export class DuplicateMetadataError extends Error {
+  constructor(marketId: string) {
+    super(`Market ${marketId} already has metadata`);
+    this.name = 'DuplicateMetadataError';
+  }
+}
+
+type MetadataByMarket = Record<string, MarketMetadata>;
+
+function createMetadataIndex(data: MetadataByMarket, persist: () => Promise<void>): MarketMetadataStore {
+  const copy = (metadata: MarketMetadata): MarketMetadata => ({ ...metadata, tags: [...metadata.tags] });
+
+  return {
+    async get(marketId) {
+      return data[marketId] ? copy(data[marketId]) : null;
+    },
+
+    async getMany(marketIds) {
+      const ids = marketIds ?? Object.keys(data);
+      return Object.fromEntries(ids.filter(id => data[id]).map(id => [id, copy(data[id])]));
+    },
+
+    async insert(metadata) {
+      if (data[metadata.marketId]) throw new DuplicateMetadataError(metadata.marketId);
+      data[metadata.marketId] = copy(metadata);
+      await persist();
+    },
+  };
+}
+
+export function createMemoryMarketMetadataStore(initial: MetadataByMarket = {}): MarketMetadataStore {
+  return createMetadataIndex(initial, async () => {});
+}
+
+export function createFileMarketMetadataStore(filePath: string): MarketMetadataStore {
+  const file = createJsonFile<MetadataByMarket>(filePath, () => ({}));
+  let index: Promise<MarketMetadataStore> | null = null;
+
+  const store = () => {
+    index ??= file.read().then(
+      data => createMetadataIndex(data, () => file.write(data)),
+      error => {
+        index = null;
+        throw error;
+      },
+    );
+    return index;
+  };
+
+  return {
+    get: async marketId => (await store()).get(marketId),
+    getMany: async marketIds => (await store()).getMany(marketIds),
+    insert: async metadata => (await store()).insert(metadata),
+  };
+}
+
+let configuredStore: MarketMetadataStore | null = null;
+
+export function setMarketMetadataStore(store: MarketMetadataStore) {
+  configuredStore = store;
+}
+
+export function getMarketMetadataStore(): MarketMetadataStore {
+  if (!configuredStore) {
+    configuredStore =
+      process.env.MARKET_METADATA_STORE === 'memory'
+        ? createMemoryMarketMetadataStore()
+        : createFileMarketMetadataStore(
+            process.env.MARKET_METADATA_FILE ??
+              path.join(process.cwd(), '.data', `market-metadata-${chainId}.json`),
+          );
+  }
+  return configuredStore;
+}
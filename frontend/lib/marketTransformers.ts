@@ -15,6 +15,7 @@ export type TransactionRow = {
   user: string;
   amount: string;
   output: string;
+  fee: string;
   price: string;
   timestamp: number;
   txHash: string;
@@ -33,6 +34,10 @@ export const toTransactionRow = (trade: SnapshotTrade): TransactionRow | null =>
     action === 'buy' ? absString(usdcDelta) : absString(tokenDelta);
   const output =
     action === 'buy' ? absString(tokenDelta) : absString(usdcDelta);
+  // Only buys pay fees; older indexed trades carry no breakdown.
+  const fee = [trade.feeTreasury, trade.feeVault, trade.feeLp]
+    .reduce((total, value) => total + BigInt(value ?? '0'), 0n)
+    .toString();
   const price =
     Number.isFinite(Number(trade.priceE6))
       ? (Number(trade.priceE6) / 1e6).toString()
@@ -55,6 +60,7 @@ export const toTransactionRow = (trade: SnapshotTrade): TransactionRow | null =>
     user,
     amount,
     output,
+    fee,
     price,
     timestamp,
     txHash,
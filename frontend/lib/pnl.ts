@@ -0,0 +1,297 @@
+// Trade-history PnL for one user in one market, under average-cost or FIFO
+// lots. Buys carry their fees in the cost basis (usdcDelta is gross), so
+// realized and unrealized PnL are net of fees; feesPaidUsdc reports them too.
+// Tokens moved by plain ERC-20 transfers are not in the trade history.
+
+import type { TradeRecord, TradeSide } from './priceHistory/types';
+import type { SnapshotTrade } from './useMarketSnapshot';
+
+const E18 = 10n ** 18n;
+const E30 = 10n ** 30n;
+
+export type CostBasisMethod = 'average' | 'fifo';
+
+// Where an event sits in the chain. Several can share a timestamp, so replays
+// order by block and log index when the source has them.
+export interface ChainPosition {
+  timestamp: number;
+  blockNumber?: number;
+  logIndex?: number;
+}
+
+export interface PnlTrade extends ChainPosition {
+  action: 'buy' | 'sell';
+  side: TradeSide;
+  tokens: bigint; // 18 decimals, always positive
+  usdc: bigint; // gross USDC paid on a buy or received on a sell, 6 decimals
+  fees: bigint;
+}
+
+export interface PnlRedemption extends ChainPosition {
+  usdcOut: bigint;
+}
+
+export interface PnlResolution {
+  yesWins: boolean;
+  timestamp?: number;
+}
+
+// One exit from a position: a sell, a redemption, or losing shares settled at zero
+export interface PnlDisposal {
+  kind: 'sell' | 'redeem' | 'settle';
+  timestamp: number;
+  side: TradeSide;
+  tokens: bigint;
+  proceedsUsdc: bigint;
+  costUsdc: bigint;
+  realizedPnlUsdc: bigint;
+  source: PnlTrade | PnlRedemption | null;
+}
+
+export interface PositionPnl {
+  side: TradeSide;
+  tokens: bigint;
+  costBasisUsdc: bigint;
+  avgPriceE6: bigint;
+  markValueUsdc: bigint;
+  realizedPnlUsdc: bigint;
+  unrealizedPnlUsdc: bigint;
+  feesPaidUsdc: bigint;
+  usdcIn: bigint;
+  usdcOut: bigint;
+}
+
+export interface MarketPnl {
+  yes: PositionPnl;
+  no: PositionPnl;
+  costBasisUsdc: bigint;
+  markValueUsdc: bigint;
+  realizedPnlUsdc: bigint;
+  unrealizedPnlUsdc: bigint;
+  feesPaidUsdc: bigint;
+}
+
+export interface MarketPnlInput {
+  trades: PnlTrade[];
+  redemptions?: PnlRedemption[];
+  method: CostBasisMethod;
+  markPriceYesE18: bigint; // ignored once resolved
+  resolution?: PnlResolution | null;
+}
+
+interface Lot {
+  tokens: bigint;
+  cost: bigint;
+}
+
+interface Book {
+  lots: Lot[]; // a single pooled lot under average cost
+  realized: bigint;
+  fees: bigint;
+  usdcIn: bigint;
+  usdcOut: bigint;
+}
+
+const abs = (value: bigint) => (value < 0n ? -value : value);
+
+export function pnlTradeFromRecord(trade: TradeRecord): PnlTrade {
+  return {
+    timestamp: trade.timestamp,
+    action: trade.action,
+    side: trade.side,
+    tokens: abs(BigInt(trade.tokenDelta || '0')),
+    usdc: abs(BigInt(trade.usdcDelta || '0')),
+    fees: 0n, // TradeRecord carries no fee legs; usdcDelta already includes them
+  };
+}
+
+export function pnlTradeFromSnapshot(trade: SnapshotTrade): PnlTrade | null {
+  if (!trade.timestamp || !trade.tokenDelta || !trade.usdcDelta) return null;
+  if (trade.action !== 'buy' && trade.action !== 'sell') return null;
+  if (trade.side !== 'yes' && trade.side !== 'no') return null;
+
+  const fees =
+    BigInt(trade.feeTreasury ?? '0') + BigInt(trade.feeVault ?? '0') + BigInt(trade.feeLp ?? '0');
+  return {
+    ...chainPosition(trade),
+    action: trade.action,
+    side: trade.side,
+    tokens: abs(BigInt(trade.tokenDelta)),
+    usdc: abs(BigInt(trade.usdcDelta)),
+    fees,
+  };
+}
+
+export function pnlRedemptionFromSnapshot(redemption: {
+  timestamp: string;
+  amount: string;
+  blockNumber?: string | null;
+  logIndex?: string | null;
+}): PnlRedemption {
+  return { ...chainPosition(redemption), usdcOut: BigInt(redemption.amount) };
+}
+
+function chainPosition(event: { timestamp: string | null; blockNumber?: string | null; logIndex?: string | null }) {
+  return {
+    timestamp: Number(event.timestamp),
+    blockNumber: event.blockNumber ? Number(event.blockNumber) : undefined,
+    logIndex: event.logIndex ? Number(event.logIndex) : undefined,
+  };
+}
+
+function byChainPosition(a: ChainPosition, b: ChainPosition) {
+  return (
+    a.timestamp - b.timestamp ||
+    (a.blockNumber ?? 0) - (b.blockNumber ?? 0) ||
+    (a.logIndex ?? 0) - (b.logIndex ?? 0)
+  );
+}
+
+function heldTokens(book: Book) {
+  return book.lots.reduce((sum, lot) => sum + lot.tokens, 0n);
+}
+
+function heldCost(book: Book) {
+  return book.lots.reduce((sum, lot) => sum + lot.cost, 0n);
+}
+
+function open(book: Book, method: CostBasisMethod, tokens: bigint, cost: bigint) {
+  if (method === 'average' && book.lots.length > 0) {
+    book.lots[0] = { tokens: book.lots[0].tokens + tokens, cost: book.lots[0].cost + cost };
+  } else {
+    book.lots.push({ tokens, cost });
+  }
+}
+
+// Releases cost for `tokens` leaving the position, oldest lot first. Under
+// average cost the single lot makes this pro rata, like the subgraph.
+function close(book: Book, tokens: bigint, proceeds: bigint): bigint {
+  let remaining = tokens;
+  let released = 0n;
+  while (remaining > 0n && book.lots.length > 0) {
+    const lot = book.lots[0];
+    if (remaining >= lot.tokens) {
+      released += lot.cost;
+      remaining -= lot.tokens;
+      book.lots.shift();
+    } else {
+      const cost = (lot.cost * remaining) / lot.tokens;
+      released += cost;
+      book.lots[0] = { tokens: lot.tokens - remaining, cost: lot.cost - cost };
+      remaining = 0n;
+    }
+  }
+  book.realized += proceeds - released;
+  return released;
+}
+
+function emptyBook(): Book {
+  return { lots: [], realized: 0n, fees: 0n, usdcIn: 0n, usdcOut: 0n };
+}
+
+function toPosition(side: TradeSide, book: Book, markPriceE18: bigint): PositionPnl {
+  const tokens = heldTokens(book);
+  const costBasisUsdc = heldCost(book);
+  const markValueUsdc = (tokens * markPriceE18) / E30;
+  return {
+    side,
+    tokens,
+    costBasisUsdc,
+    avgPriceE6: tokens > 0n ? (costBasisUsdc * E18) / tokens : 0n,
+    markValueUsdc,
+    realizedPnlUsdc: book.realized,
+    unrealizedPnlUsdc: markValueUsdc - costBasisUsdc,
+    feesPaidUsdc: book.fees,
+    usdcIn: book.usdcIn,
+    usdcOut: book.usdcOut,
+  };
+}
+
+function replay({ trades, redemptions = [], method, resolution }: MarketPnlInput) {
+  const books: Record<TradeSide, Book> = { yes: emptyBook(), no: emptyBook() };
+  const disposals: PnlDisposal[] = [];
+
+  const dispose = (
+    kind: PnlDisposal['kind'],
+    timestamp: number,
+    side: TradeSide,
+    tokens: bigint,
+    proceedsUsdc: bigint,
+    source: PnlDisposal['source'],
+  ) => {
+    const costUsdc = close(books[side], tokens, proceedsUsdc);
+    disposals.push({
+      kind,
+      timestamp,
+      side,
+      tokens,
+      proceedsUsdc,
+      costUsdc,
+      realizedPnlUsdc: proceedsUsdc - costUsdc,
+      source,
+    });
+  };
+
+  const events = [
+    ...trades.map(trade => ({ position: trade, trade })),
+    ...redemptions.map(redemption => ({ position: redemption, redemption })),
+  ].sort((a, b) => byChainPosition(a.position, b.position));
+
+  for (const event of events) {
+    if ('trade' in event && event.trade) {
+      const { trade } = event;
+      const book = books[trade.side];
+      if (trade.action === 'buy') {
+        open(book, method, trade.tokens, trade.usdc);
+        book.fees += trade.fees;
+        book.usdcIn += trade.usdc;
+      } else {
+        dispose('sell', trade.timestamp, trade.side, trade.tokens, trade.usdc, trade);
+        book.fees += trade.fees;
+        book.usdcOut += trade.usdc;
+      }
+    } else if ('redemption' in event && event.redemption && resolution) {
+      // redeem burns the whole winning balance at $1 per share
+      const side = resolution.yesWins ? 'yes' : 'no';
+      const { redemption } = event;
+      dispose('redeem', redemption.timestamp, side, heldTokens(books[side]), redemption.usdcOut, redemption);
+      books[side].usdcOut += redemption.usdcOut;
+    }
+  }
+
+  if (resolution) {
+    // Losing shares can never pay out: settle them at zero
+    const side = resolution.yesWins ? 'no' : 'yes';
+    const tokens = heldTokens(books[side]);
+    if (tokens > 0n || heldCost(books[side]) > 0n) {
+      dispose('settle', resolution.timestamp ?? 0, side, tokens, 0n, null);
+    }
+  }
+
+  return { books, disposals };
+}
+
+// Realized PnL of every exit, in the order they happened
+export function computeDisposals(input: MarketPnlInput): PnlDisposal[] {
+  return replay(input).disposals;
+}
+
+export function computeMarketPnl(input: MarketPnlInput): MarketPnl {
+  const { books } = replay(input);
+  const { resolution } = input;
+  const priceYesE18 = resolution ? (resolution.yesWins ? E18 : 0n) : input.markPriceYesE18;
+
+  return combinePositions(toPosition('yes', books.yes, priceYesE18), toPosition('no', books.no, E18 - priceYesE18));
+}
+
+export function combinePositions(yes: PositionPnl, no: PositionPnl): MarketPnl {
+  return {
+    yes,
+    no,
+    costBasisUsdc: yes.costBasisUsdc + no.costBasisUsdc,
+    markValueUsdc: yes.markValueUsdc + no.markValueUsdc,
+    realizedPnlUsdc: yes.realizedPnlUsdc + no.realizedPnlUsdc,
+    unrealizedPnlUsdc: yes.unrealizedPnlUsdc + no.unrealizedPnlUsdc,
+    feesPaidUsdc: yes.feesPaidUsdc + no.feesPaidUsdc,
+  };
+}
@@ -0,0 +1,318 @@
+// Per-market portfolio rows built from subgraph PositionBalance entities plus
+// on-chain LP reads. All USDC amounts are 6 decimals, token amounts 18.
+
+import type { UserHistory } from './historyExport';
+import { spotPriceYesE18 } from './lmsrMath';
+import {
+  combinePositions,
+  computeMarketPnl,
+  pnlRedemptionFromSnapshot,
+  pnlTradeFromSnapshot,
+  type CostBasisMethod,
+  type MarketPnl,
+  type PnlRedemption,
+  type PnlTrade,
+  type PositionPnl,
+} from './pnl';
+
+const E18 = 10n ** 18n;
+const E30 = 10n ** 30n;
+
+export interface PortfolioMarket {
+  id: string;
+  question: string;
+  qYes: string;
+  qNo: string;
+  bE18: string;
+  isResolved: boolean;
+  yesWins: boolean | null;
+}
+
+// Subgraph Market fields behind PortfolioMarket
+export const PORTFOLIO_MARKET_FIELDS = `
+  id
+  question
+  qYes
+  qNo
+  bE18
+  isResolved
+  yesWins
+`;
+
+export interface PortfolioBalance {
+  side: string;
+  tokenBalance: string;
+  costBasisUsdc: string;
+  realizedPnlUsdc: string;
+  market: PortfolioMarket;
+}
+
+export interface PortfolioLp {
+  marketId: number;
+  market?: PortfolioMarket;
+  lpShares: bigint;
+  pendingFees: bigint;
+  pendingResidual: bigint;
+}
+
+export interface PortfolioRow {
+  marketId: number;
+  question: string;
+  isResolved: boolean;
+  yesWins: boolean | null;
+  priceYesE18: bigint;
+  yesBalance: bigint;
+  noBalance: bigint;
+  valueUsdc: bigint;
+  costBasisUsdc: bigint;
+  unrealizedPnlUsdc: bigint;
+  realizedPnlUsdc: bigint;
+  lpShares: bigint;
+  pendingLpFees: bigint;
+  pendingLpResidual: bigint;
+  isOpen: boolean;
+}
+
+export type PortfolioTotals = Pick<
+  PortfolioRow,
+  | 'valueUsdc'
+  | 'costBasisUsdc'
+  | 'unrealizedPnlUsdc'
+  | 'realizedPnlUsdc'
+  | 'lpShares'
+  | 'pendingLpFees'
+  | 'pendingLpResidual'
+>;
+
+export interface PnlHistory {
+  trades: PnlTrade[];
+  redemptions: PnlRedemption[];
+}
+
+export type PortfolioSortKey =
+  | 'market'
+  | 'valueUsdc'
+  | 'costBasisUsdc'
+  | 'unrealizedPnlUsdc'
+  | 'realizedPnlUsdc'
+  | 'lpShares';
+
+// Resolved markets pay 1 USDC per winning share and nothing for the loser.
+export function markPriceYesE18(market: PortfolioMarket): bigint {
+  if (market.isResolved) return market.yesWins ? E18 : 0n;
+  const bE18 = BigInt(market.bE18);
+  if (bE18 === 0n) return E18 / 2n;
+  return spotPriceYesE18(BigInt(market.qYes), BigInt(market.qNo), bE18);
+}
+
+function emptyRow(market: PortfolioMarket): PortfolioRow {
+  return {
+    marketId: Number(market.id),
+    question: market.question,
+    isResolved: market.isResolved,
+    yesWins: market.yesWins,
+    priceYesE18: markPriceYesE18(market),
+    yesBalance: 0n,
+    noBalance: 0n,
+    valueUsdc: 0n,
+    costBasisUsdc: 0n,
+    unrealizedPnlUsdc: 0n,
+    realizedPnlUsdc: 0n,
+    lpShares: 0n,
+    pendingLpFees: 0n,
+    pendingLpResidual: 0n,
+    isOpen: false,
+  };
+}
+
+// The replay only sees trades, so it can't price tokens that were transferred
+// in or out. Trust it only when it accounts for every token the wallet holds;
+// the losing side of a resolved market is settled to zero by the replay.
+function replayMatchesHoldings(
+  holdings: Pick<PortfolioRow, 'isResolved' | 'yesWins' | 'yesBalance' | 'noBalance'>,
+  pnl: MarketPnl,
+) {
+  const losingSide = holdings.isResolved ? (holdings.yesWins ? 'no' : 'yes') : null;
+  return (
+    (losingSide === 'yes' || pnl.yes.tokens === holdings.yesBalance) &&
+    (losingSide === 'no' || pnl.no.tokens === holdings.noBalance)
+  );
+}
+
+// A wallet's paged trade and redemption history, grouped by market for the PnL engine
+export function pnlHistoryByMarket(history: Pick<UserHistory, 'trades' | 'redemptions'>): Map<number, PnlHistory> {
+  const byMarket = new Map<number, PnlHistory>();
+  const historyFor = (marketId: string) => {
+    const id = Number(marketId);
+    let entry = byMarket.get(id);
+    if (!entry) {
+      entry = { trades: [], redemptions: [] };
+      byMarket.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const trade of history.trades) {
+    const parsed = pnlTradeFromSnapshot({ ...trade, user: null, priceE6: null });
+    if (parsed) historyFor(trade.market.id).trades.push(parsed);
+  }
+  for (const redemption of history.redemptions) {
+    historyFor(redemption.market.id).redemptions.push(pnlRedemptionFromSnapshot(redemption));
+  }
+  return byMarket;
+}
+
+function sideTotals(balances: PortfolioBalance[], side: 'yes' | 'no') {
+  return balances
+    .filter(balance => balance.side === side)
+    .reduce(
+      (totals, balance) => ({
+        tokens: totals.tokens + BigInt(balance.tokenBalance),
+        costBasisUsdc: totals.costBasisUsdc + BigInt(balance.costBasisUsdc),
+        realizedPnlUsdc: totals.realizedPnlUsdc + BigInt(balance.realizedPnlUsdc),
+      }),
+      { tokens: 0n, costBasisUsdc: 0n, realizedPnlUsdc: 0n },
+    );
+}
+
+function positionFromBalance(
+  { tokens, costBasisUsdc, realizedPnlUsdc }: ReturnType<typeof sideTotals>,
+  priceE18: bigint,
+  replay: PositionPnl,
+): PositionPnl {
+  const markValueUsdc = (tokens * priceE18) / E30;
+  return {
+    ...replay,
+    tokens,
+    costBasisUsdc,
+    avgPriceE6: tokens > 0n ? (costBasisUsdc * E18) / tokens : 0n,
+    markValueUsdc,
+    realizedPnlUsdc,
+    unrealizedPnlUsdc: markValueUsdc - costBasisUsdc,
+  };
+}
+
+// PnL for one market as /portfolio and the market page show it: the trade replay
+// when it accounts for every token held, otherwise the subgraph's transfer-aware
+// basis and realized PnL from PositionBalance. Fees and flows come from the replay.
+export function marketPnlFor(
+  market: PortfolioMarket,
+  balances: PortfolioBalance[],
+  history: PnlHistory,
+  method: CostBasisMethod,
+  priceYesE18 = markPriceYesE18(market),
+): MarketPnl {
+  const replay = computeMarketPnl({
+    ...history,
+    method,
+    markPriceYesE18: priceYesE18,
+    resolution: market.isResolved ? { yesWins: Boolean(market.yesWins) } : null,
+  });
+  const yes = sideTotals(balances, 'yes');
+  const no = sideTotals(balances, 'no');
+  const holdings = { ...market, yesBalance: yes.tokens, noBalance: no.tokens };
+  if (replayMatchesHoldings(holdings, replay)) return replay;
+
+  const settledYesE18 = market.isResolved ? (market.yesWins ? E18 : 0n) : priceYesE18;
+  return combinePositions(
+    positionFromBalance(yes, settledYesE18, replay.yes),
+    positionFromBalance(no, E18 - settledYesE18, replay.no),
+  );
+}
+
+// Holdings come from PositionBalance. When trade-history PnL is supplied for a
+// market and matches those holdings, it replaces the subgraph's average-cost
+// basis and realized figures; otherwise the subgraph's transfer-aware basis stays.
+export function buildPortfolioRows(
+  balances: PortfolioBalance[],
+  lps: PortfolioLp[],
+  pnlByMarket?: Map<number, MarketPnl>,
+): PortfolioRow[] {
+  const rows = new Map<number, PortfolioRow>();
+  const rowFor = (market: PortfolioMarket) => {
+    const id = Number(market.id);
+    let row = rows.get(id);
+    if (!row) {
+      row = emptyRow(market);
+      rows.set(id, row);
+    }
+    return row;
+  };
+
+  for (const balance of balances) {
+    const row = rowFor(balance.market);
+    const tokens = BigInt(balance.tokenBalance);
+    if (balance.side === 'yes') {
+      row.yesBalance += tokens;
+    } else {
+      row.noBalance += tokens;
+    }
+    row.costBasisUsdc += BigInt(balance.costBasisUsdc);
+    row.realizedPnlUsdc += BigInt(balance.realizedPnlUsdc);
+  }
+
+  for (const lp of lps) {
+    const row = rows.get(lp.marketId) ?? (lp.market ? rowFor(lp.market) : undefined);
+    if (!row) continue;
+    row.lpShares += lp.lpShares;
+    row.pendingLpFees += lp.pendingFees;
+    row.pendingLpResidual += lp.pendingResidual;
+  }
+
+  for (const row of rows.values()) {
+    const pnl = pnlByMarket?.get(row.marketId);
+    if (pnl && replayMatchesHoldings(row, pnl)) {
+      row.costBasisUsdc = pnl.costBasisUsdc;
+      row.realizedPnlUsdc = pnl.realizedPnlUsdc;
+    }
+    const priceNoE18 = E18 - row.priceYesE18;
+    row.valueUsdc = (row.yesBalance * row.priceYesE18 + row.noBalance * priceNoE18) / E30;
+    row.unrealizedPnlUsdc = row.valueUsdc - row.costBasisUsdc;
+    row.isOpen =
+      row.yesBalance > 0n ||
+      row.noBalance > 0n ||
+      row.lpShares > 0n ||
+      row.pendingLpFees > 0n ||
+      row.pendingLpResidual > 0n;
+  }
+
+  return Array.from(rows.values());
+}
+
+export function portfolioTotals(rows: PortfolioRow[]): PortfolioTotals {
+  return rows.reduce<PortfolioTotals>(
+    (totals, row) => ({
+      valueUsdc: totals.valueUsdc + row.valueUsdc,
+      costBasisUsdc: totals.costBasisUsdc + row.costBasisUsdc,
+      unrealizedPnlUsdc: totals.unrealizedPnlUsdc + row.unrealizedPnlUsdc,
+      realizedPnlUsdc: totals.realizedPnlUsdc + row.realizedPnlUsdc,
+      lpShares: totals.lpShares + row.lpShares,
+      pendingLpFees: totals.pendingLpFees + row.pendingLpFees,
+      pendingLpResidual: totals.pendingLpResidual + row.pendingLpResidual,
+    }),
+    {
+      valueUsdc: 0n,
+      costBasisUsdc: 0n,
+      unrealizedPnlUsdc: 0n,
+      realizedPnlUsdc: 0n,
+      lpShares: 0n,
+      pendingLpFees: 0n,
+      pendingLpResidual: 0n,
+    },
+  );
+}
+
+export function sortPortfolioRows(
+  rows: PortfolioRow[],
+  key: PortfolioSortKey,
+  direction: 'asc' | 'desc',
+): PortfolioRow[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    if (key === 'market') return sign * (a.marketId - b.marketId);
+    const left = a[key];
+    const right = b[key];
+    if (left === right) return a.marketId - b.marketId;
+    return sign * (left > right ? 1 : -1);
+  });
+}
@@ -2,18 +2,27 @@
  * Client-side LMSR price predictions for instant feedback
  */
 
-// LMSR Constants (matching contract)
-const SCALE = 10n ** 18n;
-const USDC_TO_E18 = 10n ** 12n;
-const LN2 = 693147180559945309n;
-const LOG2_E = 1442695040888963407n;
-const TWO_OVER_LN2 = (2n * SCALE * SCALE) / LN2;
+import {
+  SCALE,
+  USDC_TO_E18,
+  findSharesOut,
+  splitFees,
+  spotPriceYesE18,
+} from './lmsrMath';
+
+// SpeculateCore.createMarket defaults, used when a caller has no per-market fees
+const DEFAULT_FEE_TREASURY_BPS = 100;
+const DEFAULT_FEE_VAULT_BPS = 0;
+const DEFAULT_FEE_LP_BPS = 100;
 
 export interface MarketState {
   qYes: bigint;
   qNo: bigint;
   bE18: bigint;
   usdcVault: bigint;
+  feeTreasuryBps?: number;
+  feeVaultBps?: number;
+  feeLpBps?: number;
 }
 
 export interface TradeSimulation {
@@ -36,145 +45,11 @@ export interface PricePrediction {
   };
 }
 
-/**
- * Math utilities for LMSR calculations
- */
-const mul = (x: bigint, y: bigint): bigint => (x * y) / SCALE;
-const div = (x: bigint, y: bigint): bigint => (x * SCALE) / y;
-
-function exp2(x: bigint): bigint {
-  if (x < 0n) {
-    const positive = exp2(-x);
-    return positive === 0n ? 0n : (SCALE * SCALE) / positive;
-  }
-
-  if (x > 192n * SCALE) x = 192n * SCALE;
-
-  const intPart = Number(x / SCALE);
-  let res = SCALE;
-  let term = SCALE;
-  const y = mul(x % SCALE, LOG2_E);
-
-  for (let i = 1; i <= 20; i++) {
-    term = mul(term, y) / BigInt(i);
-    res += term;
-  }
-
-  return (1n << BigInt(intPart)) * res;
-}
-
-function ln(x: bigint): bigint {
-  if (x === 0n) throw new Error("ln(0)");
-  return mul(log2(x), LN2);
-}
-
-function log2(x: bigint): bigint {
-  let res = 0n;
-  if (x >= SCALE << 128n) { x >>= 128n; res += 128n * SCALE; }
-  if (x >= SCALE << 64n) { x >>= 64n; res += 64n * SCALE; }
-  if (x >= SCALE << 32n) { x >>= 32n; res += 32n * SCALE; }
-  if (x >= SCALE << 16n) { x >>= 16n; res += 16n * SCALE; }
-  if (x >= SCALE << 8n) { x >>= 8n; res += 8n * SCALE; }
-  if (x >= SCALE << 4n) { x >>= 4n; res += 4n * SCALE; }
-  if (x >= SCALE << 2n) { x >>= 2n; res += 2n * SCALE; }
-  if (x >= SCALE << 1n) { res += SCALE; x >>= 1n; }
-
-  const z = div(x - SCALE, x + SCALE);
-  let z2 = mul(z, z);
-  let w = SCALE;
-  w += mul(z2, SCALE) / 3n;
-  const z4 = mul(z2, z2);
-  w += mul(z4, SCALE) / 5n;
-  const z6 = mul(z4, z2);
-  w += mul(z6, SCALE) / 7n;
-  const z8 = mul(z6, z2);
-  w += mul(z8, SCALE) / 9n;
-
-  return res + mul(mul(z, w), TWO_OVER_LN2);
-}
-
 /**
  * Calculate current LMSR price
  */
 export function calculateSpotPrice(state: MarketState): number {
-  if (state.qYes === state.qNo) return 0.5;
-
-  const isYesGreater = state.qYes > state.qNo;
-  const absDelta = div(
-    isYesGreater ? state.qYes - state.qNo : state.qNo - state.qYes,
-    state.bE18
-  );
-
-  const scaled = mul(absDelta, LOG2_E);
-  if (scaled > 192n * SCALE) {
-    return isYesGreater ? 1 : 0;
-  }
-
-  const e = exp2(scaled);
-  const price = isYesGreater
-    ? div(e, SCALE + e)
-    : div(SCALE, SCALE + e);
-
-  return Number(price) / Number(SCALE);
-}
-
-/**
- * Calculate LMSR cost function C(qY, qN, b)
- */
-function costFunction(qY: bigint, qN: bigint, b: bigint): bigint {
-  const maxQ = qY > qN ? qY : qN;
-  const minQ = qY < qN ? qY : qN;
-
-  if (maxQ === minQ) return maxQ;
-
-  const absDelta = div(maxQ - minQ, b);
-  const scaled = mul(absDelta, LOG2_E);
-
-  if (scaled > 192n * SCALE) return maxQ;
-
-  const expPos = exp2(scaled);
-  const inner = SCALE + div(SCALE, expPos);
-  const logTerm = ln(inner);
-
-  return maxQ + mul(b, logTerm);
-}
-
-/**
- * Find tokens out for given USDC in (inverse LMSR calculation)
- */
-function findTokensOut(
-  qSide: bigint,
-  qOpposite: bigint,
-  netE18: bigint,
-  b: bigint,
-  maxIterations = 60
-): bigint {
-  const baseCost = costFunction(qSide, qOpposite, b);
-  let lo = 0n;
-  let hi = b; // Start with b and expand
-
-  // Find upper bound
-  while (costFunction(qSide + hi, qOpposite, b) - baseCost < netE18) {
-    hi = hi * 2n;
-    if (hi > b * 1000000n) {
-      hi = b * 1000000n;
-      break;
-    }
-  }
-
-  // Binary search
-  for (let i = 0; i < maxIterations; i++) {
-    const mid = (lo + hi) / 2n;
-    const cost = costFunction(qSide + mid, qOpposite, b) - baseCost;
-
-    if (cost <= netE18) {
-      lo = mid;
-    } else {
-      hi = mid;
-    }
-  }
-
-  return (lo + hi) / 2n;
+  return Number(spotPriceYesE18(state.qYes, state.qNo, state.bE18)) / Number(SCALE);
 }
 
 /**
@@ -192,16 +67,20 @@ export function simulateTrade(
         typeof trade.usdcIn !== 'bigint') {
       throw new Error('Invalid input types - expected BigInt');
     }
-    // Calculate net USDC after fees (simplified)
-    const feeRate = 0.02; // 2% total fees
-    const fee = (trade.usdcIn * BigInt(Math.floor(feeRate * 1000))) / 1000n;
-    const net = trade.usdcIn - fee;
+    // Calculate net USDC after the market's fee legs
+    const fees = splitFees(
+      trade.usdcIn,
+      currentState.feeTreasuryBps ?? DEFAULT_FEE_TREASURY_BPS,
+      currentState.feeVaultBps ?? DEFAULT_FEE_VAULT_BPS,
+      currentState.feeLpBps ?? DEFAULT_FEE_LP_BPS,
+    );
+    const net = trade.usdcIn - fees.total;
 
     // Convert to E18 for calculations
     const netE18 = net * USDC_TO_E18;
 
     // Find tokens out
-    const tokensOut = findTokensOut(
+    const tokensOut = findSharesOut(
       trade.isYes ? currentState.qYes : currentState.qNo,
       trade.isYes ? currentState.qNo : currentState.qYes,
       netE18,
@@ -0,0 +1,46 @@
+// Sliding-window rate limiter for API routes. State is per server process,
+// which is enough to stop a single client flooding one instance.
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+const MAX_TRACKED_KEYS = 10_000;
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const hits = new Map<string, number[]>();
+
+  return {
+    check(key: string, now = Date.now()): RateLimitResult {
+      const recent = (hits.get(key) ?? []).filter(time => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+
+      recent.push(now);
+      hits.delete(key); // re-insert so the oldest keys are evicted first
+      hits.set(key, recent);
+      if (hits.size > MAX_TRACKED_KEYS) {
+        const oldest = hits.keys().next().value;
+        if (oldest !== undefined) hits.delete(oldest);
+      }
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+}
+
+// Proxies append to X-Forwarded-For, so everything left of the hops we run is
+// whatever the client sent. Count TRUSTED_PROXY_HOPS (default 1, the platform's
+// edge) in from the right and never fall back to a client-supplied value.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+export function clientIp(request: Request) {
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXY_HOPS] ?? 'unknown';
+}
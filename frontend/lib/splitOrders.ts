@@ -0,0 +1,108 @@
+// Split orders: oversized buys executed as a sequence of jump-safe chunks.
+// Progress is persisted to IndexedDB so an interrupted order can be resumed.
+
+import { getIndexedDBCache } from './indexedDB';
+import { nextChunkUsdc } from './lmsrMath';
+
+export type SplitChunkStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+export type SplitOrderStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export interface SplitOrderChunk {
+  index: number;
+  usdcIn: bigint; // planned until submitted, then the exact amount sent
+  status: SplitChunkStatus;
+  txHash?: `0x${string}`;
+  tokensOut?: bigint;
+  error?: string;
+}
+
+export interface SplitOrder {
+  marketId: number;
+  account: `0x${string}`;
+  side: 'yes' | 'no';
+  totalUsdc: bigint;
+  filledUsdc: bigint;
+  filledTokens: bigint;
+  chunks: SplitOrderChunk[];
+  status: SplitOrderStatus;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const MAX_PLANNED_CHUNKS = 500;
+
+export function splitOrderKey(marketId: number, account: string) {
+  return `${marketId}-${account.toLowerCase()}`;
+}
+
+// Chunk sizes for `totalUsdc` at the current caps. Later chunks are re-quoted
+// against fresh state before they are sent, so this is an estimate.
+export function planSplitChunks(
+  totalUsdc: bigint,
+  maxUsdcBeforeJump: bigint | null,
+  maxUsdcPerTrade: bigint,
+): bigint[] {
+  const chunks: bigint[] = [];
+  let remaining = totalUsdc;
+  while (remaining > 0n && chunks.length < MAX_PLANNED_CHUNKS) {
+    const chunk = nextChunkUsdc(remaining, maxUsdcBeforeJump, maxUsdcPerTrade);
+    if (chunk <= 0n) break;
+    chunks.push(chunk);
+    remaining -= chunk;
+  }
+  return chunks;
+}
+
+export function createSplitOrder(
+  marketId: number,
+  account: `0x${string}`,
+  side: 'yes' | 'no',
+  totalUsdc: bigint,
+  plannedChunks: bigint[],
+): SplitOrder {
+  const now = Date.now();
+  return {
+    marketId,
+    account,
+    side,
+    totalUsdc,
+    filledUsdc: 0n,
+    filledTokens: 0n,
+    chunks: plannedChunks.map((usdcIn, index) => ({ index, usdcIn, status: 'pending' })),
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// USDC paid per share across all confirmed chunks, in 6 decimals
+export function blendedAvgPriceE6(order: SplitOrder): bigint {
+  if (order.filledTokens === 0n) return 0n;
+  return (order.filledUsdc * 10n ** 18n) / order.filledTokens;
+}
+
+export async function saveSplitOrder(order: SplitOrder): Promise<void> {
+  try {
+    await getIndexedDBCache().saveSplitOrder(splitOrderKey(order.marketId, order.account), order);
+  } catch (error) {
+    console.warn('[splitOrders] Failed to persist split order', error);
+  }
+}
+
+export async function loadSplitOrder(marketId: number, account: string): Promise<SplitOrder | null> {
+  try {
+    return (await getIndexedDBCache().getSplitOrder(splitOrderKey(marketId, account))) as SplitOrder | null;
+  } catch (error) {
+    console.warn('[splitOrders] Failed to load split order', error);
+    return null;
+  }
+}
+
+export async function clearSplitOrder(marketId: number, account: string): Promise<void> {
+  try {
+    await getIndexedDBCache().deleteSplitOrder(splitOrderKey(marketId, account));
+  } catch (error) {
+    console.warn('[splitOrders] Failed to clear split order', error);
+  }
+}
@@ -2,6 +2,7 @@ import { useQuery } from '@tanstack/react-query';
 import { fetchSubgraph } from './subgraphClient';
 
 export type SnapshotTimeRange = '1D' | '1W' | '1M' | 'ALL';
+export type SnapshotCandleInterval = '1m' | '5m' | '1h' | '1d';
 
 export interface SnapshotTrade {
   txHash: string | null;
@@ -11,7 +12,23 @@ export interface SnapshotTrade {
   side: string | null;
   tokenDelta: string | null;
   usdcDelta: string | null;
+  feeTreasury?: string | null;
+  feeVault?: string | null;
+  feeLp?: string | null;
+  netUsdc?: string | null;
   priceE6: string | null;
+  blockNumber?: string | null;
+  logIndex?: string | null;
+}
+
+export interface SnapshotCandle {
+  periodStart: string | null;
+  open: string | null;
+  high: string | null;
+  low: string | null;
+  close: string | null;
+  volumeUsdc: string | null;
+  tradeCount: number | null;
 }
 
 export interface SnapshotBalance {
@@ -22,7 +39,7 @@ export interface SnapshotBalance {
 export interface SnapshotMarket {
   id: string;
   createdAt: string | null;
-  tradesAsc: SnapshotTrade[];
+  candles: SnapshotCandle[];
   tradesDesc: SnapshotTrade[];
   yesBalances: SnapshotBalance[];
   noBalances: SnapshotBalance[];
@@ -39,24 +56,29 @@ const isRateLimitError = (error: unknown): boolean =>
   error instanceof Error && /429/i.test(error.message);
 
 const SNAPSHOT_QUERY = /* GraphQL */ `
-  query MarketSnapshot($id: ID!, $since: BigInt!, $txLimit: Int!, $holderLimit: Int!) {
+  query MarketSnapshot(
+    $id: ID!
+    $since: BigInt!
+    $interval: String!
+    $txLimit: Int!
+    $holderLimit: Int!
+  ) {
     market(id: $id) {
       id
       createdAt
-      tradesAsc: trades(
-        where: { timestamp_gte: $since }
-        orderBy: timestamp
+      candles(
+        where: { interval: $interval, periodStart_gte: $since }
+        orderBy: periodStart
         orderDirection: asc
         first: 1000
       ) {
-        txHash
-        timestamp
-        user { id }
-        action
-        side
-        tokenDelta
-        usdcDelta
-        priceE6
+        periodStart
+        open
+        high
+        low
+        close
+        volumeUsdc
+        tradeCount
       }
       tradesDesc: trades(
         orderBy: timestamp
@@ -70,6 +92,10 @@ const SNAPSHOT_QUERY = /* GraphQL */ `
         side
         tokenDelta
         usdcDelta
+        feeTreasury
+        feeVault
+        feeLp
+        netUsdc
         priceE6
       }
       yesBalances: balances(
@@ -107,6 +133,19 @@ export function getSecondsForRange(timeRange: SnapshotTimeRange): number | null
   }
 }
 
+// Every range must fit in one 1000-row page: 1D is 288 5m buckets, 1M is 720 1h buckets.
+export function getCandleIntervalForRange(timeRange: SnapshotTimeRange): SnapshotCandleInterval {
+  switch (timeRange) {
+    case '1D':
+      return '5m';
+    case '1W':
+    case '1M':
+      return '1h';
+    default:
+      return '1d';
+  }
+}
+
 export function useMarketSnapshot(
   marketId: number | null,
   timeRange: SnapshotTimeRange,
@@ -140,6 +179,7 @@ export function useMarketSnapshot(
       const data = await fetchSubgraph<SnapshotResponse>(SNAPSHOT_QUERY, {
         id: marketId.toString(),
         since: since.toString(),
+        interval: getCandleIntervalForRange(timeRange),
         txLimit,
         holderLimit,
       });
@@ -3,6 +3,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { fetchSubgraph } from './subgraphClient';
 import type { PricePoint } from './priceHistory/types';
+import { getCandleIntervalForRange } from './useMarketSnapshot';
 
 type TimeRange = '1D' | '1W' | '1M' | 'ALL';
 
@@ -84,39 +85,38 @@ export function usePriceHistory(marketId: number | null, timeRange: TimeRange) {
 
       try {
         const data = await fetchSubgraph<{
-          trades: Array<{
-            timestamp: string;
-            priceE6: string;
-            txHash: string | null;
+          marketCandles: Array<{
+            periodStart: string;
+            close: string;
           }>;
         }>(
           `
-            query PriceHistory($marketId: ID!, $since: BigInt!) {
-              trades(
-                where: { market: $marketId, timestamp_gte: $since }
-                orderBy: timestamp
+            query PriceHistory($marketId: ID!, $interval: String!, $since: BigInt!) {
+              marketCandles(
+                where: { market: $marketId, interval: $interval, periodStart_gte: $since }
+                orderBy: periodStart
                 orderDirection: asc
                 first: 1000
               ) {
-                timestamp
-                priceE6
-                txHash
+                periodStart
+                close
               }
             }
           `,
           {
             marketId: marketId.toString(),
+            interval: getCandleIntervalForRange(timeRange),
             since: since.toString(),
           },
         );
 
-        if (Array.isArray(data.trades) && data.trades.length > 0) {
-          const sorted = data.trades
-            .map(trade => ({
-              timestamp: Number(trade.timestamp),
-              priceYes: Number(trade.priceE6) / 1e6,
-              priceNo: 1 - Number(trade.priceE6) / 1e6,
-              txHash: trade.txHash ?? undefined,
+        if (Array.isArray(data.marketCandles) && data.marketCandles.length > 0) {
+          const sorted = data.marketCandles
+            .map(candle => ({
+              timestamp: Number(candle.periodStart),
+              priceYes: Number(candle.close) / 1e6,
+              priceNo: 1 - Number(candle.close) / 1e6,
+              txHash: `candle-${candle.periodStart}`,
             }))
             .map(normalizePoint)
             .sort((a, b) => a.timestamp - b.timestamp);
@@ -0,0 +1,76 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { fetchSubgraph } from './subgraphClient';
+
+export type ResolutionComparison = 'above' | 'below' | 'equals';
+
+export interface MarketSettlement {
+  yesWins: boolean;
+  comparison: ResolutionComparison;
+  targetValue: bigint; // 8 decimals
+  settlementPrice: bigint | null; // 8 decimals, null when not settled by the resolver
+  resolver: string | null;
+  txHash: string;
+  timestamp: number;
+}
+
+interface ResolutionResponse {
+  resolution: {
+    yesWins: boolean;
+    comparison: string;
+    targetValue: string;
+    settlementPrice: string | null;
+    resolver: string | null;
+    txHash: string;
+    timestamp: string;
+  } | null;
+}
+
+const RESOLUTION_QUERY = /* GraphQL */ `
+  query MarketResolution($id: ID!) {
+    resolution(id: $id) {
+      yesWins
+      comparison
+      targetValue
+      settlementPrice
+      resolver
+      txHash
+      timestamp
+    }
+  }
+`;
+
+export function useResolution(marketId: number | null, isResolved: boolean) {
+  return useQuery<MarketSettlement | null>({
+    queryKey: ['resolution', marketId],
+    enabled: marketId !== null && marketId >= 0 && isResolved,
+    staleTime: 5 * 60_000,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      if (marketId === null || marketId < 0) return null;
+
+      try {
+        const data = await fetchSubgraph<ResolutionResponse>(RESOLUTION_QUERY, {
+          id: marketId.toString(),
+        });
+        const resolution = data.resolution;
+        if (!resolution) return null;
+
+        return {
+          yesWins: resolution.yesWins,
+          comparison: resolution.comparison as ResolutionComparison,
+          targetValue: BigInt(resolution.targetValue),
+          settlementPrice:
+            resolution.settlementPrice !== null ? BigInt(resolution.settlementPrice) : null,
+          resolver: resolution.resolver,
+          txHash: resolution.txHash,
+          timestamp: Number(resolution.timestamp),
+        };
+      } catch (error) {
+        console.warn('[useResolution] Failed to load resolution from subgraph', error);
+        return null;
+      }
+    },
+  });
+}
@@ -1,22 +1,62 @@
-import { Address, BigInt, Bytes } from '@graphprotocol/graph-ts';
+import { Address, BigInt, Bytes, DataSourceContext, dataSource } from '@graphprotocol/graph-ts';
 import {
+  SpeculateCore,
   MarketCreated,
   Buy,
   Sell,
   Redeemed,
   MarketResolved,
+  LiquidityAdded,
+  LiquidityParameterUpdated,
+  LpFeesClaimed,
+  ResidualFinalized,
+  LpResidualClaimed,
+  VaultTopUp,
+  FeesUpdated,
+  MaxUsdcPerTradeSet,
+  PriceBandThresholdSet,
+  MarketMaxInstantJumpSet,
+  PriceFeedIdSet,
+  MaxInstantJumpSet,
+  LiquidityMultiplierSet,
+  TreasurySet,
+  ChainlinkResolverSet,
 } from '../generated/SpeculateCore/SpeculateCore';
+import { MarketResolved as ResolverMarketResolved } from '../generated/ChainlinkResolver/ChainlinkResolver';
+import { Transfer } from '../generated/templates/PositionToken/PositionToken';
+import { PositionToken as PositionTokenTemplate } from '../generated/templates';
 import {
   Market,
   Trade,
   PositionBalance,
   Redemption,
   User,
+  LiquidityPosition,
+  LiquidityEvent,
+  MarketCandle,
   GlobalState,
+  ProtocolDayData,
+  MarketDayData,
+  ConfigChange,
+  Resolution,
 } from '../generated/schema';
 
 const NEG_ONE = BigInt.fromI32(-1);
+const E18 = BigInt.fromI32(10).pow(18);
 const GLOBAL_ID = 'global';
+const SECONDS_PER_DAY = 86400;
+const BPS_DENOMINATOR = BigInt.fromI32(10000);
+// createMarket always starts markets on these fees; later changes arrive via FeesUpdated.
+const DEFAULT_FEE_TREASURY_BPS = 100;
+const DEFAULT_FEE_VAULT_BPS = 0;
+const DEFAULT_FEE_LP_BPS = 100;
+// createMarket enforces the jump cap while the vault is below 10k USDC.
+const DEFAULT_PRICE_BAND_THRESHOLD = BigInt.fromString('10000000000');
+const CANDLE_INTERVALS: string[] = ['1m', '5m', '1h', '1d'];
+const CANDLE_SECONDS: i32[] = [60, 300, 3600, 86400];
+const HOUR = BigInt.fromI32(3600);
+// Spot price of a fresh market, where qYes == qNo.
+const INITIAL_PRICE_E6 = BigInt.fromI32(500000);
 
 function getOrCreateGlobalState(): GlobalState {
   let state = GlobalState.load(GLOBAL_ID);
@@ -32,13 +72,106 @@ function getOrCreateUser(address: Address): User {
   let user = User.load(id);
   if (user === null) {
     user = new User(id);
+    user.totalUsdcIn = BigInt.fromI32(0);
+    user.totalUsdcOut = BigInt.fromI32(0);
+    user.realizedPnlUsdc = BigInt.fromI32(0);
+    user.totalClaimedUsdc = BigInt.fromI32(0);
+    user.save();
+  }
+  return user as User;
+}
+
+// LPs and redeemers also get a User, so only a first trade counts towards uniqueTraders.
+function getOrCreateTrader(address: Address, timestamp: BigInt): User {
+  const user = getOrCreateUser(address);
+  if (user.firstTradeAt === null) {
+    user.firstTradeAt = timestamp;
     user.save();
 
     const globalState = getOrCreateGlobalState();
     globalState.uniqueTraders = globalState.uniqueTraders + 1;
     globalState.save();
+
+    const protocolDay = getOrCreateProtocolDayData(timestamp);
+    protocolDay.newTraders = protocolDay.newTraders + 1;
+    protocolDay.save();
   }
-  return user as User;
+  return user;
+}
+
+function getOrCreateProtocolDayData(timestamp: BigInt): ProtocolDayData {
+  const dayId = timestamp.toI32() / SECONDS_PER_DAY;
+  const id = dayId.toString();
+  let day = ProtocolDayData.load(id);
+  if (day === null) {
+    day = new ProtocolDayData(id);
+    day.date = dayId * SECONDS_PER_DAY;
+    day.volumeUsdc = BigInt.fromI32(0);
+    day.tradeCount = 0;
+    day.newTraders = 0;
+    day.marketsCreated = 0;
+    day.marketsResolved = 0;
+    day.redemptionCount = 0;
+    day.redemptionsUsdc = BigInt.fromI32(0);
+    day.feeRevenueUsdc = BigInt.fromI32(0);
+  }
+  return day as ProtocolDayData;
+}
+
+function getOrCreateMarketDayData(marketId: string, timestamp: BigInt): MarketDayData {
+  const dayId = timestamp.toI32() / SECONDS_PER_DAY;
+  const id = marketId + '-' + dayId.toString();
+  let day = MarketDayData.load(id);
+  if (day === null) {
+    day = new MarketDayData(id);
+    day.market = marketId;
+    day.date = dayId * SECONDS_PER_DAY;
+    day.volumeUsdc = BigInt.fromI32(0);
+    day.tradeCount = 0;
+    day.newTraders = 0;
+    day.redemptionCount = 0;
+    day.redemptionsUsdc = BigInt.fromI32(0);
+    day.feeRevenueUsdc = BigInt.fromI32(0);
+  }
+  return day as MarketDayData;
+}
+
+function recordDailyTrade(
+  marketId: string,
+  volumeUsdc: BigInt,
+  feeUsdc: BigInt,
+  isNewToMarket: boolean,
+  timestamp: BigInt,
+): void {
+  const protocolDay = getOrCreateProtocolDayData(timestamp);
+  protocolDay.volumeUsdc = protocolDay.volumeUsdc.plus(volumeUsdc);
+  protocolDay.tradeCount = protocolDay.tradeCount + 1;
+  protocolDay.feeRevenueUsdc = protocolDay.feeRevenueUsdc.plus(feeUsdc);
+  protocolDay.save();
+
+  const marketDay = getOrCreateMarketDayData(marketId, timestamp);
+  marketDay.volumeUsdc = marketDay.volumeUsdc.plus(volumeUsdc);
+  marketDay.tradeCount = marketDay.tradeCount + 1;
+  marketDay.feeRevenueUsdc = marketDay.feeRevenueUsdc.plus(feeUsdc);
+  if (isNewToMarket) {
+    marketDay.newTraders = marketDay.newTraders + 1;
+  }
+  marketDay.save();
+}
+
+// Each leg is rounded down on its own, exactly as _buy splits usdcIn.
+function feeForBps(amount: BigInt, bps: i32): BigInt {
+  return amount.times(BigInt.fromI32(bps)).div(BPS_DENOMINATOR);
+}
+
+function hasTradedSide(marketId: string, userId: string, side: string): boolean {
+  const balance = PositionBalance.load(marketId + '-' + userId + '-' + side);
+  return balance !== null && !(balance.totalUsdcIn.isZero() && balance.totalUsdcOut.isZero());
+}
+
+// Receiving tokens by transfer creates a balance but is not trading.
+function hasTradedMarket(marketId: string, userId: string): boolean {
+  return hasTradedSide(marketId, userId, 'yes') || hasTradedSide(marketId, userId, 'no');
 }
 
 function getOrCreatePositionBalance(
@@ -54,10 +187,233 @@ function getOrCreatePositionBalance(
     balance.user = userId;
     balance.side = side;
     balance.tokenBalance = BigInt.fromI32(0);
+    balance.costBasisUsdc = BigInt.fromI32(0);
+    balance.avgPriceE6 = BigInt.fromI32(0);
+    balance.totalUsdcIn = BigInt.fromI32(0);
+    balance.totalUsdcOut = BigInt.fromI32(0);
+    balance.realizedPnlUsdc = BigInt.fromI32(0);
   }
   return balance as PositionBalance;
 }
 
+function updateHolderCount(market: Market, side: string, before: BigInt, after: BigInt): void {
+  let delta = 0;
+  if (before.isZero() && !after.isZero()) {
+    delta = 1;
+  } else if (!before.isZero() && after.isZero()) {
+    delta = -1;
+  }
+  if (side == 'yes') {
+    market.yesHolders = market.yesHolders + delta;
+  } else {
+    market.noHolders = market.noHolders + delta;
+  }
+}
+
+function updateAveragePrice(balance: PositionBalance): void {
+  if (balance.tokenBalance.isZero()) {
+    balance.avgPriceE6 = BigInt.fromI32(0);
+  } else {
+    balance.avgPriceE6 = balance.costBasisUsdc.times(E18).div(balance.tokenBalance);
+  }
+}
+
+// Average-cost basis: a partial exit releases cost pro rata to the tokens leaving the position.
+function releaseCostBasis(balance: PositionBalance, tokensOut: BigInt): BigInt {
+  if (balance.tokenBalance.isZero() || tokensOut.ge(balance.tokenBalance)) {
+    return balance.costBasisUsdc;
+  }
+  return balance.costBasisUsdc.times(tokensOut).div(balance.tokenBalance);
+}
+
+function closePosition(
+  market: Market,
+  balance: PositionBalance,
+  user: User,
+  tokensOut: BigInt,
+  usdcOut: BigInt,
+): void {
+  const releasedCost = releaseCostBasis(balance, tokensOut);
+  const pnl = usdcOut.minus(releasedCost);
+
+  const before = balance.tokenBalance;
+  balance.tokenBalance = subtractSafely(before, tokensOut);
+  updateHolderCount(market, balance.side, before, balance.tokenBalance);
+  balance.costBasisUsdc = balance.costBasisUsdc.minus(releasedCost);
+  balance.totalUsdcOut = balance.totalUsdcOut.plus(usdcOut);
+  balance.realizedPnlUsdc = balance.realizedPnlUsdc.plus(pnl);
+  updateAveragePrice(balance);
+  balance.save();
+
+  user.totalUsdcOut = user.totalUsdcOut.plus(usdcOut);
+  user.realizedPnlUsdc = user.realizedPnlUsdc.plus(pnl);
+  user.save();
+}
+
+// Losing tokens stay in the wallet but can never pay out, so their cost is realized as a loss.
+function writeOffPosition(balance: PositionBalance, user: User): void {
+  const pnl = balance.costBasisUsdc.times(NEG_ONE);
+
+  balance.costBasisUsdc = BigInt.fromI32(0);
+  balance.realizedPnlUsdc = balance.realizedPnlUsdc.plus(pnl);
+  updateAveragePrice(balance);
+  balance.save();
+
+  user.realizedPnlUsdc = user.realizedPnlUsdc.plus(pnl);
+  user.save();
+}
+
+function getOrCreateLiquidityPosition(
+  marketId: string,
+  userId: string,
+  timestamp: BigInt,
+): LiquidityPosition {
+  const id = marketId + '-' + userId;
+  let position = LiquidityPosition.load(id);
+  if (position === null) {
+    position = new LiquidityPosition(id);
+    position.market = marketId;
+    position.user = userId;
+    position.depositedUsdc = BigInt.fromI32(0);
+    position.feesClaimedUsdc = BigInt.fromI32(0);
+    position.residualClaimedUsdc = BigInt.fromI32(0);
+    position.createdAt = timestamp;
+  }
+  position.updatedAt = timestamp;
+  return position as LiquidityPosition;
+}
+
+function recordLiquidityEvent(
+  id: string,
+  marketId: string,
+  position: LiquidityPosition | null,
+  action: string,
+  amount: BigInt,
+  txHash: Bytes,
+  blockNumber: BigInt,
+  timestamp: BigInt,
+): void {
+  const liquidityEvent = new LiquidityEvent(id);
+  liquidityEvent.market = marketId;
+  if (position !== null) {
+    liquidityEvent.user = position.user;
+    liquidityEvent.position = position.id;
+  }
+  liquidityEvent.action = action;
+  liquidityEvent.amount = amount;
+  liquidityEvent.txHash = txHash;
+  liquidityEvent.blockNumber = blockNumber;
+  liquidityEvent.timestamp = timestamp;
+  liquidityEvent.save();
+}
+
+function updateCandles(
+  marketId: string,
+  previousPriceE6: BigInt,
+  priceE6: BigInt,
+  volumeUsdc: BigInt,
+  timestamp: BigInt,
+): void {
+  for (let i = 0; i < CANDLE_INTERVALS.length; i++) {
+    const seconds = BigInt.fromI32(CANDLE_SECONDS[i]);
+    const periodStart = timestamp.div(seconds).times(seconds);
+    const id = marketId + '-' + CANDLE_INTERVALS[i] + '-' + periodStart.toString();
+
+    let candle = MarketCandle.load(id);
+    if (candle === null) {
+      candle = new MarketCandle(id);
+      candle.market = marketId;
+      candle.interval = CANDLE_INTERVALS[i];
+      candle.periodStart = periodStart;
+      candle.previousClose = previousPriceE6;
+      candle.open = priceE6;
+      candle.high = priceE6;
+      candle.low = priceE6;
+      candle.volumeUsdc = BigInt.fromI32(0);
+      candle.tradeCount = 0;
+    }
+
+    if (priceE6.gt(candle.high)) {
+      candle.high = priceE6;
+    }
+    if (priceE6.lt(candle.low)) {
+      candle.low = priceE6;
+    }
+    candle.close = priceE6;
+    candle.volumeUsdc = candle.volumeUsdc.plus(volumeUsdc);
+    candle.tradeCount = candle.tradeCount + 1;
+    candle.save();
+  }
+}
+
+// The price a day before `timestamp`: if anything traded since then, the close just
+// before the first hourly candle at or after that point; otherwise the last price.
+function getPriceDayAgo(market: Market, timestamp: BigInt): BigInt {
+  const dayAgo = timestamp.minus(BigInt.fromI32(SECONDS_PER_DAY));
+  const lastTradeAt = market.lastTradeAt;
+  if (lastTradeAt === null || lastTradeAt.le(dayAgo)) {
+    return market.lastPriceE6;
+  }
+
+  let periodStart = dayAgo.div(HOUR).times(HOUR);
+  for (let i = 0; i <= 24; i++) {
+    const candle = MarketCandle.load(market.id + '-1h-' + periodStart.toString());
+    if (candle !== null) {
+      return candle.previousClose;
+    }
+    periodStart = periodStart.plus(HOUR);
+  }
+  return market.lastPriceE6;
+}
+
+// Only runs when the price moves, so priceChange24h goes stale once trading stops;
+// readers should treat it as 0 when lastTradeAt is more than a day old.
+function updateMarketPrice(market: Market, priceE6: BigInt, timestamp: BigInt): void {
+  market.priceChange24h = priceE6.minus(getPriceDayAgo(market, timestamp));
+  market.lastPriceE6 = priceE6;
+}
+
+function recordConfigChange(
+  id: string,
+  marketId: string | null,
+  parameter: string,
+  oldValue: string,
+  newValue: string,
+  txHash: Bytes,
+  blockNumber: BigInt,
+  timestamp: BigInt,
+): void {
+  const change = new ConfigChange(id);
+  if (marketId !== null) {
+    change.market = marketId;
+  }
+  change.parameter = parameter;
+  change.oldValue = oldValue;
+  change.newValue = newValue;
+  change.txHash = txHash;
+  change.blockNumber = blockNumber;
+  change.timestamp = timestamp;
+  change.save();
+}
+
+function formatFees(feeTreasuryBps: i32, feeVaultBps: i32, feeLpBps: i32): string {
+  return feeTreasuryBps.toString() + '/' + feeVaultBps.toString() + '/' + feeLpBps.toString();
+}
+
+function oracleTypeLabel(oracleType: i32): string {
+  return oracleType == 1 ? 'chainlinkFeed' : 'none';
+}
+
+function comparisonLabel(comparison: i32): string {
+  if (comparison == 0) {
+    return 'above';
+  }
+  if (comparison == 1) {
+    return 'below';
+  }
+  return 'equals';
+}
+
 function createTradeId(txHash: Bytes, logIndex: BigInt): string {
   return txHash.toHexString() + '-' + logIndex.toString();
 }
@@ -88,8 +444,82 @@ export function handleMarketCreated(event: MarketCreated): void {
   market.totalVolumeUsdc = BigInt.fromI32(0);
   market.totalTokensYes = BigInt.fromI32(0);
   market.totalTokensNo = BigInt.fromI32(0);
+  market.yesHolders = 0;
+  market.noHolders = 0;
+  market.qYes = BigInt.fromI32(0);
+  market.qNo = BigInt.fromI32(0);
+  market.usdcVault = event.params.initUsdc;
+  market.lastPriceE6 = INITIAL_PRICE_E6;
+  market.priceChange24h = BigInt.fromI32(0);
+  market.totalLpUsdc = event.params.initUsdc;
+  market.residualUsdc = BigInt.fromI32(0);
+  market.feeTreasuryBps = DEFAULT_FEE_TREASURY_BPS;
+  market.feeVaultBps = DEFAULT_FEE_VAULT_BPS;
+  market.feeLpBps = DEFAULT_FEE_LP_BPS;
+  market.maxUsdcPerTrade = BigInt.fromI32(0);
+  market.priceBandThreshold = DEFAULT_PRICE_BAND_THRESHOLD;
+  market.maxJumpE18 = BigInt.fromI32(0);
   market.isResolved = false;
+
+  market.oracleType = oracleTypeLabel(0);
+  market.oracleAddress = Address.zero();
+  market.priceFeedId = Bytes.fromHexString('0x' + '00'.repeat(32));
+  market.targetValue = BigInt.fromI32(0);
+  market.comparison = comparisonLabel(0);
+  const config = SpeculateCore.bind(event.address).try_getMarketResolution(event.params.id);
+  if (!config.reverted) {
+    market.oracleType = oracleTypeLabel(config.value.oracleType);
+    market.oracleAddress = config.value.oracleAddress;
+    market.priceFeedId = config.value.priceFeedId;
+    market.targetValue = config.value.targetValue;
+    market.comparison = comparisonLabel(config.value.comparison);
+  }
+
+  // createMarket emits LiquidityParameterUpdated before MarketCreated, so the
+  // initial liquidity parameter has to be read back from the contract.
+  market.bE18 = BigInt.fromI32(0);
+  const state = SpeculateCore.bind(event.address).try_getMarketState(event.params.id);
+  if (!state.reverted) {
+    market.bE18 = state.value.getB();
+  }
   market.save();
+
+  const protocolDay = getOrCreateProtocolDayData(event.block.timestamp);
+  protocolDay.marketsCreated = protocolDay.marketsCreated + 1;
+  protocolDay.save();
+
+  const yesContext = new DataSourceContext();
+  yesContext.setString('marketId', marketId);
+  yesContext.setString('side', 'yes');
+  PositionTokenTemplate.createWithContext(event.params.yes, yesContext);
+
+  const noContext = new DataSourceContext();
+  noContext.setString('marketId', marketId);
+  noContext.setString('side', 'no');
+  PositionTokenTemplate.createWithContext(event.params.no, noContext);
+
+  // createMarket seeds LP shares for msg.sender (stored as markets(id).lp) without
+  // emitting LiquidityAdded. That is not tx.from when a Safe or another contract creates it.
+  let lp = event.transaction.from;
+  const stored = SpeculateCore.bind(event.address).try_markets(event.params.id);
+  if (!stored.reverted && stored.value.getLp() != Address.zero()) {
+    lp = stored.value.getLp();
+  }
+  const creator = getOrCreateUser(lp);
+  const position = getOrCreateLiquidityPosition(marketId, creator.id, event.block.timestamp);
+  position.depositedUsdc = position.depositedUsdc.plus(event.params.initUsdc);
+  position.save();
+
+  recordLiquidityEvent(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    position,
+    'seed',
+    event.params.initUsdc,
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
 }
 
 export function handleBuy(event: Buy): void {
@@ -99,7 +529,11 @@ export function handleBuy(event: Buy): void {
     return;
   }
 
-  const user = getOrCreateUser(event.params.user);
+  const user = getOrCreateTrader(event.params.user, event.block.timestamp);
+  const isNewToMarket = !hasTradedMarket(marketId, user.id);
+  const feeTreasury = feeForBps(event.params.usdcIn, market.feeTreasuryBps);
+  const feeVault = feeForBps(event.params.usdcIn, market.feeVaultBps);
+  const feeLp = feeForBps(event.params.usdcIn, market.feeLpBps);
   const trade = new Trade(createTradeId(event.transaction.hash, event.logIndex));
   trade.market = marketId;
   trade.txHash = event.transaction.hash;
@@ -111,20 +545,55 @@ export function handleBuy(event: Buy): void {
   trade.side = event.params.isYes ? 'yes' : 'no';
   trade.tokenDelta = event.params.tokensOut;
   trade.usdcDelta = event.params.usdcIn.times(NEG_ONE);
+  trade.feeTreasury = feeTreasury;
+  trade.feeVault = feeVault;
+  trade.feeLp = feeLp;
+  trade.netUsdc = event.params.usdcIn.minus(feeTreasury).minus(feeVault).minus(feeLp);
   trade.priceE6 = event.params.priceE6;
   trade.save();
 
+  const previousPriceE6 = market.lastPriceE6;
   market.totalVolumeUsdc = market.totalVolumeUsdc.plus(event.params.usdcIn);
   if (event.params.isYes) {
     market.totalTokensYes = market.totalTokensYes.plus(event.params.tokensOut);
+    market.qYes = market.qYes.plus(event.params.tokensOut);
   } else {
     market.totalTokensNo = market.totalTokensNo.plus(event.params.tokensOut);
+    market.qNo = market.qNo.plus(event.params.tokensOut);
   }
-  market.save();
+  // Treasury and LP fees leave the vault; the vault fee stays in it with the net amount.
+  market.usdcVault = market.usdcVault.plus(event.params.usdcIn).minus(feeTreasury).minus(feeLp);
+  updateMarketPrice(market, event.params.priceE6, event.block.timestamp);
+  market.lastTradeAt = event.block.timestamp;
 
   const balance = getOrCreatePositionBalance(marketId, user.id, trade.side);
-  balance.tokenBalance = balance.tokenBalance.plus(event.params.tokensOut);
+  const balanceBefore = balance.tokenBalance;
+  balance.tokenBalance = balanceBefore.plus(event.params.tokensOut);
+  balance.costBasisUsdc = balance.costBasisUsdc.plus(event.params.usdcIn);
+  balance.totalUsdcIn = balance.totalUsdcIn.plus(event.params.usdcIn);
+  updateAveragePrice(balance);
   balance.save();
+
+  updateHolderCount(market, trade.side, balanceBefore, balance.tokenBalance);
+  market.save();
+
+  user.totalUsdcIn = user.totalUsdcIn.plus(event.params.usdcIn);
+  user.save();
+
+  updateCandles(
+    marketId,
+    previousPriceE6,
+    event.params.priceE6,
+    event.params.usdcIn,
+    event.block.timestamp,
+  );
+  recordDailyTrade(
+    marketId,
+    event.params.usdcIn,
+    feeTreasury.plus(feeVault).plus(feeLp),
+    isNewToMarket,
+    event.block.timestamp,
+  );
 }
 
 export function handleSell(event: Sell): void {
@@ -134,7 +603,8 @@ export function handleSell(event: Sell): void {
     return;
   }
 
-  const user = getOrCreateUser(event.params.user);
+  const user = getOrCreateTrader(event.params.user, event.block.timestamp);
+  const isNewToMarket = !hasTradedMarket(marketId, user.id);
   const trade = new Trade(createTradeId(event.transaction.hash, event.logIndex));
   trade.market = marketId;
   trade.txHash = event.transaction.hash;
@@ -146,20 +616,45 @@ export function handleSell(event: Sell): void {
   trade.side = event.params.isYes ? 'yes' : 'no';
   trade.tokenDelta = event.params.tokensIn.times(NEG_ONE);
   trade.usdcDelta = event.params.usdcOut;
+  // Sells pay no fee.
+  trade.feeTreasury = BigInt.fromI32(0);
+  trade.feeVault = BigInt.fromI32(0);
+  trade.feeLp = BigInt.fromI32(0);
+  trade.netUsdc = event.params.usdcOut;
   trade.priceE6 = event.params.priceE6;
   trade.save();
 
+  const previousPriceE6 = market.lastPriceE6;
   market.totalVolumeUsdc = market.totalVolumeUsdc.plus(event.params.usdcOut);
   if (event.params.isYes) {
     market.totalTokensYes = subtractSafely(market.totalTokensYes, event.params.tokensIn);
+    market.qYes = subtractSafely(market.qYes, event.params.tokensIn);
   } else {
     market.totalTokensNo = subtractSafely(market.totalTokensNo, event.params.tokensIn);
+    market.qNo = subtractSafely(market.qNo, event.params.tokensIn);
   }
-  market.save();
+  market.usdcVault = subtractSafely(market.usdcVault, event.params.usdcOut);
+  updateMarketPrice(market, event.params.priceE6, event.block.timestamp);
+  market.lastTradeAt = event.block.timestamp;
 
   const balance = getOrCreatePositionBalance(marketId, user.id, trade.side);
-  balance.tokenBalance = subtractSafely(balance.tokenBalance, event.params.tokensIn);
-  balance.save();
+  closePosition(market, balance, user, event.params.tokensIn, event.params.usdcOut);
+  market.save();
+
+  updateCandles(
+    marketId,
+    previousPriceE6,
+    event.params.priceE6,
+    event.params.usdcOut,
+    event.block.timestamp,
+  );
+  recordDailyTrade(
+    marketId,
+    event.params.usdcOut,
+    BigInt.fromI32(0),
+    isNewToMarket,
+    event.block.timestamp,
+  );
 }
 
 export function handleRedeemed(event: Redeemed): void {
@@ -169,15 +664,38 @@ export function handleRedeemed(event: Redeemed): void {
     return;
   }
 
+  market.usdcVault = subtractSafely(market.usdcVault, event.params.usdcOut);
+
   const user = getOrCreateUser(event.params.user);
+  user.totalClaimedUsdc = user.totalClaimedUsdc.plus(event.params.usdcOut);
+  user.save();
+
   const redemption = new Redemption(createTradeId(event.transaction.hash, event.logIndex));
   redemption.market = marketId;
   redemption.user = user.id;
   redemption.amount = event.params.usdcOut;
   redemption.txHash = event.transaction.hash;
+  redemption.logIndex = event.logIndex;
   redemption.blockNumber = event.block.number;
   redemption.timestamp = event.block.timestamp;
   redemption.save();
+
+  const protocolDay = getOrCreateProtocolDayData(event.block.timestamp);
+  protocolDay.redemptionCount = protocolDay.redemptionCount + 1;
+  protocolDay.redemptionsUsdc = protocolDay.redemptionsUsdc.plus(event.params.usdcOut);
+  protocolDay.save();
+
+  const marketDay = getOrCreateMarketDayData(marketId, event.block.timestamp);
+  marketDay.redemptionCount = marketDay.redemptionCount + 1;
+  marketDay.redemptionsUsdc = marketDay.redemptionsUsdc.plus(event.params.usdcOut);
+  marketDay.save();
+
+  // redeem burns the whole winning balance; the losing side was written off on resolution.
+  if (market.isResolved) {
+    const winning = getOrCreatePositionBalance(marketId, user.id, market.yesWins ? 'yes' : 'no');
+    closePosition(market, winning, user, winning.tokenBalance, event.params.usdcOut);
+  }
+  market.save();
 }
 
 export function handleMarketResolved(event: MarketResolved): void {
@@ -192,5 +710,389 @@ export function handleMarketResolved(event: MarketResolved): void {
   market.resolutionTimestamp = event.block.timestamp;
   market.resolutionTxHash = event.transaction.hash;
   market.save();
+
+  // Losing shares can never pay out, so every holder realizes that loss now,
+  // whether or not they also hold the winning side and ever redeem.
+  const losingSide = event.params.yesWins ? 'no' : 'yes';
+  const balances = market.balances.load();
+  for (let i = 0; i < balances.length; i++) {
+    const balance = balances[i];
+    if (balance.side != losingSide || balance.costBasisUsdc.isZero()) {
+      continue;
+    }
+    const user = User.load(balance.user);
+    if (user !== null) {
+      writeOffPosition(balance, user);
+    }
+  }
+
+  const resolution = new Resolution(marketId);
+  resolution.market = marketId;
+  resolution.yesWins = event.params.yesWins;
+  resolution.oracleAddress = market.oracleAddress;
+  resolution.priceFeedId = market.priceFeedId;
+  resolution.targetValue = market.targetValue;
+  resolution.comparison = market.comparison;
+  resolution.txHash = event.transaction.hash;
+  resolution.blockNumber = event.block.number;
+  resolution.timestamp = event.block.timestamp;
+  resolution.save();
+
+  const protocolDay = getOrCreateProtocolDayData(event.block.timestamp);
+  protocolDay.marketsResolved = protocolDay.marketsResolved + 1;
+  protocolDay.save();
+}
+
+
+// The resolver reports the settlement price right after the core has emitted its own MarketResolved.
+export function handleResolverMarketResolved(event: ResolverMarketResolved): void {
+  const marketId = event.params.marketId.toString();
+  const resolution = Resolution.load(marketId);
+  if (resolution === null) {
+    return;
+  }
+
+  resolution.settlementPrice = event.params.price;
+  resolution.resolver = event.address;
+  resolution.save();
 }
 
+export function handleLiquidityAdded(event: LiquidityAdded): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.totalLpUsdc = market.totalLpUsdc.plus(event.params.usdcAdd);
+  market.usdcVault = market.usdcVault.plus(event.params.usdcAdd);
+  market.save();
+
+  const user = getOrCreateUser(event.params.lp);
+  const position = getOrCreateLiquidityPosition(marketId, user.id, event.block.timestamp);
+  position.depositedUsdc = position.depositedUsdc.plus(event.params.usdcAdd);
+  position.save();
+
+  recordLiquidityEvent(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    position,
+    'add',
+    event.params.usdcAdd,
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+// Also emitted by createMarket, before MarketCreated; that one is skipped here.
+export function handleLiquidityParameterUpdated(event: LiquidityParameterUpdated): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.bE18 = event.params.newBE18;
+  // A deeper book moves the spot price without a trade when qYes != qNo.
+  const spot = SpeculateCore.bind(event.address).try_spotPriceYesE6(event.params.id);
+  if (!spot.reverted) {
+    updateMarketPrice(market, spot.value, event.block.timestamp);
+  }
+  market.save();
+}
+
+export function handleLpFeesClaimed(event: LpFeesClaimed): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  const user = getOrCreateUser(event.params.lp);
+  user.totalClaimedUsdc = user.totalClaimedUsdc.plus(event.params.amount);
+  user.save();
+
+  const position = getOrCreateLiquidityPosition(marketId, user.id, event.block.timestamp);
+  position.feesClaimedUsdc = position.feesClaimedUsdc.plus(event.params.amount);
+  position.save();
+
+  recordLiquidityEvent(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    position,
+    'claimFees',
+    event.params.amount,
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleResidualFinalized(event: ResidualFinalized): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.residualUsdc = market.residualUsdc.plus(event.params.amountIndexed);
+  market.residualFinalizedAt = event.block.timestamp;
+  market.usdcVault = BigInt.fromI32(0);
+  market.save();
+
+  recordLiquidityEvent(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    null,
+    'finalizeResidual',
+    event.params.amountIndexed,
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleLpResidualClaimed(event: LpResidualClaimed): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  const user = getOrCreateUser(event.params.lp);
+  user.totalClaimedUsdc = user.totalClaimedUsdc.plus(event.params.amount);
+  user.save();
+
+  const position = getOrCreateLiquidityPosition(marketId, user.id, event.block.timestamp);
+  position.residualClaimedUsdc = position.residualClaimedUsdc.plus(event.params.amount);
+  position.save();
+
+  recordLiquidityEvent(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    position,
+    'claimResidual',
+    event.params.amount,
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleVaultTopUp(event: VaultTopUp): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.usdcVault = market.usdcVault.plus(event.params.amount);
+  market.save();
+}
+
+export function handleFeesUpdated(event: FeesUpdated): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  const oldFees = formatFees(market.feeTreasuryBps, market.feeVaultBps, market.feeLpBps);
+  market.feeTreasuryBps = event.params.feeTreasuryBps;
+  market.feeVaultBps = event.params.feeVaultBps;
+  market.feeLpBps = event.params.feeLpBps;
+  market.save();
+
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    'feesBps',
+    oldFees,
+    formatFees(market.feeTreasuryBps, market.feeVaultBps, market.feeLpBps),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleMaxUsdcPerTradeSet(event: MaxUsdcPerTradeSet): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.maxUsdcPerTrade = event.params.newMax;
+  market.save();
+
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    'maxUsdcPerTrade',
+    event.params.oldMax.toString(),
+    event.params.newMax.toString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handlePriceBandThresholdSet(event: PriceBandThresholdSet): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.priceBandThreshold = event.params.newThreshold;
+  market.save();
+
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    'priceBandThreshold',
+    event.params.oldThreshold.toString(),
+    event.params.newThreshold.toString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleMarketMaxInstantJumpSet(event: MarketMaxInstantJumpSet): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.maxJumpE18 = event.params.newJump;
+  market.save();
+
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    'maxJumpE18',
+    event.params.oldJump.toString(),
+    event.params.newJump.toString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handlePriceFeedIdSet(event: PriceFeedIdSet): void {
+  const marketId = event.params.id.toString();
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  market.priceFeedId = event.params.newFeedId;
+  market.save();
+
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    marketId,
+    'priceFeedId',
+    event.params.oldFeedId.toHexString(),
+    event.params.newFeedId.toHexString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleMaxInstantJumpSet(event: MaxInstantJumpSet): void {
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    null,
+    'maxInstantJumpE18',
+    event.params.oldJump.toString(),
+    event.params.newJump.toString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleLiquidityMultiplierSet(event: LiquidityMultiplierSet): void {
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    null,
+    'liquidityMultiplierE18',
+    event.params.oldMultiplier.toString(),
+    event.params.newMultiplier.toString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleTreasurySet(event: TreasurySet): void {
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    null,
+    'treasury',
+    event.params.oldTreasury.toHexString(),
+    event.params.newTreasury.toHexString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleChainlinkResolverSet(event: ChainlinkResolverSet): void {
+  recordConfigChange(
+    createTradeId(event.transaction.hash, event.logIndex),
+    null,
+    'chainlinkResolver',
+    event.params.oldResolver.toHexString(),
+    event.params.newResolver.toHexString(),
+    event.transaction.hash,
+    event.block.number,
+    event.block.timestamp,
+  );
+}
+
+export function handleTransfer(event: Transfer): void {
+  // Mints and burns are already accounted for by Buy, Sell and Redeemed.
+  if (
+    event.params.from.equals(Address.zero()) ||
+    event.params.to.equals(Address.zero()) ||
+    event.params.from.equals(event.params.to)
+  ) {
+    return;
+  }
+
+  const context = dataSource.context();
+  const marketId = context.getString('marketId');
+  const side = context.getString('side');
+  const market = Market.load(marketId);
+  if (market === null) {
+    return;
+  }
+
+  // Cost basis travels with the tokens, so the receiver realizes PnL when they exit.
+  const sender = getOrCreateUser(event.params.from);
+  const fromBalance = getOrCreatePositionBalance(marketId, sender.id, side);
+  const movedCost = releaseCostBasis(fromBalance, event.params.value);
+  const fromBefore = fromBalance.tokenBalance;
+  fromBalance.tokenBalance = subtractSafely(fromBefore, event.params.value);
+  fromBalance.costBasisUsdc = fromBalance.costBasisUsdc.minus(movedCost);
+  updateAveragePrice(fromBalance);
+  fromBalance.save();
+  updateHolderCount(market, side, fromBefore, fromBalance.tokenBalance);
+
+  const receiver = getOrCreateUser(event.params.to);
+  const toBalance = getOrCreatePositionBalance(marketId, receiver.id, side);
+  const toBefore = toBalance.tokenBalance;
+  toBalance.tokenBalance = toBefore.plus(event.params.value);
+  toBalance.costBasisUsdc = toBalance.costBasisUsdc.plus(movedCost);
+  updateAveragePrice(toBalance);
+  toBalance.save();
+  updateHolderCount(market, side, toBefore, toBalance.tokenBalance);
+
+  market.save();
+}